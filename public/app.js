@@ -19,6 +19,7 @@ class CacheManager {
     this.setupTabs();
     this.setupDashboard();
     this.setupSources();
+    this.setupCompare();
     this.setupLogs();
     this.setupModal();
     this.loadInitialData();
@@ -62,9 +63,15 @@ class CacheManager {
     // 상태 변경
     this.socket.on('state:change', (data) => {
       console.log('State change:', data);
-      if (data.event === 'source:reload') {
+      if (data.event === 'source:reload' || data.event === 'remote:change') {
         this.loadInitialData();
       }
+      if (data.event === 'source:diff') {
+        this.addDiffEntry(data.data);
+      }
+      if (data.event === 'mcp:session') {
+        this.loadMcpSessions();
+      }
     });
 
     // 통계 응답
@@ -117,6 +124,7 @@ class CacheManager {
       this.socket.emit('log:request', { limit: 100 });
     } else if (tabName === 'dashboard') {
       this.socket.emit('stats:request');
+      this.loadMcpSessions();
     }
   }
 
@@ -167,6 +175,22 @@ class CacheManager {
     });
   }
 
+  // 소스 비교 설정
+  setupCompare() {
+    const compareBtn = document.getElementById('compareBtn');
+    const comparePrefix = document.getElementById('comparePrefix');
+
+    compareBtn.addEventListener('click', () => {
+      this.compareSources();
+    });
+
+    comparePrefix.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        this.compareSources();
+      }
+    });
+  }
+
   // 로그 설정
   setupLogs() {
     // 로그 레벨 필터
@@ -266,11 +290,81 @@ class CacheManager {
         this.updateDashboard(this.stats);
       }
 
+      await this.loadMcpSessions();
+
     } catch (error) {
       console.error('Failed to load initial data:', error);
     }
   }
 
+  // MCP HTTP 세션 목록 로드 (엔드포인트가 꺼져 있으면 섹션 숨김)
+  async loadMcpSessions() {
+    try {
+      const response = await fetch('/api/mcp/sessions');
+      const result = await response.json();
+      const section = document.getElementById('mcpSessionsSection');
+
+      if (!result.success || !result.data.enabled) {
+        section.style.display = 'none';
+        return;
+      }
+
+      section.style.display = '';
+      const { path, allowedOrigins, sessions } = result.data;
+      document.getElementById('mcpEndpointInfo').textContent =
+        `Streamable HTTP: ${path} · SSE: ${path}/sse · Allowed origins: ${allowedOrigins.length > 0 ? allowedOrigins.join(', ') : 'localhost'}`;
+      document.getElementById('mcpSessionCount').textContent = `${sessions.length} sessions`;
+
+      const tbody = document.getElementById('mcpSessionsTableBody');
+      if (sessions.length === 0) {
+        tbody.innerHTML = '<tr><td colspan="7" class="no-data">No active sessions</td></tr>';
+        return;
+      }
+
+      tbody.innerHTML = sessions.map(session => `
+        <tr>
+          <td><code title="${this.escapeHtml(session.id)}">${this.escapeHtml(session.id.slice(0, 8))}</code></td>
+          <td><span class="badge badge-primary">${this.escapeHtml(session.transport)}</span></td>
+          <td>${session.client ? this.escapeHtml(`${session.client.name} ${session.client.version}`) : '-'}</td>
+          <td>${session.requests}</td>
+          <td>${session.lastMethod ? `<code>${this.escapeHtml(session.lastMethod)}</code>` : '-'}</td>
+          <td>${new Date(session.lastActivityAt).toLocaleTimeString()}</td>
+          <td>
+            <button class="btn btn-sm btn-secondary" onclick="app.showMcpSessionLogs('${session.id}')">
+              <span>📝</span> Logs
+            </button>
+          </td>
+        </tr>
+      `).join('');
+
+    } catch (error) {
+      console.error('Failed to load MCP sessions:', error);
+    }
+  }
+
+  // MCP 세션 로그 표시
+  async showMcpSessionLogs(sessionId) {
+    try {
+      const response = await fetch(`/api/mcp/sessions/${encodeURIComponent(sessionId)}/logs?limit=200`);
+      const result = await response.json();
+      const viewer = document.getElementById('mcpSessionLogs');
+
+      if (!result.success) {
+        alert(`Failed to load session logs: ${result.error}`);
+        return;
+      }
+
+      viewer.style.display = '';
+      viewer.innerHTML = result.data.logs.length > 0
+        ? result.data.logs.map(log => this.createLogElement(log)).join('')
+        : '<div class="no-data">No logs for this session</div>';
+      viewer.scrollTop = viewer.scrollHeight;
+
+    } catch (error) {
+      console.error('Failed to load MCP session logs:', error);
+    }
+  }
+
   // 대시보드 업데이트
   updateDashboard(stats) {
     if (!stats) return;
@@ -307,14 +401,20 @@ class CacheManager {
       <div class="source-card">
         <div class="source-header">
           <div class="source-name">
-            ${source.isLoaded ? '✅' : '❌'} ${source.name}
+            ${!source.isLoaded ? '❌' : source.stale ? '⚠️' : '✅'} ${source.name}
           </div>
           <div class="source-badges">
+            ${source.stale ? '<span class="badge badge-warning">STALE</span>' : ''}
             ${source.isPrimary ? '<span class="badge badge-primary">PRIMARY</span>' : ''}
             ${source.isWatchEnabled ? '<span class="badge badge-success">WATCH</span>' : ''}
           </div>
         </div>
         <div class="source-path">${source.path}</div>
+        ${source.stale && source.lastError ? `
+          <div class="source-error" title="${this.escapeHtml(source.lastError.failedAt)}">
+            Reload failed, serving previous data: ${this.escapeHtml(source.lastError.message)}
+          </div>
+        ` : ''}
         <div class="source-stats">
           <div class="source-stat">
             <span class="source-stat-label">Keys:</span>
@@ -356,6 +456,18 @@ class CacheManager {
       ).join('');
 
     select.value = currentValue;
+
+    // 비교 탭 소스 선택 (기본값: 첫 번째, 두 번째 소스)
+    ['compareSourceA', 'compareSourceB'].forEach((id, index) => {
+      const compareSelect = document.getElementById(id);
+      const selected = compareSelect.value || sources[Math.min(index, sources.length - 1)]?.name || '';
+
+      compareSelect.innerHTML = sources.map(source =>
+        `<option value="${source.name}">${source.name}</option>`
+      ).join('');
+
+      compareSelect.value = selected;
+    });
   }
 
   // 소스 리로드
@@ -370,7 +482,9 @@ class CacheManager {
         alert(`Source "${sourceName}" reloaded successfully`);
         this.loadInitialData();
       } else {
-        alert('Reload failed: ' + data.error);
+        const fallback = data.data?.stale ? '\n(previous data is still being served)' : '';
+        alert('Reload failed: ' + data.error + fallback);
+        this.loadInitialData();
       }
     } catch (error) {
       alert('Reload error: ' + error.message);
@@ -454,6 +568,84 @@ class CacheManager {
     `).join('');
   }
 
+  // 소스 비교
+  async compareSources() {
+    const sourceA = document.getElementById('compareSourceA').value;
+    const sourceB = document.getElementById('compareSourceB').value;
+    const prefix = document.getElementById('comparePrefix').value.trim();
+    const normalize = document.getElementById('compareNormalize').value;
+
+    const compareInfo = document.getElementById('compareInfo');
+
+    if (!sourceA || !sourceB || sourceA === sourceB) {
+      compareInfo.textContent = 'Select two different sources';
+      return;
+    }
+
+    compareInfo.textContent = 'Comparing...';
+
+    try {
+      let url = `/api/compare?a=${encodeURIComponent(sourceA)}&b=${encodeURIComponent(sourceB)}`;
+      url += `&normalize=${encodeURIComponent(normalize)}`;
+      if (prefix) url += `&prefix=${encodeURIComponent(prefix)}`;
+
+      const response = await fetch(url);
+      const data = await response.json();
+
+      if (data.success) {
+        this.displayComparison(data.data);
+
+        const { summary } = data.data;
+        const info = [
+          `Only in ${sourceA}: ${summary.onlyInA}`,
+          `Only in ${sourceB}: ${summary.onlyInB}`,
+          `Different: ${summary.different}`
+        ];
+        if (data.data.hasMore) info.push('(showing first 200 of each)');
+
+        compareInfo.textContent = info.join(' • ');
+      } else {
+        compareInfo.textContent = 'Compare failed: ' + data.error;
+      }
+    } catch (error) {
+      compareInfo.textContent = 'Compare error: ' + error.message;
+    }
+  }
+
+  // 비교 결과 표시
+  displayComparison(data) {
+    const tbody = document.getElementById('compareTableBody');
+    const compareCount = document.getElementById('compareCount');
+    const { summary } = data;
+
+    compareCount.textContent = `${summary.onlyInA + summary.onlyInB + summary.different} differences`;
+
+    const rows = [
+      ...data.onlyInA.map(entry => ({ key: entry.key, badge: 'badge-primary', status: `Only in ${data.sourceA}`, sources: [data.sourceA] })),
+      ...data.onlyInB.map(entry => ({ key: entry.key, badge: 'badge-success', status: `Only in ${data.sourceB}`, sources: [data.sourceB] })),
+      ...data.different.map(entry => ({ key: entry.key, badge: 'badge-warning', status: 'Different', sources: [data.sourceA, data.sourceB] }))
+    ];
+
+    if (rows.length === 0) {
+      tbody.innerHTML = '<tr><td colspan="3" class="no-data">No differences found</td></tr>';
+      return;
+    }
+
+    tbody.innerHTML = rows.map(row => `
+      <tr>
+        <td><code>${this.escapeHtml(row.key)}</code></td>
+        <td><span class="badge ${row.badge}">${this.escapeHtml(row.status)}</span></td>
+        <td>
+          ${row.sources.map(source => `
+            <button class="btn btn-sm btn-primary" onclick="app.viewValue('${row.key}', '${source}')">
+              <span>👁️</span> ${this.escapeHtml(source)}
+            </button>
+          `).join('')}
+        </td>
+      </tr>
+    `).join('');
+  }
+
   // 값 조회
   async viewValue(key, source) {
     try {
@@ -544,6 +736,18 @@ class CacheManager {
     }
   }
 
+  // 리로드 변경 내역을 로그 뷰어에 표시
+  addDiffEntry(diff) {
+    const { summary } = diff;
+    this.addLogEntry({
+      level: 'info',
+      timestamp: diff.timestamp,
+      source: 'DIFF',
+      message: `${diff.source} v${diff.fromVersion} → v${diff.toVersion}: 추가 ${summary.added}, 삭제 ${summary.removed}, 변경 ${summary.changed}`,
+      context: { added: diff.added, removed: diff.removed, changed: diff.changed }
+    });
+  }
+
   // 로그 엘리먼트 생성
   createLogElement(entry) {
     const levelClass = `log-${entry.level}`;
@@ -561,7 +765,7 @@ class CacheManager {
 
   // 로그 필터링
   filterLogs() {
-    const entries = document.querySelectorAll('.log-entry');
+    const entries = document.querySelectorAll('#logViewer .log-entry');
 
     entries.forEach(entry => {
       if (this.currentLogLevel === 'all') {
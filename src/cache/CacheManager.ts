@@ -3,14 +3,73 @@
  * 여러 JSON 파일을 동시에 관리하고 전역 검색 기능 제공
  */
 
-import { JsonCache } from './JsonCache.js';
-import { CacheConfig, QueryResult, CacheStats, ReloadResult, CacheError } from '../types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonCache, DEFAULT_MAX_FILE_SIZE_MB } from './JsonCache.js';
+import { SourceHistory, SourceSnapshot } from './SourceHistory.js';
+import { DiskSnapshotStore, isUnchanged } from './DiskSnapshotStore.js';
+import {
+  CacheConfig,
+  QueryResult,
+  KeyPeekResult,
+  CacheStats,
+  ReloadResult,
+  CacheError,
+  KeySuggestion,
+  ValueSearchResult,
+  PatternQueryResult,
+  TableUsage,
+  SnapshotInfo,
+  SourceDiff,
+  SourceComparison,
+  CompareNormalization,
+  DiffEntry,
+  WriteResult,
+  CacheData,
+  MemoryBudgetStats,
+  ResidencyEvent
+} from '../types.js';
+import { SqlOperation } from '../utils/sql-analyzer.js';
+import { diffData, summarizeDiff, getValueNormalizer, ValueNormalizer } from '../utils/json-diff.js';
+import { applyPatch, deleteAtPath, getAtPath, JsonPatchError, JsonPatchOperation, setAtPath } from '../utils/json-patch.js';
+import { hashKeyRevision, matchesRevision } from '../utils/revision.js';
+
+// 스냅샷 보관 기본값
+export const DEFAULT_HISTORY_SNAPSHOTS = 5;
+export const DEFAULT_HISTORY_MEMORY_MB = 100;
+// 리로드/쓰기 후 디스크 스냅샷 저장 지연 (연속 변경 시 마지막 한 번만 저장)
+export const DISK_SNAPSHOT_SAVE_DELAY_MS = 5000;
+// 보관할 최근 상주 상태 변경 이벤트 개수
+export const MAX_RESIDENCY_EVENTS = 50;
+
+// 리로드로 새 스냅샷이 기록될 때 직전 스냅샷과의 차이 알림
+export type HistoryListener = (diff: SourceDiff) => void;
+
+// 소스 데이터가 바뀌었을 때 알림 (리로드로 내용이 바뀌었거나 쓰기 후)
+export type SourceUpdateListener = (source: string) => void;
+
+export interface CompareOptions {
+  prefix?: string; // 이 접두사로 시작하는 키만 비교 결과에 포함
+  normalize?: CompareNormalization | ValueNormalizer; // 내장 방식 또는 직접 만든 정규화 함수 (기본값: none)
+}
 
 export class CacheManager {
   private caches: Map<string, JsonCache> = new Map();
   private primarySource?: string;
   private config?: CacheConfig;
   private defaultMaxDepth: number = 2;
+  // 소스별 리로드 스냅샷
+  private histories: Map<string, SourceHistory> = new Map();
+  private historyListeners: HistoryListener[] = [];
+  private updateListeners: SourceUpdateListener[] = [];
+  // 디스크 캐시 스냅샷 (options.snapshotDir 지정 시)
+  private diskSnapshots?: DiskSnapshotStore;
+  private diskSnapshotTimers: Map<string, NodeJS.Timeout> = new Map();
+  // 메모리 예산 (options.cacheSize 지정 시): 내린 소스의 임시 저장소와 상주 상태 변경 기록
+  private spillStore?: DiskSnapshotStore;
+  private budgetQueue: Promise<void> = Promise.resolve();
+  private residencyEvents: ResidencyEvent[] = [];
+  private residencyCounts: Map<string, { evictions: number; restores: number }> = new Map();
 
   /**
    * 모든 소스 로드
@@ -18,6 +77,10 @@ export class CacheManager {
   public async loadAll(config: CacheConfig): Promise<void> {
     this.config = config;
     this.defaultMaxDepth = config.options?.maxDepth ?? 2;
+    this.diskSnapshots = config.options?.snapshotDir ? new DiskSnapshotStore(config.options.snapshotDir) : undefined;
+    this.spillStore = config.options?.cacheSize
+      ? new DiskSnapshotStore(join(tmpdir(), `mcp-json-cache-${process.pid}`))
+      : undefined;
     const sourceEntries = Object.entries(config.sources);
 
     if (sourceEntries.length === 0) {
@@ -40,10 +103,23 @@ export class CacheManager {
 
     // 모든 소스 병렬 로드
     for (const [name, sourceConfig] of sourceEntries) {
-      const cache = new JsonCache(sourceConfig.name, sourceConfig.path);
+      const cache = new JsonCache(sourceConfig.name, sourceConfig.url ?? sourceConfig.path, {
+        format: sourceConfig.format,
+        remote: sourceConfig.url
+          ? { url: sourceConfig.url, headers: sourceConfig.headers, timeout: sourceConfig.timeout }
+          : undefined,
+        mergeStrategy: sourceConfig.mergeStrategy,
+        idField: sourceConfig.idField,
+        streaming: sourceConfig.streaming ?? config.options?.streaming,
+        maxFileSize: sourceConfig.maxFileSize ?? config.options?.maxFileSize,
+        indexValues: sourceConfig.indexValues,
+        writable: sourceConfig.writable,
+        diskSnapshot: this.diskSnapshots !== undefined && !sourceConfig.url
+      });
+      cache.setResidencyListener(event => this.handleResidencyChange(name, cache, event));
 
       // 로드 시도 (실패해도 다른 소스는 계속 진행)
-      const loadPromise = this.loadSourceWithFallback(cache, errors);
+      const loadPromise = this.loadSourceWithFallback(name, cache, errors);
       loadPromises.push(loadPromise);
 
       this.caches.set(name, cache);
@@ -65,19 +141,256 @@ export class CacheManager {
       console.error(`[CacheManager] ${errors.length}개 소스 로드 실패:`);
       errors.forEach(error => console.error(`  - ${error.message}`));
     }
+
+    await this.enforceMemoryBudget();
   }
 
   /**
    * 개별 소스 로드 (실패 시 다른 소스는 계속 진행)
    */
-  private async loadSourceWithFallback(cache: JsonCache, errors: Error[]): Promise<void> {
+  private async loadSourceWithFallback(name: string, cache: JsonCache, errors: Error[]): Promise<void> {
     try {
+      if (await this.restoreDiskSnapshot(name, cache)) {
+        this.recordSnapshot(name, cache);
+        return;
+      }
+
       await cache.load();
+      this.recordSnapshot(name, cache);
+      this.scheduleDiskSnapshotSave(name, 0);
     } catch (error) {
       errors.push(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
+  /**
+   * 디스크 스냅샷이 있으면 파싱 없이 복원
+   * 원본이 바뀌었으면 스냅샷 데이터를 먼저 제공하고 원본은 백그라운드에서 다시 로드 (실패하면 스냅샷 데이터를 stale 상태로 계속 제공)
+   * @returns 복원 여부 (스냅샷이 없거나 읽을 수 없거나 설정이 바뀌었으면 false)
+   */
+  private async restoreDiskSnapshot(name: string, cache: JsonCache): Promise<boolean> {
+    if (!this.diskSnapshots || !cache.isDiskSnapshotEnabled()) {
+      return false;
+    }
+
+    let unchanged: boolean;
+    try {
+      const snapshot = await this.diskSnapshots.read(name);
+      if (!snapshot || snapshot.path !== cache.getPath() || snapshot.settings !== cache.getSnapshotSettings()) {
+        return false;
+      }
+
+      unchanged = await isUnchanged(snapshot.fingerprints, cache.getSourceFiles());
+      await cache.restore(snapshot, !unchanged);
+    } catch (error) {
+      console.error(`[CacheManager] 디스크 스냅샷 복원 실패 (${name}), 원본에서 로드합니다:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    if (!unchanged) {
+      // 복원 직후 로드를 큐에 넣으므로 이후의 쓰기는 다시 로드한 데이터를 기준으로 실행됨
+      this.reload(name).then(result => {
+        if (!result.success) {
+          console.error(`[CacheManager] 디스크 스냅샷 이후 원본 다시 로드 실패 (${name}): ${result.error}`);
+        }
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * 디스크 스냅샷 저장 예약 (같은 소스의 이전 예약은 취소)
+   */
+  private scheduleDiskSnapshotSave(source: string, delay: number = DISK_SNAPSHOT_SAVE_DELAY_MS): void {
+    if (!this.diskSnapshots) {
+      return;
+    }
+
+    clearTimeout(this.diskSnapshotTimers.get(source));
+    const timer = setTimeout(() => {
+      this.diskSnapshotTimers.delete(source);
+      this.saveDiskSnapshot(source).catch(error => {
+        console.error(`[CacheManager] 디스크 스냅샷 저장 실패 (${source}):`, error instanceof Error ? error.message : error);
+      });
+    }, delay);
+    timer.unref();
+    this.diskSnapshotTimers.set(source, timer);
+  }
+
+  /**
+   * 현재 데이터를 디스크 스냅샷으로 저장
+   * @returns 저장 여부 (디스크 스냅샷을 쓰지 않는 소스면 false)
+   */
+  public async saveDiskSnapshot(source: string): Promise<boolean> {
+    const snapshot = this.caches.get(source)?.exportDiskSnapshot();
+    if (!this.diskSnapshots || !snapshot) {
+      return false;
+    }
+
+    await this.diskSnapshots.write(snapshot);
+    return true;
+  }
+
+  /**
+   * 예약된 디스크 스냅샷 저장을 바로 실행 (예약이 없으면 무시)
+   */
+  private async flushDiskSnapshotSave(source: string): Promise<void> {
+    const timer = this.diskSnapshotTimers.get(source);
+    if (!timer) {
+      return;
+    }
+
+    clearTimeout(timer);
+    this.diskSnapshotTimers.delete(source);
+    try {
+      await this.saveDiskSnapshot(source);
+    } catch (error) {
+      console.error(`[CacheManager] 디스크 스냅샷 저장 실패 (${source}):`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * 메모리 예산 (bytes, options.cacheSize 미지정 시 null)
+   */
+  public getMemoryBudget(): number | null {
+    const cacheSize = this.config?.options?.cacheSize;
+    return cacheSize ? cacheSize * 1024 * 1024 : null;
+  }
+
+  /**
+   * 메모리 예산 적용 (이전 적용이 끝난 뒤 순서대로 실행, 실패해도 예외를 전달하지 않음)
+   * @param keep 방금 다시 올린 소스처럼 이번에는 내리지 않을 소스
+   */
+  private enforceMemoryBudget(keep?: string): Promise<void> {
+    this.budgetQueue = this.budgetQueue
+      .then(() => this.evictOverBudget(keep))
+      .catch(error => {
+        console.error('[CacheManager] 메모리 예산 적용 실패:', error instanceof Error ? error.message : error);
+      });
+    return this.budgetQueue;
+  }
+
+  /**
+   * 사용량이 예산을 넘으면 가장 오래 조회되지 않은 비primary 소스부터 임시 저장소로 내림
+   * 예약된 디스크 스냅샷 저장은 내리기 전에 먼저 실행 (내린 뒤에 저장하면 다시 올려야 하므로)
+   */
+  private async evictOverBudget(keep?: string): Promise<void> {
+    const budget = this.getMemoryBudget();
+    if (budget === null || !this.spillStore) {
+      return;
+    }
+
+    const skipped = new Set<string>();
+    if (keep) skipped.add(keep);
+    if (this.primarySource) skipped.add(this.primarySource);
+
+    while (this.getMemoryUsage() > budget) {
+      const [candidate] = Array.from(this.caches.entries())
+        .filter(([name, cache]) => !skipped.has(name) && cache.isLoaded() && cache.isResident())
+        .sort(([, a], [, b]) => (a.getLastAccessedAt()?.getTime() ?? 0) - (b.getLastAccessedAt()?.getTime() ?? 0));
+      if (!candidate) break;
+
+      const [name, cache] = candidate;
+      skipped.add(name);
+
+      await this.flushDiskSnapshotSave(name);
+      const bytes = cache.estimateMemoryUsage();
+      if (await cache.evict(this.spillStore)) {
+        this.recordResidencyEvent(name, 'evicted', bytes);
+      }
+    }
+  }
+
+  /**
+   * 소스 상주 상태 변경 처리 (다시 올리기는 조회 도중 동기로 호출됨)
+   * 최신 스냅샷이 현재 데이터를 참조하므로 함께 놓거나 다시 연결
+   */
+  private handleResidencyChange(source: string, cache: JsonCache, event: 'evicted' | 'restored' | 'restore-failed'): void {
+    const history = this.histories.get(source);
+
+    if (event === 'evicted') {
+      history?.releaseLatest();
+      return;
+    }
+
+    if (event === 'restored') {
+      history?.attachLatest(cache.getData());
+      this.recordResidencyEvent(source, 'restored', cache.estimateMemoryUsage());
+      this.enforceMemoryBudget(source);
+      return;
+    }
+
+    console.error(`[CacheManager] 메모리에서 내린 소스를 다시 올리지 못했습니다 (${source}), 원본에서 다시 로드합니다`);
+    this.reload(source).then(result => {
+      if (!result.success) {
+        console.error(`[CacheManager] 원본 다시 로드 실패 (${source}): ${result.error}`);
+      }
+    });
+  }
+
+  /**
+   * 상주 상태 변경 기록 (최근 MAX_RESIDENCY_EVENTS개와 소스별 누적 횟수)
+   */
+  private recordResidencyEvent(source: string, type: ResidencyEvent['type'], bytes: number): void {
+    this.residencyEvents.push({ source, type, bytes, at: new Date() });
+    if (this.residencyEvents.length > MAX_RESIDENCY_EVENTS) {
+      this.residencyEvents.shift();
+    }
+
+    const counts = this.residencyCounts.get(source) ?? { evictions: 0, restores: 0 };
+    if (type === 'evicted') {
+      counts.evictions++;
+    } else {
+      counts.restores++;
+    }
+    this.residencyCounts.set(source, counts);
+  }
+
+  /**
+   * 소스의 상주 상태 (소스가 없으면 null)
+   */
+  public getResidency(source: string): { resident: boolean; lastAccessedAt?: Date; evictions: number; restores: number } | null {
+    const cache = this.caches.get(source);
+    if (!cache) return null;
+
+    const counts = this.residencyCounts.get(source) ?? { evictions: 0, restores: 0 };
+    return {
+      resident: cache.isResident(),
+      lastAccessedAt: cache.getLastAccessedAt() ?? undefined,
+      ...counts
+    };
+  }
+
+  /**
+   * 메모리 예산 사용 현황
+   */
+  public getMemoryBudgetStats(): MemoryBudgetStats {
+    const resident: string[] = [];
+    const evicted: string[] = [];
+    for (const [name, cache] of this.caches) {
+      if (!cache.isLoaded()) continue;
+      (cache.isResident() ? resident : evicted).push(name);
+    }
+
+    let evictions = 0;
+    let restores = 0;
+    for (const counts of this.residencyCounts.values()) {
+      evictions += counts.evictions;
+      restores += counts.restores;
+    }
+
+    return {
+      budget: this.getMemoryBudget(),
+      used: this.getMemoryUsage(),
+      resident,
+      evicted,
+      evictions,
+      restores,
+      recentEvents: this.residencyEvents.slice(-10).reverse()
+    };
+  }
+
   /**
    * 전체 소스에서 키 검색 (source 미지정)
    */
@@ -138,7 +451,7 @@ export class CacheManager {
     for (const [sourceName, cache] of this.caches) {
       if (sourceName === this.primarySource) continue; // primary는 이미 검색함
 
-      const value = cache.get(key);
+      const value = this.lookupSource(sourceName, false, () => cache.get(key));
       if (value !== undefined) {
         return {
           source: sourceName,
@@ -158,6 +471,240 @@ export class CacheManager {
     };
   }
 
+  /**
+   * 조회 결과의 키 리비전 (찾지 못했으면 undefined)
+   * 값 전체를 직렬화하여 해시하므로 query()는 계산하지 않고, 리비전을 반환하거나 비교해야 하는 호출자만 사용
+   */
+  public getKeyRevision(result: QueryResult): string | undefined {
+    return result.found ? hashKeyRevision(result.source, result.value) : undefined;
+  }
+
+  /**
+   * query()와 같은 순서(primary 우선)로 키를 확인하되 조회 통계/조회 시각을 바꾸지 않고 내려둔 소스도 다시 올리지 않음
+   * Resource 구독 변경 감지용이며, 내려둔 소스에서 찾으면 resident가 false이고 value는 undefined
+   */
+  public peek(key: string, source?: string): KeyPeekResult {
+    const targets = source
+      ? [[source, this.caches.get(source)] as const]
+      : this.getOrderedCaches();
+
+    for (const [sourceName, cache] of targets) {
+      if (!cache || !key) continue;
+
+      const { found, value } = cache.peek(key);
+      if (found) {
+        return {
+          source: sourceName,
+          key,
+          value,
+          found,
+          resident: cache.isResident(),
+          sourceRevision: cache.getRevision() ?? undefined
+        };
+      }
+    }
+
+    return {
+      source: 'unknown',
+      key,
+      value: undefined,
+      found: false,
+      resident: true
+    };
+  }
+
+  /**
+   * 와일드카드/글롭 패턴으로 여러 키 조회
+   * 소스 미지정 시 primary 소스부터 검색하며, 같은 키는 먼저 찾은 소스의 값을 사용
+   */
+  public queryPattern(pattern: string, source?: string, limit: number = 100): PatternQueryResult {
+    if (!this.isLoaded()) {
+      throw new CacheError('캐시가 로드되지 않았습니다', 'CACHE_NOT_LOADED');
+    }
+
+    if (!pattern) {
+      throw new CacheError('키가 필요합니다', 'KEY_REQUIRED');
+    }
+
+    const result: PatternQueryResult = {
+      pattern,
+      matches: {},
+      sources: {},
+      total: 0,
+      truncated: false
+    };
+
+    const targets = source
+      ? [[source, this.caches.get(source)] as const]
+      : this.getOrderedCaches();
+
+    for (const [sourceName, cache] of targets) {
+      if (!cache || !cache.isLoaded()) continue;
+
+      const found = this.lookupSource(sourceName, !!source, () => cache.match(pattern, limit));
+      if (!found) continue;
+
+      const { matches, total } = found;
+      result.total += total;
+
+      for (const { key, value } of matches) {
+        if (key in result.matches) continue;
+
+        if (Object.keys(result.matches).length >= limit) {
+          result.truncated = true;
+          break;
+        }
+
+        result.matches[key] = value;
+        result.sources[key] = sourceName;
+      }
+
+      if (total > matches.length) {
+        result.truncated = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 유사 키 추천 (전체 또는 특정 소스, 점수 내림차순)
+   */
+  public suggestKeys(
+    query: string,
+    source?: string,
+    limit: number = 10,
+    minScore: number = 0
+  ): KeySuggestion[] {
+    if (!this.isLoaded() || !query) {
+      return [];
+    }
+
+    const suggestions: KeySuggestion[] = [];
+    const targets = source
+      ? [[source, this.caches.get(source)] as const]
+      : Array.from(this.caches.entries());
+
+    for (const [sourceName, cache] of targets) {
+      if (!cache || !cache.isLoaded()) continue;
+
+      for (const match of cache.suggestKeys(query, { limit, minScore })) {
+        suggestions.push({ key: match.key, source: sourceName, score: match.score });
+      }
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+      .slice(0, limit);
+  }
+
+  /**
+   * 문자열 값 전문 검색 (전체 또는 특정 소스)
+   * 값 색인이 비활성화된 소스는 건너뜀
+   */
+  public searchValues(
+    query: string,
+    source?: string,
+    options: { field?: string; limit?: number } = {}
+  ): ValueSearchResult[] {
+    if (!this.isLoaded() || !query) {
+      return [];
+    }
+
+    const limit = options.limit ?? 20;
+    const results: ValueSearchResult[] = [];
+    const targets = source
+      ? [[source, this.caches.get(source)] as const]
+      : this.getOrderedCaches();
+
+    for (const [sourceName, cache] of targets) {
+      if (!cache || !cache.isLoaded() || !cache.hasValueIndex()) continue;
+
+      const hits = this.lookupSource(sourceName, !!source, () => cache.searchValues(query, {
+        field: options.field,
+        limit: limit - results.length
+      })) ?? [];
+      for (const hit of hits) {
+        results.push({ source: sourceName, key: hit.key, matches: hit.matches });
+      }
+
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * 테이블을 사용하는 쿼리 조회 (전체 또는 특정 소스, primary 우선)
+   * 테이블 색인은 소스 로드/리로드 시 함께 재생성됨
+   */
+  public findQueriesByTable(
+    table: string,
+    source?: string,
+    options: { operation?: SqlOperation; limit?: number } = {}
+  ): TableUsage[] {
+    if (!this.isLoaded() || !table) {
+      return [];
+    }
+
+    const results: TableUsage[] = [];
+    const targets = source
+      ? [[source, this.caches.get(source)] as const]
+      : this.getOrderedCaches();
+
+    for (const [sourceName, cache] of targets) {
+      if (!cache || !cache.isLoaded()) continue;
+
+      const hits = this.lookupSource(sourceName, !!source, () => cache.findTableUsage(table, { operation: options.operation })) ?? [];
+      for (const hit of hits) {
+        results.push({ source: sourceName, ...hit });
+      }
+    }
+
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  /**
+   * 전체 소스의 색인된 테이블명 목록
+   */
+  public listTables(source?: string): string[] {
+    const tables = new Set<string>();
+    for (const [sourceName, cache] of this.caches) {
+      if (source && sourceName !== source) continue;
+      this.lookupSource(sourceName, !!source, () => cache.listTables())?.forEach(table => tables.add(table));
+    }
+    return Array.from(tables).sort();
+  }
+
+  /**
+   * 소스 하나에 대한 조회 실행
+   * 소스를 지정하지 않은 전체 조회에서는 다시 올리지 못한 소스(RESTORE_FAILED)를 기록하고 건너뛰어 다른 소스의 결과를 반환
+   * @param explicit 호출자가 이 소스를 직접 지정했는지 여부 (지정했으면 예외를 그대로 전달)
+   */
+  private lookupSource<T>(source: string, explicit: boolean, lookup: () => T): T | undefined {
+    try {
+      return lookup();
+    } catch (error) {
+      if (explicit || !(error instanceof CacheError) || error.code !== 'RESTORE_FAILED') {
+        throw error;
+      }
+      console.error(`[CacheManager] 다시 올리지 못한 소스를 건너뜁니다 (${source}): ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * primary 소스를 앞에 둔 캐시 목록
+   */
+  private getOrderedCaches(): Array<readonly [string, JsonCache]> {
+    const entries = Array.from(this.caches.entries());
+    return entries.sort(([a], [b]) => {
+      if (a === this.primarySource) return -1;
+      if (b === this.primarySource) return 1;
+      return 0;
+    });
+  }
+
   /**
    * 키 목록 조회 (별칭)
    */
@@ -221,7 +768,23 @@ export class CacheManager {
       loadedAt: stats.loadedAt,
       loadedAtFormatted: this.formatDate(stats.loadedAt),
       hits: stats.hits,
+      format: cache.getFormat(),
+      files: cache.isMultiFile() ? cache.getFiles() : undefined,
+      remote: sourceConfig?.url ? { url: sourceConfig.url, pollInterval: sourceConfig.pollInterval } : undefined,
+      streaming: cache.isStreaming(),
+      valueIndex: cache.getValueIndexStats(),
+      tableIndex: cache.getTableIndexStats(),
+      maxFileSize: cache.getMaxFileSize(),
+      indexedKeys: stats.indexedKeys,
+      avgLookupTime: stats.avgLookupTime,
       isLoaded: cache.isLoaded(),
+      stale: cache.isStale(),
+      writable: cache.isWritable(),
+      revision: cache.getRevision() ?? undefined,
+      diskSnapshot: cache.getRestoredSnapshot() ?? undefined,
+      memory: cache.getMemoryBreakdown() ?? undefined,
+      residency: this.getResidency(source),
+      lastError: cache.getLoadError() ?? undefined,
       isPrimary: source === this.primarySource,
       isWatchEnabled: sourceConfig?.watch || false
     };
@@ -266,27 +829,404 @@ export class CacheManager {
     }
 
     try {
-      await cache.load();
+      // 내려둔 소스는 이전 스냅샷과 비교할 수 있도록 먼저 다시 올림 (임시 파일을 읽지 못한 소스는 비교 없이 다시 로드)
+      if (this.histories.has(source) && !cache.isRestoreFailed()) {
+        cache.ensureResident();
+      }
+
+      const changed = await cache.load();
       const stats = cache.getStats();
+      const snapshot = changed ? this.recordSnapshot(source, cache) : undefined;
+      if (changed) {
+        this.scheduleDiskSnapshotSave(source);
+        this.enforceMemoryBudget();
+        this.notifyUpdateListeners(source);
+      }
 
       return {
         source,
         success: true,
         keys: stats.keys,
         size: stats.size,
-        duration: Date.now() - startTime
+        duration: Date.now() - startTime,
+        notModified: changed ? undefined : true,
+        version: snapshot?.version,
+        diff: snapshot?.diff ? summarizeDiff(snapshot.diff) : undefined
       };
 
     } catch (error) {
+      // 로드 실패 시 이전 데이터가 있으면 stale 상태로 계속 제공
+      const stale = cache.isStale();
+      const stats = cache.getStats();
+
       return {
         source,
         success: false,
         error: error instanceof Error ? error.message : String(error),
-        keys: 0,
-        size: 0,
-        duration: Date.now() - startTime
+        keys: stale ? stats.keys : 0,
+        size: stale ? stats.size : 0,
+        duration: Date.now() - startTime,
+        stale
+      };
+    }
+  }
+
+  /**
+   * 키 값 설정 (없는 키는 추가, 없는 상위 객체는 생성) 후 파일에 저장
+   * 키는 조회와 같은 규칙으로 기존 키를 찾음 (대소문자 무시, 섹션 생략)
+   * ifMatch가 있으면 키의 현재 리비전이 일치할 때만 저장 ('*'는 키가 있을 때만)
+   */
+  public async setValue(source: string, key: string, value: unknown, ifMatch?: string | string[]): Promise<WriteResult> {
+    const result = await this.writeSource(source, (cache, draft) => {
+      const path = cache.resolveKeyPath(key);
+      if (ifMatch !== undefined) {
+        this.assertRevision(source, `키 '${key}'`, hashKeyRevision(source, getAtPath(draft, path)), ifMatch);
+      }
+
+      try {
+        setAtPath(draft, path, value);
+      } catch (error) {
+        throw new CacheError(error instanceof Error ? error.message : String(error), 'INVALID_KEY', source);
+      }
+    });
+
+    return { ...result, keyRevision: hashKeyRevision(source, value) };
+  }
+
+  /**
+   * 키 삭제 후 파일에 저장
+   * ifMatch가 있으면 키의 현재 리비전이 일치할 때만 삭제
+   */
+  public async deleteKey(source: string, key: string, ifMatch?: string | string[]): Promise<WriteResult> {
+    return this.writeSource(source, (cache, draft) => {
+      const path = cache.resolveKeyPath(key);
+      if (ifMatch !== undefined) {
+        this.assertRevision(source, `키 '${key}'`, hashKeyRevision(source, getAtPath(draft, path)), ifMatch);
+      }
+
+      if (!deleteAtPath(draft, path)) {
+        throw new CacheError(`키를 찾을 수 없습니다: ${key}`, 'KEY_NOT_FOUND', source);
+      }
+    });
+  }
+
+  /**
+   * JSON Patch(RFC 6902) 적용 후 파일에 저장
+   * 연산 중 하나라도 실패하면(test 불일치 포함) 아무것도 변경하지 않음
+   * ifMatch가 있으면 소스의 현재 리비전이 일치할 때만 적용
+   */
+  public async patchSource(source: string, operations: JsonPatchOperation[], ifMatch?: string | string[]): Promise<WriteResult> {
+    return this.writeSource(source, (cache, draft) => {
+      if (ifMatch !== undefined) {
+        this.assertRevision(source, `소스 '${source}'`, cache.getRevision() ?? undefined, ifMatch);
+      }
+
+      try {
+        applyPatch(draft, operations);
+      } catch (error) {
+        if (error instanceof JsonPatchError) {
+          throw new CacheError(error.message, 'PATCH_FAILED', source);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * 현재 리비전이 ifMatch와 다르면 REVISION_MISMATCH (쓰기 큐 안에서 호출되므로 확인과 저장 사이에 다른 변경이 끼어들지 않음)
+   */
+  private assertRevision(source: string, target: string, current: string | undefined, ifMatch: string | string[]): void {
+    if (!matchesRevision(current, ifMatch)) {
+      throw new CacheError(
+        `${target}의 리비전이 일치하지 않습니다 (현재: ${current ?? '없음'}). 다시 조회한 뒤 변경하세요`,
+        'REVISION_MISMATCH',
+        source
+      );
+    }
+  }
+
+  /**
+   * 쓰기 가능한 소스에 변경 적용 후 스냅샷 기록
+   */
+  private async writeSource(
+    source: string,
+    mutate: (cache: JsonCache, draft: CacheData) => void
+  ): Promise<WriteResult> {
+    const startTime = Date.now();
+    const cache = this.caches.get(source);
+    if (!cache) {
+      throw new CacheError(`소스 '${source}'를 찾을 수 없습니다`, 'SOURCE_NOT_FOUND', source);
+    }
+
+    await cache.update(draft => mutate(cache, draft));
+
+    const stats = cache.getStats();
+    const snapshot = this.recordSnapshot(source, cache);
+    this.scheduleDiskSnapshotSave(source);
+    this.enforceMemoryBudget();
+    this.notifyUpdateListeners(source);
+
+    return {
+      source,
+      keys: stats.keys,
+      size: stats.size,
+      duration: Date.now() - startTime,
+      version: snapshot?.version,
+      diff: snapshot?.diff ? summarizeDiff(snapshot.diff) : undefined,
+      revision: cache.getRevision() as string
+    };
+  }
+
+  /**
+   * 쓰기 가능한 소스 목록
+   */
+  public getWritableSources(): string[] {
+    return Array.from(this.caches.entries())
+      .filter(([, cache]) => cache.isWritable())
+      .map(([name]) => name);
+  }
+
+  /**
+   * 로드된 데이터를 스냅샷으로 기록하고 메모리 예산 적용
+   * 직전 스냅샷이 있으면 차이를 계산하여 리스너에 알림
+   * 새 버전이 기록되지 않으면 undefined (maxSnapshots: 0이거나 내용이 같은 경우)
+   */
+  private recordSnapshot(source: string, cache: JsonCache): SourceSnapshot | undefined {
+    const maxSnapshots = this.config?.options?.history?.maxSnapshots ?? DEFAULT_HISTORY_SNAPSHOTS;
+    if (maxSnapshots <= 0) {
+      return undefined;
+    }
+
+    let history = this.histories.get(source);
+    if (!history) {
+      history = new SourceHistory(maxSnapshots);
+      this.histories.set(source, history);
+    }
+
+    const stats = cache.getStats();
+    const snapshot = history.record(cache.getData(), {
+      loadedAt: stats.loadedAt,
+      keys: stats.keys,
+      size: stats.size,
+      memoryUsage: cache.getMemoryBreakdown()?.data ?? 0 // 이전 스냅샷은 데이터만 보관
+    });
+
+    if (!snapshot) {
+      return undefined;
+    }
+
+    this.enforceHistoryBudget();
+
+    if (snapshot.diff && snapshot.previous) {
+      this.notifyHistoryListeners({
+        source,
+        fromVersion: snapshot.previous.version,
+        toVersion: snapshot.version,
+        fromLoadedAt: snapshot.previous.loadedAt,
+        toLoadedAt: snapshot.loadedAt,
+        summary: summarizeDiff(snapshot.diff),
+        ...snapshot.diff
+      });
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * 전체 소스의 이전 스냅샷 크기 합계가 예산을 넘으면 가장 오래된 스냅샷부터 제거
+   * 각 소스의 최신 스냅샷(현재 데이터)은 제거하지 않음
+   */
+  private enforceHistoryBudget(): void {
+    const maxBytes = (this.config?.options?.history?.maxMemoryMB ?? DEFAULT_HISTORY_MEMORY_MB) * 1024 * 1024;
+    let totalBytes = this.getHistoryMemoryUsage();
+
+    while (totalBytes > maxBytes) {
+      let oldest: { history: SourceHistory; snapshot: SourceSnapshot } | undefined;
+      for (const history of this.histories.values()) {
+        const snapshot = history.oldestEvictable();
+        if (snapshot && (!oldest || snapshot.loadedAt < oldest.snapshot.loadedAt)) {
+          oldest = { history, snapshot };
+        }
+      }
+
+      if (!oldest) break;
+
+      oldest.history.evictOldest();
+      totalBytes -= oldest.snapshot.memoryUsage;
+    }
+  }
+
+  /**
+   * 전체 소스의 이전 스냅샷 추정 크기 합계 (bytes)
+   */
+  public getHistoryMemoryUsage(): number {
+    let total = 0;
+    for (const history of this.histories.values()) {
+      total += history.getMemoryUsage();
+    }
+    return total;
+  }
+
+  /**
+   * 소스의 보관 중인 스냅샷 목록 (오래된 순, 소스가 없으면 null)
+   */
+  public getHistory(source: string): SnapshotInfo[] | null {
+    if (!this.caches.has(source)) {
+      return null;
+    }
+    return this.histories.get(source)?.list() ?? [];
+  }
+
+  /**
+   * 두 스냅샷 비교
+   * toVersion 미지정 시 최신 스냅샷, fromVersion 미지정 시 toVersion 기록 당시 계산한 직전 스냅샷 대비 차이 사용
+   */
+  public diffSource(source: string, fromVersion?: number, toVersion?: number): SourceDiff {
+    const cache = this.caches.get(source);
+    if (!cache) {
+      throw new CacheError(`소스 '${source}'를 찾을 수 없습니다`, 'SOURCE_NOT_FOUND', source);
+    }
+
+    const history = this.histories.get(source);
+    const to = toVersion !== undefined ? history?.get(toVersion) : history?.latest();
+    if (!to) {
+      throw new CacheError(
+        toVersion !== undefined
+          ? `버전 ${toVersion} 스냅샷이 없습니다 (보관 기간이 지났거나 존재하지 않음)`
+          : '보관 중인 스냅샷이 없습니다',
+        'SNAPSHOT_NOT_FOUND',
+        source
+      );
+    }
+
+    // 기록 당시 계산한 직전 스냅샷 대비 차이
+    if (fromVersion === undefined || fromVersion === to.previous?.version) {
+      if (!to.diff || !to.previous) {
+        throw new CacheError(`버전 ${to.version}은 첫 스냅샷이라 비교할 이전 버전이 없습니다`, 'SNAPSHOT_NOT_FOUND', source);
+      }
+
+      return {
+        source,
+        fromVersion: to.previous.version,
+        toVersion: to.version,
+        fromLoadedAt: to.previous.loadedAt,
+        toLoadedAt: to.loadedAt,
+        summary: summarizeDiff(to.diff),
+        ...to.diff
       };
     }
+
+    const from = history?.get(fromVersion);
+    if (!from) {
+      throw new CacheError(
+        `버전 ${fromVersion} 스냅샷이 없습니다 (보관 기간이 지났거나 존재하지 않음)`,
+        'SNAPSHOT_NOT_FOUND',
+        source
+      );
+    }
+
+    // 내려둔 소스는 최신 스냅샷에 데이터가 연결되도록 다시 올림
+    cache.ensureResident();
+    if (!from.data || !to.data) {
+      throw new CacheError(`버전 ${from.version}과 ${to.version}의 데이터를 비교할 수 없습니다`, 'SNAPSHOT_NOT_FOUND', source);
+    }
+
+    const diff = diffData(from.data, to.data);
+    return {
+      source,
+      fromVersion: from.version,
+      toVersion: to.version,
+      fromLoadedAt: from.loadedAt,
+      toLoadedAt: to.loadedAt,
+      summary: summarizeDiff(diff),
+      ...diff
+    };
+  }
+
+  /**
+   * 두 소스 비교 (환경별 내보내기 간 차이 확인용)
+   * 한쪽에만 있는 키는 하위 트리 전체를 하나의 항목으로, 양쪽 값이 다른 키는 가장 깊은 키 단위로 반환
+   */
+  public compareSources(sourceA: string, sourceB: string, options: CompareOptions = {}): SourceComparison {
+    const cacheA = this.getCache(sourceA);
+    if (!cacheA) {
+      throw new CacheError(`소스 '${sourceA}'를 찾을 수 없습니다`, 'SOURCE_NOT_FOUND', sourceA);
+    }
+
+    const cacheB = this.getCache(sourceB);
+    if (!cacheB) {
+      throw new CacheError(`소스 '${sourceB}'를 찾을 수 없습니다`, 'SOURCE_NOT_FOUND', sourceB);
+    }
+
+    const { prefix, normalize = 'none' } = options;
+    const diff = diffData(cacheA.getData(), cacheB.getData(), {
+      normalize: typeof normalize === 'function' ? normalize : getValueNormalizer(normalize)
+    });
+
+    // 접두사 범위의 키이거나, 접두사를 포함하는 한쪽에만 있는 상위 키
+    const inScope = (entry: DiffEntry) =>
+      !prefix || entry.key.startsWith(prefix) || prefix.startsWith(`${entry.key}.`);
+
+    const onlyInA = diff.removed.filter(inScope).map(entry => ({ key: entry.key, valueA: entry.oldValue }));
+    const onlyInB = diff.added.filter(inScope).map(entry => ({ key: entry.key, valueB: entry.newValue }));
+    const different = diff.changed
+      .filter(inScope)
+      .map(entry => ({ key: entry.key, valueA: entry.oldValue, valueB: entry.newValue }));
+
+    return {
+      sourceA,
+      sourceB,
+      prefix,
+      normalize: typeof normalize === 'function' ? 'custom' : normalize,
+      onlyInA,
+      onlyInB,
+      different,
+      summary: {
+        onlyInA: onlyInA.length,
+        onlyInB: onlyInB.length,
+        different: different.length
+      }
+    };
+  }
+
+  /**
+   * 스냅샷 차이 리스너 추가
+   */
+  public addHistoryListener(listener: HistoryListener): void {
+    this.historyListeners.push(listener);
+  }
+
+  /**
+   * 리스너들에게 스냅샷 차이 알림
+   */
+  private notifyHistoryListeners(diff: SourceDiff): void {
+    for (const listener of this.historyListeners) {
+      try {
+        listener(diff);
+      } catch (error) {
+        console.error('[CacheManager] 스냅샷 리스너 실행 중 오류:', error);
+      }
+    }
+  }
+
+  /**
+   * 소스 데이터 변경 리스너 추가
+   */
+  public addUpdateListener(listener: SourceUpdateListener): void {
+    this.updateListeners.push(listener);
+  }
+
+  /**
+   * 소스 데이터 변경 알림
+   */
+  private notifyUpdateListeners(source: string): void {
+    for (const listener of this.updateListeners) {
+      try {
+        listener(source);
+      } catch (error) {
+        console.error('[CacheManager] 변경 리스너 실행 중 오류:', error);
+      }
+    }
   }
 
   /**
@@ -338,6 +1278,13 @@ export class CacheManager {
     return this.defaultMaxDepth;
   }
 
+  /**
+   * 기본 파일 크기 제한 반환 (MB)
+   */
+  public getMaxFileSize(): number {
+    return this.config?.options?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE_MB;
+  }
+
   /**
    * 로드된 소스 목록 반환
    */
@@ -368,14 +1315,28 @@ export class CacheManager {
       totalKeys: sources.reduce((sum, s) => sum + s.keys, 0),
       totalSize: sources.reduce((sum, s) => sum + s.size, 0),
       totalHits: sources.reduce((sum, s) => sum + s.hits, 0),
+      avgLookupTime: this.calculateAverageLookupTime(sources),
       cacheHitRate: this.calculateHitRate(sources),
+      memoryUsage: this.getMemoryUsage(),
       uptime: process.uptime(),
       lastReload: loadedSources.length > 0
         ? Math.max(...loadedSources.map(s => s.loadedAt.getTime()))
-        : null
+        : null,
+      memory: this.getMemoryBudgetStats()
     };
   }
 
+  /**
+   * 소스별 평균 조회 지연 시간(ms)을 조회 횟수로 가중 평균
+   */
+  private calculateAverageLookupTime(sources: CacheStats[]): number {
+    const totalHits = sources.reduce((sum, s) => sum + s.hits, 0);
+    if (totalHits === 0) return 0;
+
+    const weighted = sources.reduce((sum, s) => sum + s.avgLookupTime * s.hits, 0);
+    return Math.round((weighted / totalHits) * 1000) / 1000;
+  }
+
   /**
    * 캐시 히트율 계산
    */
@@ -387,7 +1348,7 @@ export class CacheManager {
   }
 
   /**
-   * 메모리 사용량 계산
+   * 메모리 사용량 계산 (메모리에 올라와 있는 소스만)
    */
   public getMemoryUsage(): number {
     let totalUsage = 0;
@@ -453,8 +1414,21 @@ export class CacheManager {
       cache.clear();
     }
 
-    // 캐시 맵 초기화
+    // 예약된 디스크 스냅샷 저장 취소
+    for (const timer of this.diskSnapshotTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.diskSnapshotTimers.clear();
+
+    // 내린 소스의 임시 저장소 삭제
+    this.spillStore?.removeAll();
+    this.spillStore = undefined;
+    this.residencyEvents = [];
+    this.residencyCounts.clear();
+
+    // 캐시 맵 및 스냅샷 초기화
     this.caches.clear();
+    this.histories.clear();
     this.primarySource = undefined;
     this.config = undefined;
   }
@@ -0,0 +1,170 @@
+/**
+ * DiskSnapshotStore - 디스크 캐시 스냅샷 저장소
+ * 파싱된 데이터 트리, 키/값/테이블 색인, 통계를 v8 직렬화 형식으로 저장하여 재시작 시 파싱과 색인 생성을 생략
+ * 원본 파일의 크기/수정 시각/해시로 스냅샷이 최신인지 판별
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream, existsSync, readFileSync, rmSync } from 'fs';
+import { mkdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import { deserialize, serialize } from 'v8';
+import { CacheData, MemoryBreakdown, SourceFileInfo } from '../types.js';
+import { ValueIndexState } from './ValueIndex.js';
+import { TableIndexState } from './TableIndex.js';
+import { writeFileAtomic } from '../utils/json-writer.js';
+
+// 스냅샷 파일 형식 버전 (구조가 바뀌면 증가시켜 이전 스냅샷을 무시)
+const DISK_SNAPSHOT_FORMAT = 1;
+
+// 원본 파일 상태 (스냅샷 검증용)
+export interface FileFingerprint {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  hash: string; // sha1
+}
+
+export interface DiskSnapshot {
+  format: number;
+  source: string;
+  path: string; // 설정의 소스 경로
+  settings: string; // 파싱 결과에 영향을 주는 설정 (바뀌면 무효)
+  savedAt: string;
+  fingerprints: FileFingerprint[];
+  data: CacheData;
+  keyList: { key: string; path: string[] }[];
+  valueIndex: ValueIndexState | null; // indexValues: false면 null
+  tableIndex: TableIndexState;
+  files: SourceFileInfo[];
+  multiFile: boolean;
+  size: number;
+  keys: number;
+  memory?: MemoryBreakdown; // 없으면 복원 시 다시 계산
+}
+
+/**
+ * 파일 내용의 sha1 해시 (큰 파일도 메모리에 한 번에 올리지 않도록 스트림으로 계산)
+ */
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash('sha1');
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * 파일 목록의 현재 상태 (파싱 직전에 기록)
+ */
+export async function fingerprintFiles(paths: string[]): Promise<FileFingerprint[]> {
+  const fingerprints: FileFingerprint[] = [];
+  for (const path of paths) {
+    const { size, mtimeMs } = await stat(path);
+    fingerprints.push({ path, size, mtimeMs, hash: await hashFile(path) });
+  }
+  return fingerprints;
+}
+
+/**
+ * 기록된 상태와 현재 파일 비교
+ * 크기가 다르면 변경, 크기와 수정 시각이 같으면 그대로로 보고, 수정 시각만 다르면(복사/touch) 해시로 확인
+ */
+export async function isUnchanged(fingerprints: FileFingerprint[], paths: string[]): Promise<boolean> {
+  if (fingerprints.length !== paths.length) {
+    return false;
+  }
+
+  for (let i = 0; i < paths.length; i++) {
+    const saved = fingerprints[i];
+    if (saved.path !== paths[i] || !existsSync(paths[i])) {
+      return false;
+    }
+
+    const { size, mtimeMs } = await stat(paths[i]);
+    if (size !== saved.size) {
+      return false;
+    }
+    if (mtimeMs !== saved.mtimeMs && await hashFile(paths[i]) !== saved.hash) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export class DiskSnapshotStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * 저장 디렉토리
+   */
+  public getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * 소스의 스냅샷 파일 경로 (파일명에 쓸 수 없는 문자는 '_'로 치환)
+   */
+  public getFilePath(source: string): string {
+    return join(this.dir, `${source.replace(/[^a-zA-Z0-9._-]/g, '_')}.snapshot`);
+  }
+
+  /**
+   * 스냅샷 읽기 (없거나 형식이 다르면 null, 손상된 파일은 예외)
+   */
+  public async read(source: string): Promise<DiskSnapshot | null> {
+    const filePath = this.getFilePath(source);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    return this.validate(deserialize(await readFile(filePath)) as DiskSnapshot, source);
+  }
+
+  /**
+   * 스냅샷 동기 읽기 (메모리에서 내린 소스를 조회 도중 다시 올릴 때 사용)
+   */
+  public readSync(source: string): DiskSnapshot | null {
+    const filePath = this.getFilePath(source);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    return this.validate(deserialize(readFileSync(filePath)) as DiskSnapshot, source);
+  }
+
+  private validate(snapshot: DiskSnapshot, source: string): DiskSnapshot | null {
+    if (snapshot?.format !== DISK_SNAPSHOT_FORMAT || snapshot.source !== source) {
+      return null;
+    }
+    return snapshot;
+  }
+
+  /**
+   * 스냅샷 저장 (임시 파일에 쓴 뒤 교체)
+   * @returns 저장된 파일 크기 (바이트)
+   */
+  public async write(snapshot: Omit<DiskSnapshot, 'format' | 'savedAt'>): Promise<number> {
+    await mkdir(this.dir, { recursive: true });
+
+    const content = serialize({
+      ...snapshot,
+      format: DISK_SNAPSHOT_FORMAT,
+      savedAt: new Date().toISOString()
+    });
+    const { size } = await writeFileAtomic(this.getFilePath(snapshot.source), content);
+    return size;
+  }
+
+  /**
+   * 저장 디렉토리 삭제 (프로세스 전용 임시 저장소 정리용)
+   */
+  public removeAll(): void {
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+}
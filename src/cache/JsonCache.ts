@@ -3,20 +3,174 @@
  * JSON 파일 로드 및 중첩 키 접근 기능 제공
  */
 
-import { readFileSync, existsSync, statSync } from 'fs';
-import { join } from 'path';
-import { CacheData, CacheStats, CacheError } from '../types.js';
+import { createHash } from 'crypto';
+import { existsSync, statSync } from 'fs';
+import { basename, extname, join, relative, sep } from 'path';
+import {
+  CacheData,
+  CacheStats,
+  CacheError,
+  JsonCacheOptions,
+  MemoryBreakdown,
+  RemoteSourceOptions,
+  SourceFileInfo,
+  SourceLoadError,
+  SourceFormat
+} from '../types.js';
+import { ValueIndex, ValueIndexHit, ValueSearchOptions } from './ValueIndex.js';
+import { TableIndex, TableIndexHit, TableLookupOptions } from './TableIndex.js';
+import { detectFormat, getLoader, parseSourceFile } from './loaders/index.js';
+import { resolveSourceFiles } from './loaders/source-files.js';
+import { fetchRemoteSource, getRemoteFileName, RemoteFetchResult, RemoteValidators } from './loaders/remote.js';
+import { scoreKeyMatch } from '../utils/similarity.js';
+import { compileKeyPattern, toMatchTarget } from '../utils/key-pattern.js';
+import { readJsonFormatting, serializeJson, writeFileAtomic } from '../utils/json-writer.js';
+import { nextSourceRevision } from '../utils/revision.js';
+import {
+  ARRAY_HEADER_SIZE,
+  DataSizeEstimator,
+  estimateStringSize,
+  MAP_ENTRY_SIZE,
+  OBJECT_HEADER_SIZE,
+  POINTER_SIZE
+} from '../utils/memory-estimate.js';
+import { DiskSnapshot, DiskSnapshotStore, FileFingerprint, fingerprintFiles } from './DiskSnapshotStore.js';
+
+// 기본 파일 크기 제한 (MB)
+export const DEFAULT_MAX_FILE_SIZE_MB = 50;
+
+// 색인 생성 중 이벤트 루프에 제어를 양보하는 간격 (키 항목 수)
+const STAGE_YIELD_INTERVAL = 1000;
+
+// 파싱된 소스 파일
+interface LoadedFile {
+  path: string;
+  format: SourceFormat;
+  size: number;
+  data: CacheData;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 단계별 작업을 끝까지 동기로 실행
+ */
+function runSteps<T>(steps: Generator<void, T>): T {
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/**
+ * 단계별 작업을 실행하며 단계 사이마다 이벤트 루프에 제어를 양보 (큰 소스의 색인 생성 중에도 stdio/웹 요청이 멈추지 않도록)
+ */
+async function runStepsYielding<T>(steps: Generator<void, T>): Promise<T> {
+  let step = steps.next();
+  while (!step.done) {
+    await new Promise<void>(resolve => setImmediate(resolve));
+    step = steps.next();
+  }
+  return step.value;
+}
+
+/**
+ * 일반 객체끼리는 재귀적으로 병합하고, 그 외 값은 source가 우선 (target 반환)
+ */
+function deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    if (isPlainObject(existing) && isPlainObject(value)) {
+      deepMerge(existing, value);
+    } else {
+      target[key] = isPlainObject(value) ? deepMerge({}, value) : value;
+    }
+  }
+  return target;
+}
+
+// 키 인덱스 항목 (점 표기 키 + 실제 속성 경로)
+interface IndexedKey {
+  key: string;
+  path: string[];
+}
+
+// 로드 중 준비한 데이터와 색인 (파싱/색인이 모두 성공한 뒤에만 교체)
+interface StagedLoad {
+  data: CacheData;
+  size: number;
+  files: SourceFileInfo[];
+  multiFile: boolean;
+  keyIndex: Map<string, IndexedKey>;
+  keyList: IndexedKey[];
+  valueIndex: ValueIndex | null;
+  tableIndex: TableIndex;
+  keys: number;
+  revision: string;
+  memory: MemoryBreakdown;
+  fingerprints?: FileFingerprint[];
+  remoteValidators?: RemoteValidators;
+}
+
+// 메모리 예산에 따른 상주 상태 변경 알림 (restore-failed: 임시 파일을 읽지 못해 원본에서 다시 로드해야 함)
+export type ResidencyListener = (event: 'evicted' | 'restored' | 'restore-failed') => void;
 
 export class JsonCache {
   private name: string;
   private path: string;
+  private options: JsonCacheOptions;
   private data: CacheData = {};
   private stats: CacheStats;
   private loadedAt: Date | null = null;
+  // 데이터가 교체될 때마다 바뀌는 리비전 (로드 전에는 null)
+  private revision: string | null = null;
+  // 소문자 키 → 실제 키 경로 인덱스 (load 시 1회 생성)
+  private keyIndex: Map<string, IndexedKey> = new Map();
+  // 전체 키 목록 (문서 순서)
+  private keyList: IndexedKey[] = [];
+  // 문자열 값 역색인 (indexValues: false면 생성하지 않음)
+  private valueIndex: ValueIndex | null = null;
+  // 테이블 → 쿼리 역색인
+  private tableIndex: TableIndex = new TableIndex();
+  // 디렉토리/글롭 소스 구성 파일
+  private files: SourceFileInfo[] = [];
+  private multiFile: boolean = false;
+  // 원격 소스 조건부 요청 검증자 (ETag/Last-Modified)
+  private remoteValidators: RemoteValidators = {};
+  // 마지막 로드 실패 정보 (성공하면 null)
+  private loadError: SourceLoadError | null = null;
+  // 마지막으로 직접 저장한 파일 상태 (FileWatcher가 자체 변경을 외부 변경과 구분)
+  private lastWrite: { mtimeMs: number; size: number } | null = null;
+  // 현재 데이터를 읽은 시점의 원본 파일 상태 (diskSnapshot 옵션일 때만 기록)
+  private fingerprints: FileFingerprint[] = [];
+  // 디스크 스냅샷에서 복원한 경우 저장 시각과 원본 변경 여부 (원본을 다시 로드하면 null)
+  private restoredSnapshot: { savedAt: string; stale: boolean } | null = null;
+  // 메모리 예산 때문에 데이터와 색인을 내려둔 임시 저장소 (메모리에 있으면 null)
+  private evictedTo: DiskSnapshotStore | null = null;
+  // 내려둔 동안 통계에 쓰는 색인 크기
+  private evictedIndexStats: {
+    valueIndex: { leaves: number; tokens: number } | null;
+    tableIndex: { tables: number; queries: number };
+  } | null = null;
+  // 임시 저장소에 마지막으로 저장한 리비전 (같으면 다시 내릴 때 저장 생략)
+  private spilledRevision: string | null = null;
+  // 임시 저장소에서 다시 읽지 못해 원본 로드를 기다리는 중 (데이터가 교체되면 false)
+  private restoreFailed: boolean = false;
+  private residencyListener?: ResidencyListener;
+  private lastAccessedAt: Date | null = null;
+  // 데이터와 색인의 메모리 추정치 (데이터가 교체될 때 함께 계산, 내려둔 동안에도 유지)
+  private memory: MemoryBreakdown | null = null;
+  private loadQueue: Promise<unknown> = Promise.resolve();
+  private lookupCount: number = 0;
+  private totalLookupTime: number = 0;
 
-  constructor(name: string, path: string) {
+  constructor(name: string, path: string, options: JsonCacheOptions = {}) {
     this.name = name;
     this.path = path;
+    this.options = options;
 
     this.stats = {
       name,
@@ -24,141 +178,703 @@ export class JsonCache {
       keys: 0,
       size: 0,
       loadedAt: new Date(),
-      hits: 0
+      hits: 0,
+      indexedKeys: 0,
+      avgLookupTime: 0
     };
   }
 
   /**
    * JSON 파일 로드
+   * 디렉토리/글롭 소스는 일치한 파일을 각각 형식별 로더로 파싱한 뒤 하나의 데이터로 병합
+   * 새 데이터와 색인을 모두 준비한 뒤 한 번에 교체하므로, 로드 중에도 조회는 항상 이전 또는 새 데이터 전체를 봄
+   * 실패하면 이전 데이터를 유지하고 stale 상태(오류 정보 포함)로 표시한 뒤 예외 발생
+   * @returns 데이터 변경 여부 (원격 소스가 304 Not Modified를 반환하면 false)
    */
-  public async load(): Promise<void> {
+  public async load(): Promise<boolean> {
+    // 동시에 요청된 로드는 순서대로 실행 (늦게 끝난 이전 로드가 최신 데이터를 덮어쓰지 않도록)
+    const run = this.loadQueue.then(() => this.loadAndSwap());
+    this.loadQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 스테이징 로드 후 교체 (원격 소스가 304면 교체하지 않음)
+   */
+  private async loadAndSwap(): Promise<boolean> {
     try {
-      // 파일 존재 확인
-      if (!existsSync(this.path)) {
-        throw new CacheError(
-          `파일을 찾을 수 없습니다: ${this.path}`,
-          'FILE_NOT_FOUND',
-          this.name
-        );
+      const staged = this.options.remote
+        ? await this.stageRemote(this.options.remote)
+        : await this.stageFiles();
+
+      if (staged) {
+        this.commit(staged);
+        this.restoredSnapshot = null;
       }
+      this.loadError = null;
 
-      // 파일 크기 확인
-      const fileStat = statSync(this.path);
-      const fileSizeInBytes = fileStat.size;
+      return staged !== null;
 
-      // 파일 크기 제한 (50MB)
-      const maxSize = 50 * 1024 * 1024; // 50MB
-      if (fileSizeInBytes > maxSize) {
-        throw new CacheError(
-          `파일 크기가 너무 큽니다: ${Math.round(fileSizeInBytes / 1024 / 1024)}MB (최대 50MB)`,
-          'FILE_TOO_LARGE',
+    } catch (error) {
+      // 이미 CacheError인 경우 그대로 전달, 기타 에러는 CacheError로 래핑
+      const cacheError = error instanceof CacheError
+        ? error
+        : new CacheError(
+          `파일 로드 실패: ${error instanceof Error ? error.message : String(error)}`,
+          'LOAD_ERROR',
           this.name
         );
-      }
 
-      // 파일 읽기
-      const fileContent = readFileSync(this.path, 'utf-8');
-
-      // JSON 파싱
-      let parsedData: any;
-      try {
-        parsedData = JSON.parse(fileContent);
-      } catch (parseError) {
-        throw new CacheError(
-          `JSON 파싱 실패: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-          'JSON_PARSE_ERROR',
-          this.name
-        );
+      this.loadError = {
+        message: cacheError.message,
+        code: cacheError.code,
+        failedAt: new Date()
+      };
+
+      throw cacheError;
+    }
+  }
+
+  /**
+   * 데이터 변경 후 파일에 저장 (writable 소스만)
+   * 복사본에 mutate를 적용하고 색인까지 준비한 뒤 메모리를 먼저 교체하고, 임시 파일 + rename으로 저장
+   * 저장에 실패하면 이전 데이터로 되돌리고 예외 발생 (mutate에서 발생한 예외는 아무것도 변경하지 않고 그대로 전달)
+   * 로드와 같은 큐에서 순서대로 실행되므로 리로드 도중의 변경이 유실되지 않음
+   */
+  public async update(mutate: (draft: CacheData) => void): Promise<void> {
+    const run = this.loadQueue.then(() => this.updateAndWrite(mutate));
+    this.loadQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 디스크 스냅샷의 데이터와 색인으로 교체 (원본 파싱과 색인 생성 생략)
+   * stale이면 원본이 바뀐 스냅샷이므로 다시 로드할 때까지 쓰기를 거부
+   */
+  public async restore(snapshot: DiskSnapshot, stale: boolean): Promise<void> {
+    const run = this.loadQueue.then(() => {
+      this.commit(this.stageSnapshot(snapshot));
+      this.restoredSnapshot = { savedAt: snapshot.savedAt, stale };
+      this.loadError = null;
+    });
+    this.loadQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 데이터와 값/테이블 색인을 임시 저장소로 내리고 키 인덱스와 통계/리비전/파일 정보만 유지 (메모리 예산 적용용)
+   * 키 인덱스가 남아 있으므로 없는 키 조회나 키 목록/자동완성은 다시 올리지 않고 응답
+   * 로드/쓰기와 같은 큐에서 실행되며, 저장하는 동안 조회가 있었으면 내리지 않음
+   * @returns 내렸는지 여부
+   */
+  public async evict(store: DiskSnapshotStore): Promise<boolean> {
+    const run = this.loadQueue.then(async () => {
+      if (!this.isLoaded() || !this.isResident()) {
+        return false;
       }
 
-      // 데이터가 객체인지 확인
-      if (typeof parsedData !== 'object' || parsedData === null) {
-        throw new CacheError(
-          'JSON 파일은 객체를 포함해야 합니다',
-          'INVALID_JSON_FORMAT',
-          this.name
-        );
+      const accessedAt = this.lastAccessedAt;
+      if (this.spilledRevision !== this.revision) {
+        await store.write(this.exportState());
+        this.spilledRevision = this.revision;
       }
+      if (this.lastAccessedAt !== accessedAt) {
+        return false;
+      }
+
+      this.evictedIndexStats = {
+        valueIndex: this.getValueIndexStats(),
+        tableIndex: this.getTableIndexStats()
+      };
+      this.data = {};
+      this.valueIndex = null;
+      this.tableIndex = new TableIndex();
+      this.evictedTo = store;
+      this.residencyListener?.('evicted');
+      return true;
+    });
+    this.loadQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 내려둔 소스면 임시 저장소에서 데이터와 색인을 다시 올림 (값이 필요한 조회 메서드가 먼저 호출, 조회 시각 기록)
+   * 조회가 동기이므로 동기로 읽으며, 리비전과 로드 시각은 내리기 전 그대로 유지
+   * 읽지 못하면 내린 상태를 유지한 채 원본에서 다시 로드하도록 알리고, 다시 로드될 때까지 RESTORE_FAILED 예외 발생
+   */
+  public ensureResident(): void {
+    this.lastAccessedAt = new Date();
+    const store = this.evictedTo;
+    if (!store) {
+      return;
+    }
+
+    const message = `메모리에서 내린 데이터를 다시 읽지 못했습니다: ${store.getFilePath(this.name)}`;
+    if (this.restoreFailed) {
+      throw new CacheError(message, 'RESTORE_FAILED', this.name);
+    }
+
+    let snapshot: DiskSnapshot | null;
+    try {
+      snapshot = store.readSync(this.name);
+    } catch {
+      snapshot = null;
+    }
+
+    if (!snapshot) {
+      // 빈 데이터를 제공하지 않도록 내린 상태를 유지 (원격 소스는 304 없이 전체를 다시 받도록 검증자 제거)
+      this.restoreFailed = true;
+      this.spilledRevision = null;
+      this.remoteValidators = {};
+      this.loadError = {
+        message,
+        code: 'RESTORE_FAILED',
+        failedAt: new Date()
+      };
+      this.residencyListener?.('restore-failed');
+      throw new CacheError(message, 'RESTORE_FAILED', this.name);
+    }
+
+    const { loadedAt, revision } = this;
+    this.commit({ ...this.stageSnapshot(snapshot), revision: revision as string });
+    this.loadedAt = loadedAt;
+    this.stats.loadedAt = loadedAt as Date;
+    this.residencyListener?.('restored');
+  }
+
+  /**
+   * 데이터와 색인이 메모리에 있는지 확인
+   */
+  public isResident(): boolean {
+    return this.evictedTo === null;
+  }
 
-      // 데이터 설정
-      this.data = parsedData;
-      this.loadedAt = new Date();
+  /**
+   * 내려둔 데이터를 다시 읽지 못해 원본에서 다시 로드해야 하는지 확인
+   */
+  public isRestoreFailed(): boolean {
+    return this.restoreFailed;
+  }
 
-      // 통계 정보 업데이트
-      this.stats.keys = this.countKeys(this.data);
-      this.stats.size = fileSizeInBytes;
-      this.stats.loadedAt = this.loadedAt;
+  /**
+   * 마지막 조회 시각 (메모리 예산 초과 시 오래된 소스부터 내림)
+   */
+  public getLastAccessedAt(): Date | null {
+    return this.lastAccessedAt;
+  }
 
+  /**
+   * 상주 상태 변경 리스너 설정
+   */
+  public setResidencyListener(listener: ResidencyListener): void {
+    this.residencyListener = listener;
+  }
+
+  private async updateAndWrite(mutate: (draft: CacheData) => void): Promise<void> {
+    if (!this.isWritable()) {
+      throw new CacheError(`소스 '${this.name}'는 쓰기가 허용되지 않습니다 (writable: true 필요)`, 'SOURCE_READ_ONLY', this.name);
+    }
+
+    if (!this.isLoaded()) {
+      throw new CacheError(`소스 '${this.name}'가 로드되지 않았습니다`, 'CACHE_NOT_LOADED', this.name);
+    }
+    this.ensureResident();
+
+    // 원본이 바뀐 디스크 스냅샷 데이터를 기준으로 저장하면 원본의 변경을 덮어쓰게 됨
+    if (this.restoredSnapshot?.stale) {
+      throw new CacheError(`소스 '${this.name}'는 원본 파일을 다시 로드하는 중입니다. 잠시 후 다시 시도하세요`, 'SOURCE_REFRESHING', this.name);
+    }
+
+    // 스냅샷이 이전 데이터를 참조하므로 현재 데이터는 변경하지 않고 복사본에 적용
+    const draft = structuredClone(this.data);
+    mutate(draft);
+
+    const content = serializeJson(draft, await readJsonFormatting(this.path));
+    const size = Buffer.byteLength(content, 'utf-8');
+    this.checkSize(size);
+
+    const previous = this.captureState();
+    this.commit(await runStepsYielding(this.stage(draft, size, [], false)));
+
+    try {
+      this.lastWrite = await writeFileAtomic(this.path, content);
+      if (this.options.diskSnapshot) {
+        this.fingerprints = [{
+          path: this.path,
+          ...this.lastWrite,
+          hash: createHash('sha1').update(content).digest('hex')
+        }];
+      }
     } catch (error) {
-      // 이미 CacheError인 경우 그대로 전달
-      if (error instanceof CacheError) {
-        throw error;
+      this.commit(previous);
+      throw new CacheError(
+        `파일 저장 실패: ${this.path}: ${error instanceof Error ? error.message : String(error)}`,
+        'WRITE_FAILED',
+        this.name
+      );
+    }
+  }
+
+  /**
+   * 현재 데이터와 색인 (저장 실패 시 되돌리기용)
+   */
+  private captureState(): StagedLoad {
+    return {
+      data: this.data,
+      size: this.stats.size,
+      files: this.files,
+      multiFile: this.multiFile,
+      keyIndex: this.keyIndex,
+      keyList: this.keyList,
+      valueIndex: this.valueIndex,
+      tableIndex: this.tableIndex,
+      keys: this.stats.keys,
+      revision: this.revision as string,
+      memory: this.memory as MemoryBreakdown,
+      fingerprints: this.fingerprints
+    };
+  }
+
+  /**
+   * 쓰기 가능한 소스인지 확인 (원격/디렉토리/글롭 소스는 불가)
+   */
+  public isWritable(): boolean {
+    return this.options.writable === true && !this.options.remote && !this.multiFile;
+  }
+
+  /**
+   * 파일의 현재 상태가 마지막으로 직접 저장한 상태와 같은지 확인 (FileWatcher용)
+   */
+  public isOwnWrite(): boolean {
+    if (!this.lastWrite || !existsSync(this.path)) {
+      return false;
+    }
+
+    const { mtimeMs, size } = statSync(this.path);
+    return mtimeMs === this.lastWrite.mtimeMs && size === this.lastWrite.size;
+  }
+
+  /**
+   * 점 표기 키를 실제 속성 경로로 변환 (쓰기용)
+   * 기존 키는 조회와 같은 규칙(대소문자 무시, 섹션 생략)으로 찾고, 새 키는 가장 긴 기존 상위 키 아래에 추가
+   */
+  public resolveKeyPath(key: string): string[] {
+    const existing = this.resolveIndexedKey(key);
+    if (existing) {
+      return existing.path;
+    }
+
+    const parts = key.split('.');
+    for (let i = parts.length - 1; i > 0; i--) {
+      const parent = this.resolveIndexedKey(parts.slice(0, i).join('.'));
+      if (parent) {
+        return [...parent.path, ...parts.slice(i)];
       }
+    }
+
+    return parts;
+  }
+
+  /**
+   * 파일/디렉토리/글롭 소스를 파싱하여 스테이징 데이터 생성
+   */
+  private async stageFiles(): Promise<StagedLoad> {
+    const resolved = resolveSourceFiles(this.path, this.options.format);
 
-      // 기타 에러는 CacheError로 래핑
+    // 파일 존재 확인 (디렉토리/글롭 소스는 일치하는 파일이 없으면 빈 소스로 로드)
+    if (!resolved.multiFile && !existsSync(this.path)) {
       throw new CacheError(
-        `파일 로드 실패: ${error instanceof Error ? error.message : String(error)}`,
-        'LOAD_ERROR',
+        `파일을 찾을 수 없습니다: ${this.path}`,
+        'FILE_NOT_FOUND',
         this.name
       );
     }
+
+    // 파일 크기 확인 (디렉토리/글롭 소스는 포함된 파일 합계)
+    const fileSizes = resolved.files.map(file => statSync(file).size);
+    const fileSizeInBytes = fileSizes.reduce((total, size) => total + size, 0);
+    this.checkSize(fileSizeInBytes);
+
+    // 디스크 스냅샷 검증용 파일 상태 (파싱 전에 기록해야 파싱 중 바뀐 파일도 다음 시작 시 변경으로 판별됨)
+    const fingerprints = this.options.diskSnapshot ? await fingerprintFiles(resolved.files) : undefined;
+
+    // 파일별로 형식 판별 후 파싱 (JSON 스트리밍 모드는 청크 단위로 점진적으로 파싱)
+    const loaded: LoadedFile[] = [];
+    for (let i = 0; i < resolved.files.length; i++) {
+      const file = resolved.files[i];
+      const format = this.options.format ?? detectFormat(file);
+      const data = await this.parseData(format, resolved.multiFile ? `${basename(file)}: ` : '', () =>
+        parseSourceFile(format, file, {
+          streaming: this.options.streaming,
+          idField: this.options.idField
+        })
+      );
+      loaded.push({ path: file, format, size: fileSizes[i], data });
+    }
+
+    if (resolved.multiFile) {
+      const { data, files } = this.combineFiles(loaded, resolved.base);
+      return { ...await runStepsYielding(this.stage(data, fileSizeInBytes, files, true)), fingerprints };
+    }
+
+    return { ...await runStepsYielding(this.stage(loaded[0].data, fileSizeInBytes, [], false)), fingerprints };
   }
 
   /**
-   * 키로 값 검색 (대소문자 무시, 동적 접두사 자동 처리)
-   * b17., b30., m17., m30., m47. 등 최상위 섹션 자동 처리
+   * 원격 소스를 조회하여 스테이징 데이터 생성
+   * 이미 로드된 경우 이전 응답의 ETag/Last-Modified로 조건부 요청하며, 304면 null (기존 데이터 유지)
    */
-  public get(key: string): any | undefined {
+  private async stageRemote(remote: RemoteSourceOptions): Promise<StagedLoad | null> {
+    let response: RemoteFetchResult;
     try {
-      this.stats.hits++;
+      response = await fetchRemoteSource(remote, this.isLoaded() ? this.remoteValidators : {});
+    } catch (error) {
+      throw new CacheError(
+        `원격 소스 요청 실패: ${remote.url}: ${error instanceof Error ? error.message : String(error)}`,
+        'REMOTE_FETCH_ERROR',
+        this.name
+      );
+    }
 
-      // 모든 키 목록 가져오기
-      const allKeys = this.keys();
+    if (response.notModified) {
+      return null;
+    }
 
-      // 1. 정확히 일치하는 키 찾기 (대소문자 무시)
-      let matchedKey = allKeys.find(k => k.toLowerCase() === key.toLowerCase());
-      if (matchedKey) {
-        return this.resolveNestedKey(matchedKey, this.data);
-      }
+    const size = Buffer.byteLength(response.content, 'utf-8');
+    this.checkSize(size);
 
-      // 2. 최상위 섹션 키 추출 (예: data["b17"], data["m30"] 등)
-      const topLevelKeys = Object.keys(this.data);
+    const format = this.getFormat() as SourceFormat;
+    const data = await this.parseData(format, '', () =>
+      getLoader(format).parse(response.content, {
+        fileName: getRemoteFileName(remote.url),
+        idField: this.options.idField
+      })
+    );
 
-      // 2a. 최상위 섹션 중 하나를 접두사로 추가해서 찾기
-      // 예: "M301001020.cancelCrynInf" → "m30.M301001020.cancelCrynInf"
-      for (const topKey of topLevelKeys) {
-        if (!key.toLowerCase().startsWith(topKey.toLowerCase() + '.')) {
-          const keyWithPrefix = topKey + '.' + key;
-          matchedKey = allKeys.find(k => k.toLowerCase() === keyWithPrefix.toLowerCase());
-          if (matchedKey) {
-            return this.resolveNestedKey(matchedKey, this.data);
-          }
+    return { ...await runStepsYielding(this.stage(data, size, [], false)), remoteValidators: response.validators };
+  }
+
+  /**
+   * 파일 크기 제한 확인 (설정값, 기본 50MB)
+   */
+  private checkSize(sizeInBytes: number): void {
+    const maxSizeMB = this.getMaxFileSize();
+    const maxSize = maxSizeMB * 1024 * 1024;
+    if (sizeInBytes > maxSize) {
+      throw new CacheError(
+        `파일 크기가 너무 큽니다: ${Math.round(sizeInBytes / 1024 / 1024)}MB (최대 ${maxSizeMB}MB)`,
+        'FILE_TOO_LARGE',
+        this.name
+      );
+    }
+  }
+
+  /**
+   * 형식별 로더로 파싱하고 결과가 객체인지 확인
+   * 디렉토리/글롭 소스는 prefix로 오류 메시지에 파일명을 포함
+   */
+  private async parseData(
+    format: SourceFormat,
+    prefix: string,
+    parse: () => unknown
+  ): Promise<CacheData> {
+    let parsedData: unknown;
+    try {
+      parsedData = await parse();
+    } catch (parseError) {
+      throw new CacheError(
+        `${format.toUpperCase()} 파싱 실패: ${prefix}${parseError instanceof Error ? parseError.message : String(parseError)}`,
+        'JSON_PARSE_ERROR',
+        this.name
+      );
+    }
+
+    // 데이터가 객체인지 확인
+    if (typeof parsedData !== 'object' || parsedData === null) {
+      throw new CacheError(
+        `${prefix}${format.toUpperCase()} 파일은 객체를 포함해야 합니다`,
+        'INVALID_JSON_FORMAT',
+        this.name
+      );
+    }
+
+    return parsedData as CacheData;
+  }
+
+  /**
+   * 파싱된 데이터의 키 인덱스/값 색인/테이블 색인/메모리 추정치를 미리 생성 (현재 캐시는 변경하지 않음)
+   * 키 항목 STAGE_YIELD_INTERVAL개마다 한 단계씩 끊어 실행 (로드는 runStepsYielding, 동기로 다시 올릴 때는 runSteps)
+   */
+  private *stage(
+    data: CacheData,
+    size: number,
+    files: SourceFileInfo[],
+    multiFile: boolean,
+    precomputed?: {
+      keyList: IndexedKey[];
+      keys: number;
+      valueIndex: ValueIndex | null;
+      tableIndex: TableIndex;
+      memory?: MemoryBreakdown;
+    }
+  ): Generator<void, StagedLoad> {
+    // 디스크 스냅샷으로 스테이징하면 저장된 색인/추정치는 그대로 사용하고 없는 것만 새로 만듦
+    const indexValues = this.options.indexValues !== false;
+    const buildValues = indexValues && !precomputed?.valueIndex;
+    const valueIndex = indexValues ? precomputed?.valueIndex ?? new ValueIndex() : null;
+    const tableIndex = precomputed?.tableIndex ?? new TableIndex();
+    const dataSize = precomputed?.memory ? null : new DataSizeEstimator();
+    const entries: IndexedKey[] = precomputed?.keyList ?? [];
+
+    // 키 목록을 모으면서 같은 순회에서 값/테이블 색인과 데이터 크기도 계산
+    if (!precomputed || buildValues || dataSize) {
+      let count = 0;
+      for (const { entry, value } of this.walkKeys(data, [])) {
+        if (!precomputed) {
+          entries.push(entry);
+          tableIndex.addEntry(entry.key, value);
+        }
+        if (buildValues) {
+          valueIndex?.addEntry(entry.key, entry.path, value);
         }
+        dataSize?.add(entry.path, value);
+        if (++count % STAGE_YIELD_INTERVAL === 0) yield;
       }
+      if (buildValues) {
+        valueIndex?.complete();
+      }
+    }
 
-      // 2b. 키가 이미 최상위 섹션을 포함하고 있다면 제거해서 시도
-      for (const topKey of topLevelKeys) {
-        const prefix = topKey.toLowerCase() + '.';
-        if (key.toLowerCase().startsWith(prefix)) {
-          const keyWithoutPrefix = key.substring(topKey.length + 1);
-          matchedKey = allKeys.find(k => k.toLowerCase() === keyWithoutPrefix.toLowerCase());
-          if (matchedKey) {
-            return this.resolveNestedKey(matchedKey, this.data);
-          }
-          // 또는 원래 key로 바로 시도
-          matchedKey = allKeys.find(k => k.toLowerCase() === key.toLowerCase());
-          if (matchedKey) {
-            return this.resolveNestedKey(matchedKey, this.data);
-          }
-        }
+    const keyIndex = yield* this.createKeyIndex(entries);
+
+    return {
+      data,
+      size,
+      files,
+      multiFile,
+      keyIndex,
+      keyList: entries,
+      valueIndex,
+      tableIndex,
+      keys: precomputed?.keys ?? entries.length,
+      revision: nextSourceRevision(),
+      memory: precomputed?.memory ?? (yield* this.measureMemory(dataSize as DataSizeEstimator, entries, keyIndex, valueIndex, tableIndex))
+    };
+  }
+
+  /**
+   * 데이터 트리와 색인의 메모리 사용량 추정 (데이터를 교체할 때 한 번 계산)
+   * 키 목록의 경로 조각과 색인의 값 문자열은 데이터와 공유하므로 제외
+   */
+  private *measureMemory(
+    dataSize: DataSizeEstimator,
+    keyList: IndexedKey[],
+    keyIndex: Map<string, IndexedKey>,
+    valueIndex: ValueIndex | null,
+    tableIndex: TableIndex
+  ): Generator<void, MemoryBreakdown> {
+    let keys = ARRAY_HEADER_SIZE + keyList.length * POINTER_SIZE;
+    let count = 0;
+    for (const entry of keyList) {
+      keys += OBJECT_HEADER_SIZE + 2 * POINTER_SIZE
+        + estimateStringSize(entry.key)
+        + ARRAY_HEADER_SIZE + entry.path.length * POINTER_SIZE;
+      if (++count % STAGE_YIELD_INTERVAL === 0) yield;
+    }
+    for (const alias of keyIndex.keys()) {
+      keys += MAP_ENTRY_SIZE + estimateStringSize(alias);
+      if (++count % STAGE_YIELD_INTERVAL === 0) yield;
+    }
+
+    const indexes = {
+      keys,
+      values: valueIndex?.estimateMemoryUsage() ?? 0,
+      tables: tableIndex.estimateMemoryUsage()
+    };
+    const { data: dataBytes, sections, otherSections } = dataSize.getResult();
+
+    return {
+      total: dataBytes + indexes.keys + indexes.values + indexes.tables,
+      data: dataBytes,
+      indexes,
+      sections,
+      otherSections
+    };
+  }
+
+  /**
+   * 디스크 스냅샷에 저장된 색인으로 스테이징 (색인을 다시 만들지 않음)
+   */
+  private stageSnapshot(snapshot: DiskSnapshot): StagedLoad {
+    const staged = runSteps(this.stage(snapshot.data, snapshot.size, snapshot.files, snapshot.multiFile, {
+      keyList: snapshot.keyList,
+      keys: snapshot.keys,
+      valueIndex: snapshot.valueIndex ? ValueIndex.fromState(snapshot.valueIndex) : null,
+      tableIndex: TableIndex.fromState(snapshot.tableIndex),
+      memory: snapshot.memory
+    }));
+    return { ...staged, fingerprints: snapshot.fingerprints };
+  }
+
+  /**
+   * 스테이징 데이터로 한 번에 교체 (동기 실행이므로 중간 상태가 노출되지 않음)
+   */
+  private commit(staged: StagedLoad): void {
+    // 데이터 및 색인 교체
+    this.data = staged.data;
+    this.files = staged.files;
+    this.multiFile = staged.multiFile;
+    this.keyIndex = staged.keyIndex;
+    this.keyList = staged.keyList;
+    this.valueIndex = staged.valueIndex;
+    this.tableIndex = staged.tableIndex;
+    this.revision = staged.revision;
+    this.memory = staged.memory;
+    this.fingerprints = staged.fingerprints ?? [];
+    this.evictedTo = null;
+    this.evictedIndexStats = null;
+    this.restoreFailed = false;
+    if (staged.remoteValidators) {
+      this.remoteValidators = staged.remoteValidators;
+    }
+    this.loadedAt = new Date();
+
+    // 통계 정보 업데이트
+    this.stats.keys = staged.keys;
+    this.stats.indexedKeys = staged.keyIndex.size;
+    this.stats.size = staged.size;
+    this.stats.loadedAt = this.loadedAt;
+  }
+
+  /**
+   * 디렉토리/글롭 소스의 파일 데이터를 병합 방식에 따라 하나로 합침
+   * 병합 방식 미지정 시 모두 쿼리맵이면 merge(모듈 코드 섹션 통합), 그 외에는 namespace
+   */
+  private combineFiles(loaded: LoadedFile[], base: string): { data: CacheData; files: SourceFileInfo[] } {
+    const strategy = this.options.mergeStrategy
+      ?? (loaded.length > 0 && loaded.every(file => file.format === 'xml-querymap') ? 'merge' : 'namespace');
+    const namespaces = strategy === 'namespace' ? this.createNamespaces(loaded, base) : [];
+    const data: CacheData = {};
+
+    const files = loaded.map((file, index) => {
+      const namespace = namespaces[index];
+      if (namespace !== undefined) {
+        data[namespace] = file.data;
+      } else {
+        deepMerge(data, file.data);
+      }
+
+      return {
+        path: file.path,
+        format: file.format,
+        size: file.size,
+        keys: this.countKeys(file.data),
+        namespace
+      };
+    });
+
+    return { data, files };
+  }
+
+  /**
+   * namespace 병합 시 파일별 최상위 키 (확장자를 제외한 파일명)
+   * 서로 다른 하위 디렉토리에 같은 이름의 파일이 있으면 기준 디렉토리로부터의 상대 경로 사용
+   */
+  private createNamespaces(loaded: LoadedFile[], base: string): string[] {
+    const stems = loaded.map(file => basename(file.path, extname(file.path)));
+
+    return loaded.map((file, index) => {
+      const stem = stems[index];
+      if (stems.indexOf(stem) === stems.lastIndexOf(stem)) {
+        return stem;
+      }
+
+      const relativePath = relative(base, file.path).split(sep).join('/');
+      return relativePath.slice(0, relativePath.length - extname(relativePath).length);
+    });
+  }
+
+  /**
+   * 소스 형식 반환 (미지정 시 확장자로 판별, 원격 소스는 URL 경로 기준, 여러 형식이 섞인 디렉토리/글롭 소스는 mixed)
+   */
+  public getFormat(): SourceFormat | 'mixed' {
+    if (this.options.format) {
+      return this.options.format;
+    }
+
+    if (this.options.remote) {
+      return detectFormat(getRemoteFileName(this.options.remote.url));
+    }
+
+    if (this.multiFile && this.files.length > 0) {
+      const formats = new Set(this.files.map(file => file.format));
+      return formats.size === 1 ? this.files[0].format : 'mixed';
+    }
+
+    return detectFormat(this.path);
+  }
+
+  /**
+   * 디렉토리/글롭 소스의 파일별 정보 (단일 파일 소스는 빈 배열)
+   */
+  public getFiles(): SourceFileInfo[] {
+    return this.files.map(file => ({ ...file }));
+  }
+
+  /**
+   * 디렉토리/글롭 소스 여부
+   */
+  public isMultiFile(): boolean {
+    return this.multiFile;
+  }
+
+  /**
+   * 파일 크기 제한 반환 (MB)
+   */
+  public getMaxFileSize(): number {
+    return this.options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE_MB;
+  }
+
+  /**
+   * 스트리밍 로드 모드 여부 (JSON 형식만 지원)
+   */
+  public isStreaming(): boolean {
+    return this.options.streaming === true && this.getFormat() === 'json';
+  }
+
+  /**
+   * 키로 값 검색 (대소문자 무시, 동적 접두사 자동 처리)
+   * b17., b30., m17., m30., m47. 등 최상위 섹션 자동 처리
+   */
+  public get(key: string): any | undefined {
+    const startTime = performance.now();
+
+    try {
+      this.stats.hits++;
+
+      // 1. 인덱스 조회 (전체 키, 섹션 제거 별칭, 최상위 이름)
+      // 예: "M301001020.cancelCrynInf" → "m30.M301001020.cancelCrynInf"
+      const matched = this.resolveIndexedKey(key);
+      if (matched !== undefined) {
+        this.ensureResident();
+        return this.valueAtPath(matched.path);
       }
 
-      // 3. 원래 키로 마지막 시도 (중첩 경로 지원)
+      // 2. 원래 키로 마지막 시도 (중첩 경로 지원, 내려둔 소스는 데이터에 있을 수 있는 키일 때만 다시 올림)
+      if (!this.isResident() && !this.mayResolveNested(key)) {
+        return undefined;
+      }
+      this.ensureResident();
       return this.resolveNestedKey(key, this.data);
 
     } catch (error) {
-      // 키 해석 오류는 undefined 반환
+      // 다시 올리지 못한 오류는 전달하고, 키 해석 오류는 undefined 반환
+      if (error instanceof CacheError) {
+        throw error;
+      }
       return undefined;
+    } finally {
+      this.recordLookup(performance.now() - startTime);
     }
   }
 
@@ -166,6 +882,14 @@ export class JsonCache {
    * 키 존재 여부 확인
    */
   public has(key: string): boolean {
+    if (this.resolveIndexedKey(key) !== undefined) {
+      return true;
+    }
+    if (!this.isResident() && !this.mayResolveNested(key)) {
+      return false;
+    }
+
+    this.ensureResident();
     try {
       const value = this.resolveNestedKey(key, this.data);
       return value !== undefined;
@@ -175,48 +899,265 @@ export class JsonCache {
   }
 
   /**
-   * 모든 키 목록 반환
-   * @param maxDepth 최대 깊이 (옵션, 지정하지 않으면 모든 깊이)
+   * 조회 통계와 조회 시각을 남기지 않고, 내려둔 소스도 다시 올리지 않는 값 확인 (Resource 구독 변경 감지용)
+   * 내려둔 소스는 키 인덱스로 존재 여부만 확인하므로 value는 항상 undefined
+   */
+  public peek(key: string): { found: boolean; value: any | undefined } {
+    const matched = this.resolveIndexedKey(key);
+    if (!this.isResident()) {
+      return { found: matched !== undefined || this.mayResolveNested(key), value: undefined };
+    }
+
+    try {
+      const value = matched !== undefined ? this.valueAtPath(matched.path) : this.resolveNestedKey(key, this.data);
+      return { found: value !== undefined, value };
+    } catch {
+      return { found: false, value: undefined };
+    }
+  }
+
+  /**
+   * 모든 키 목록 반환 (키 인덱스만 사용하므로 내려둔 소스도 다시 올리지 않음)
+   * @param maxDepth 최대 깊이 (옵션, 지정하지 않으면 모든 깊이, 0 이하는 최상위만)
    */
   public keys(maxDepth?: number): string[] {
-    return this.extractKeys(this.data, '', 0, maxDepth);
+    const depth = maxDepth === undefined ? Infinity : Math.max(maxDepth, 1);
+    return this.keyList
+      .filter(entry => entry.path.length <= depth)
+      .map(entry => entry.key);
   }
 
   /**
-   * 키 검색 (정확히 일치 또는 포함)
+   * 키 검색 (정확히 일치, 포함, 유사도 순위, 대소문자 무시)
+   * fuzzy 모드는 편집 거리/토큰 겹침/부분 문자열 점수로 정렬하며 score 필드를 포함
    */
-  public search(pattern: string, mode: 'exact' | 'contains' = 'exact'): any[] {
-    const allKeys = this.keys();
-    const matchedKeys: string[] = [];
+  public search(
+    pattern: string,
+    mode: 'exact' | 'contains' | 'fuzzy' = 'exact',
+    options: { limit?: number; maxDepth?: number; minScore?: number } = {}
+  ): any[] {
+    if (mode === 'fuzzy') {
+      return this.fuzzySearch(pattern, options);
+    }
+
+    const matched: IndexedKey[] = [];
 
     if (mode === 'exact') {
-      // 정확히 일치하는 키 찾기
-      for (const key of allKeys) {
-        if (key === pattern) {
-          matchedKeys.push(key);
-        }
+      // 인덱스에서 바로 조회
+      const entry = this.resolveIndexedKey(pattern);
+      if (entry !== undefined) {
+        matched.push(entry);
       }
     } else {
       // 패턴을 포함하는 키 찾기
-      for (const key of allKeys) {
-        if (key.includes(pattern)) {
-          matchedKeys.push(key);
+      const patternLower = pattern.toLowerCase();
+      for (const entry of this.keyList) {
+        if (entry.key.toLowerCase().includes(patternLower)) {
+          matched.push(entry);
+        }
+      }
+    }
+
+    // 결과 반환 (일치하는 키가 있을 때만 값을 읽기 위해 다시 올림)
+    const limited = options.limit !== undefined ? matched.slice(0, options.limit) : matched;
+    if (limited.length > 0) {
+      this.ensureResident();
+    }
+    return limited.map(entry => ({
+      key: entry.key,
+      value: this.valueAtPath(entry.path)
+    }));
+  }
+
+  /**
+   * 와일드카드/글롭 패턴으로 키 검색
+   * 전체 키 또는 최상위 섹션을 제거한 경로 중 하나라도 일치하면 포함
+   * 예: "*.select.1row" → "b17.B17R2010.select.1row" (섹션 제거 경로 "B17R2010.select.1row"와 일치)
+   * @returns 문서 순서대로 limit개까지의 결과와 전체 일치 개수
+   */
+  public match(pattern: string, limit: number = 100): { matches: Array<{ key: string; value: any }>; total: number } {
+    const regex = compileKeyPattern(pattern);
+    const matched: IndexedKey[] = [];
+    let total = 0;
+
+    for (const entry of this.keyList) {
+      const isMatch = regex.test(toMatchTarget(entry.path)) ||
+        (entry.path.length > 1 && regex.test(toMatchTarget(entry.path.slice(1))));
+
+      if (!isMatch) continue;
+
+      total++;
+      if (matched.length < limit) {
+        matched.push(entry);
+      }
+    }
+
+    if (matched.length > 0) {
+      this.ensureResident();
+    }
+
+    return {
+      matches: matched.map(entry => ({ key: entry.key, value: this.valueAtPath(entry.path) })),
+      total
+    };
+  }
+
+  /**
+   * 키 자동완성용 접두사 검색 (대소문자 무시)
+   * 전체 키 또는 최상위 섹션을 제거한 별칭이 접두사로 시작하면 포함하며, 별칭으로 일치하면 별칭을 반환
+   * 예: "B17R" → "B17R2010.select" (전체 키 "b17.B17R2010.select")
+   * @returns 짧은 키 순으로 limit개까지의 키와 전체 일치 개수
+   */
+  public completeKeys(prefix: string, limit: number = 100): { keys: string[]; total: number } {
+    const prefixLower = prefix.toLowerCase();
+    const matched: string[] = [];
+
+    for (const entry of this.keyList) {
+      if (entry.key.toLowerCase().startsWith(prefixLower)) {
+        matched.push(entry.key);
+      } else if (entry.path.length > 1) {
+        const alias = entry.path.slice(1).join('.');
+        if (alias.toLowerCase().startsWith(prefixLower)) {
+          matched.push(alias);
         }
       }
     }
 
-    // 결과 반환
-    return matchedKeys.map(key => ({
-      key,
-      value: this.get(key)
+    matched.sort((a, b) => a.length - b.length || a.localeCompare(b));
+    return { keys: matched.slice(0, limit), total: matched.length };
+  }
+
+  /**
+   * 유사 키 추천 (값 없이 키와 점수만, 키 인덱스만 사용하므로 내려둔 소스도 다시 올리지 않음)
+   */
+  public suggestKeys(
+    pattern: string,
+    options: { limit?: number; maxDepth?: number; minScore?: number } = {}
+  ): Array<{ key: string; score: number }> {
+    return this.rankKeys(pattern, options).map(({ entry, score }) => ({ key: entry.key, score }));
+  }
+
+  /**
+   * 유사도 순위 검색 (키, 값, 점수)
+   */
+  private fuzzySearch(
+    pattern: string,
+    options: { limit?: number; maxDepth?: number; minScore?: number }
+  ): any[] {
+    const ranked = this.rankKeys(pattern, options);
+    if (ranked.length > 0) {
+      this.ensureResident();
+    }
+
+    return ranked.map(({ entry, score }) => ({
+      key: entry.key,
+      value: this.valueAtPath(entry.path),
+      score
     }));
   }
 
+  /**
+   * 유사도 순위
+   * 전체 키와 상위 경로를 떼어낸 접미 표기들 중 가장 가까운 표기로 점수 계산
+   * 예: "legacy_system.user_management.get_user" → "user_management.get_user", "get_user"
+   */
+  private rankKeys(
+    pattern: string,
+    options: { limit?: number; maxDepth?: number; minScore?: number }
+  ): Array<{ entry: IndexedKey; score: number }> {
+    const { limit = 10, maxDepth, minScore = 0 } = options;
+    const scored: Array<{ entry: IndexedKey; score: number }> = [];
+
+    for (const entry of this.keyList) {
+      if (maxDepth !== undefined && entry.path.length > maxDepth) continue;
+
+      const candidates = [entry.key];
+      for (let i = 1; i < entry.path.length; i++) {
+        candidates.push(entry.path.slice(i).join('.'));
+      }
+      const score = scoreKeyMatch(pattern, candidates);
+
+      if (score > minScore) {
+        scored.push({ entry, score });
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.entry.key.localeCompare(b.entry.key));
+
+    return scored.slice(0, limit);
+  }
+
+  /**
+   * 문자열 값 전문 검색
+   */
+  public searchValues(query: string, options: ValueSearchOptions = {}): ValueIndexHit[] {
+    this.ensureResident();
+    if (!this.valueIndex) {
+      throw new CacheError(
+        `값 색인이 비활성화된 소스입니다: ${this.name}`,
+        'VALUE_INDEX_DISABLED',
+        this.name
+      );
+    }
+    return this.valueIndex.search(query, options);
+  }
+
+  /**
+   * 값 색인 사용 여부
+   */
+  public hasValueIndex(): boolean {
+    if (this.evictedIndexStats) {
+      return this.evictedIndexStats.valueIndex !== null;
+    }
+    return this.valueIndex !== null;
+  }
+
+  /**
+   * 값 색인 통계 반환
+   */
+  public getValueIndexStats(): { leaves: number; tokens: number } | null {
+    if (this.evictedIndexStats) {
+      return this.evictedIndexStats.valueIndex;
+    }
+    return this.valueIndex ? this.valueIndex.getStats() : null;
+  }
+
+  /**
+   * 테이블을 사용하는 쿼리 조회
+   */
+  public findTableUsage(table: string, options: TableLookupOptions = {}): TableIndexHit[] {
+    this.ensureResident();
+    return this.tableIndex.find(table, options);
+  }
+
+  /**
+   * 색인된 테이블명 목록
+   */
+  public listTables(): string[] {
+    this.ensureResident();
+    return this.tableIndex.listTables();
+  }
+
+  /**
+   * 테이블 색인 통계 반환
+   */
+  public getTableIndexStats(): { tables: number; queries: number } {
+    if (this.evictedIndexStats) {
+      return this.evictedIndexStats.tableIndex;
+    }
+    return this.tableIndex.getStats();
+  }
+
   /**
    * 캐시 통계 정보 반환
    */
   public getStats(): CacheStats {
-    return { ...this.stats };
+    return {
+      ...this.stats,
+      avgLookupTime: this.lookupCount > 0
+        ? Math.round((this.totalLookupTime / this.lookupCount) * 1000) / 1000
+        : 0
+    };
   }
 
   /**
@@ -240,6 +1181,88 @@ export class JsonCache {
     return this.loadedAt;
   }
 
+  /**
+   * 디스크 스냅샷으로 저장할 내용 (원본 파일 상태가 기록되지 않았으면 null)
+   */
+  public exportDiskSnapshot(): Omit<DiskSnapshot, 'format' | 'savedAt'> | null {
+    if (!this.isLoaded() || this.fingerprints.length === 0) {
+      return null;
+    }
+
+    this.ensureResident();
+    return this.exportState();
+  }
+
+  /**
+   * 현재 데이터와 색인 (디스크 스냅샷/임시 저장소 공통 형식)
+   */
+  private exportState(): Omit<DiskSnapshot, 'format' | 'savedAt'> {
+    return {
+      source: this.name,
+      path: this.path,
+      settings: this.getSnapshotSettings(),
+      fingerprints: this.fingerprints,
+      data: this.data,
+      keyList: this.keyList,
+      valueIndex: this.valueIndex?.toState() ?? null,
+      tableIndex: this.tableIndex.toState(),
+      files: this.files,
+      multiFile: this.multiFile,
+      size: this.stats.size,
+      keys: this.stats.keys,
+      memory: this.memory ?? undefined
+    };
+  }
+
+  /**
+   * 디스크 스냅샷 사용 여부 (원격 소스는 원본 파일이 없으므로 제외)
+   */
+  public isDiskSnapshotEnabled(): boolean {
+    return this.options.diskSnapshot === true && !this.options.remote;
+  }
+
+  /**
+   * 파싱 결과에 영향을 주는 설정 (디스크 스냅샷이 현재 설정으로 만들어졌는지 확인용)
+   */
+  public getSnapshotSettings(): string {
+    return JSON.stringify([this.getFormat(), this.options.mergeStrategy ?? null, this.options.idField ?? null]);
+  }
+
+  /**
+   * 현재 원본 파일 목록 (디렉토리/글롭 소스는 일치하는 파일 전체)
+   */
+  public getSourceFiles(): string[] {
+    return resolveSourceFiles(this.path, this.options.format).files;
+  }
+
+  /**
+   * 디스크 스냅샷에서 복원한 상태 (원본에서 로드했으면 null)
+   */
+  public getRestoredSnapshot(): { savedAt: string; stale: boolean } | null {
+    return this.restoredSnapshot ? { ...this.restoredSnapshot } : null;
+  }
+
+  /**
+   * 현재 데이터의 리비전 (로드 전에는 null)
+   */
+  public getRevision(): string | null {
+    return this.revision;
+  }
+
+  /**
+   * 마지막 로드 실패 정보 (성공 시 null)
+   */
+  public getLoadError(): SourceLoadError | null {
+    return this.loadError ? { ...this.loadError } : null;
+  }
+
+  /**
+   * 마지막 리로드가 실패하여 이전 데이터를 제공 중인지 확인
+   */
+  public isStale(): boolean {
+    return this.isLoaded() && this.loadError !== null;
+  }
+
   /**
    * 캐시가 로드되었는지 확인
    */
@@ -253,9 +1276,159 @@ export class JsonCache {
   public clear(): void {
     this.data = {};
     this.loadedAt = null;
+    this.revision = null;
+    this.fingerprints = [];
+    this.restoredSnapshot = null;
+    this.evictedTo = null;
+    this.evictedIndexStats = null;
+    this.spilledRevision = null;
+    this.restoreFailed = false;
+    this.memory = null;
+    this.lastAccessedAt = null;
+    this.keyIndex.clear();
+    this.keyList = [];
+    this.valueIndex = null;
+    this.tableIndex = new TableIndex();
+    this.files = [];
+    this.remoteValidators = {};
+    this.loadError = null;
+    this.lookupCount = 0;
+    this.totalLookupTime = 0;
     this.stats.keys = 0;
     this.stats.size = 0;
     this.stats.hits = 0;
+    this.stats.indexedKeys = 0;
+  }
+
+  /**
+   * 키 인덱스 생성
+   * 우선순위: 전체 키 > 섹션 제거 별칭 > 최상위 이름 (먼저 등록된 항목 유지)
+   * 예: "b17.B17R2010.select" → "b17.b17r2010.select", "b17r2010.select"
+   */
+  private *createKeyIndex(entries: IndexedKey[]): Generator<void, Map<string, IndexedKey>> {
+    const index = new Map<string, IndexedKey>();
+
+    // 1. 전체 점 표기 키
+    for (let i = 0; i < entries.length; i++) {
+      const lower = entries[i].key.toLowerCase();
+      if (!index.has(lower)) {
+        index.set(lower, entries[i]);
+      }
+      if ((i + 1) % STAGE_YIELD_INTERVAL === 0) yield;
+    }
+
+    // 2. 최상위 섹션을 제거한 별칭 (최상위 섹션 순서대로 우선)
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if ((i + 1) % STAGE_YIELD_INTERVAL === 0) yield;
+      if (entry.path.length < 2) continue;
+
+      const alias = entry.path.slice(1).join('.').toLowerCase();
+      if (!index.has(alias)) {
+        index.set(alias, entry);
+      }
+    }
+
+    // 3. 최상위 이름 (점을 포함한 최상위 키도 그대로 조회되도록 보장)
+    for (const entry of entries) {
+      if (entry.path.length !== 1) continue;
+
+      const lower = entry.path[0].toLowerCase();
+      if (!index.has(lower)) {
+        index.set(lower, entry);
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * 모든 키의 실제 속성 경로와 값 (문서 순서, 부모 키 다음에 하위 키)
+   */
+  private *walkKeys(obj: any, path: string[]): Generator<{ entry: IndexedKey; value: any }> {
+    if (obj === null || typeof obj !== 'object') {
+      return;
+    }
+
+    for (const key of Object.keys(obj)) {
+      const entryPath = [...path, key];
+      const value = obj[key];
+      yield { entry: { key: entryPath.join('.'), path: entryPath }, value };
+
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        yield* this.walkKeys(value, entryPath);
+      }
+    }
+  }
+
+  /**
+   * 인덱스에서 키 항목 조회
+   * 최상위 섹션이 붙은 키는 섹션을 제거한 형태로도 재시도
+   * 예: "b17.M301001020.cancelCrynInf" → "M301001020.cancelCrynInf"
+   */
+  private resolveIndexedKey(key: string): IndexedKey | undefined {
+    if (!key || typeof key !== 'string') {
+      return undefined;
+    }
+
+    const lower = key.toLowerCase();
+    const direct = this.keyIndex.get(lower);
+    if (direct !== undefined) {
+      return direct;
+    }
+
+    const firstDot = lower.indexOf('.');
+    if (firstDot > 0) {
+      const section = this.keyIndex.get(lower.substring(0, firstDot));
+      if (section !== undefined && section.path.length === 1) {
+        return this.keyIndex.get(lower.substring(firstDot + 1));
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 인덱스에 없는 키가 데이터에 있을 수 있는지 확인 (내려둔 소스를 다시 올릴지 판단)
+   * 키 인덱스는 배열 안으로 들어가지 않으므로, 색인된 키 바로 뒤에 배열 인덱스가 오는 경로만 가능
+   * 예: "b17.B17R2010.params.0.name" ("b17.B17R2010.params"가 색인된 경우)
+   */
+  private mayResolveNested(key: string): boolean {
+    if (!key || typeof key !== 'string') {
+      return false;
+    }
+
+    const parts = key.split('.');
+    for (let i = 1; i < parts.length; i++) {
+      if (/^\d+$/.test(parts[i]) && this.resolveIndexedKey(parts.slice(0, i).join('.')) !== undefined) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 속성 경로로 값 접근
+   */
+  private valueAtPath(path: string[]): any {
+    let current: any = this.data;
+
+    for (const segment of path) {
+      if (current === null || typeof current !== 'object') {
+        return undefined;
+      }
+      current = current[segment];
+    }
+
+    return current;
+  }
+
+  /**
+   * 조회 지연 시간 기록 (ms)
+   */
+  private recordLookup(duration: number): void {
+    this.lookupCount++;
+    this.totalLookupTime += duration;
   }
 
   /**
@@ -319,48 +1492,6 @@ export class JsonCache {
     return current;
   }
 
-  /**
-   * 객체의 모든 키 추출 (재귀적)
-   * @param obj 대상 객체
-   * @param prefix 키 접두사
-   * @param depth 현재 깊이 (0부터 시작)
-   * @param maxDepth 최대 깊이 (옵션, undefined면 제한 없음)
-   */
-  private extractKeys(obj: any, prefix: string, depth: number = 0, maxDepth?: number): string[] {
-    const keys: string[] = [];
-
-    if (obj === null || typeof obj !== 'object') {
-      return keys;
-    }
-
-    for (const key in obj) {
-      if (obj.hasOwnProperty(key)) {
-        const fullKey = prefix ? `${prefix}.${key}` : key;
-
-        // maxDepth가 0이면 첫 번째 레벨 키만 반환
-        if (maxDepth === 0) {
-          if (depth === 0) {
-            keys.push(fullKey);
-          }
-          continue; // maxDepth=0이면 더 이상 재귀하지 않음
-        }
-
-        keys.push(fullKey);
-
-        // maxDepth가 지정되고 현재 depth가 maxDepth-1에 도달하면 재귀 중단
-        // (depth는 0부터 시작하므로, maxDepth=2면 depth 0, 1까지만 탐색)
-        const shouldRecurse = maxDepth === undefined || depth < maxDepth - 1;
-
-        // 재귀적으로 중첩 객체의 키도 추출 (깊이 제한 적용)
-        if (shouldRecurse && typeof obj[key] === 'object' && obj[key] !== null && !Array.isArray(obj[key])) {
-          keys.push(...this.extractKeys(obj[key], fullKey, depth + 1, maxDepth));
-        }
-      }
-    }
-
-    return keys;
-  }
-
   /**
    * 객체의 총 키 개수 계산
    */
@@ -386,22 +1517,33 @@ export class JsonCache {
   }
 
   /**
-   * 메모리 사용량 추정 (바이트 단위)
+   * 메모리 사용량 추정 (바이트 단위, 데이터와 색인 포함, 내려둔 소스는 남아 있는 키 인덱스만)
    */
   public estimateMemoryUsage(): number {
-    try {
-      const jsonString = JSON.stringify(this.data);
-      return Buffer.byteLength(jsonString, 'utf-8');
-    } catch (error) {
-      // 직렬화 실패 시 기본값 반환
-      return this.stats.size;
-    }
+    return this.isResident() ? this.memory?.total ?? 0 : this.memory?.indexes.keys ?? 0;
+  }
+
+  /**
+   * 데이터/색인/최상위 섹션별 메모리 추정치 (로드 전에는 null, 내려둔 소스는 다시 올렸을 때의 크기)
+   */
+  public getMemoryBreakdown(): MemoryBreakdown | null {
+    return this.memory;
+  }
+
+  /**
+   * 현재 데이터 참조 반환 (스냅샷 보관용, 수정 금지)
+   * 리로드 시 새 객체로 교체되므로 이전 참조는 그대로 유지됨
+   */
+  public getData(): CacheData {
+    this.ensureResident();
+    return this.data;
   }
 
   /**
    * 캐시 데이터 복제본 반환 (안전한 접근)
    */
   public clone(): CacheData {
+    this.ensureResident();
     try {
       return JSON.parse(JSON.stringify(this.data));
     } catch (error) {
@@ -0,0 +1,143 @@
+/**
+ * SourceHistory - 소스별 리로드 스냅샷 보관
+ * 리로드마다 새 데이터 트리를 버전으로 기록하고 직전 스냅샷과의 구조적 차이를 함께 저장
+ * 데이터는 리로드 시 새 객체로 교체되므로 복사하지 않고 참조만 보관
+ * 소스가 메모리 예산 때문에 내려가면 최신 스냅샷의 참조도 놓고, 다시 올라오면 새 참조를 연결
+ */
+
+import { CacheData, DataDiff, SnapshotInfo } from '../types.js';
+import { diffData, summarizeDiff } from '../utils/json-diff.js';
+
+export interface SourceSnapshot {
+  version: number;
+  loadedAt: Date;
+  keys: number;
+  size: number;
+  memoryUsage: number;
+  data: CacheData | null; // 소스를 메모리에서 내린 동안 최신 스냅샷은 null
+  previous?: { version: number; loadedAt: Date }; // diff 기준 스냅샷
+  diff?: DataDiff;
+}
+
+export class SourceHistory {
+  private snapshots: SourceSnapshot[] = [];
+  private nextVersion: number = 1;
+  private maxSnapshots: number;
+
+  constructor(maxSnapshots: number) {
+    this.maxSnapshots = maxSnapshots;
+  }
+
+  /**
+   * 새 스냅샷 기록 (직전 스냅샷과 비교), 최대 개수를 넘으면 오래된 스냅샷부터 제거
+   * 내용이 직전 스냅샷과 같으면 버전을 늘리지 않고 최신 스냅샷의 데이터 참조만 교체하며 undefined 반환
+   */
+  public record(
+    data: CacheData,
+    meta: { loadedAt: Date; keys: number; size: number; memoryUsage: number }
+  ): SourceSnapshot | undefined {
+    const previous = this.latest();
+    const diff = previous?.data ? diffData(previous.data, data) : undefined;
+
+    if (previous && diff && diff.added.length + diff.removed.length + diff.changed.length === 0) {
+      previous.data = data;
+      return undefined;
+    }
+
+    const snapshot: SourceSnapshot = {
+      version: this.nextVersion++,
+      ...meta,
+      data,
+      previous: previous ? { version: previous.version, loadedAt: previous.loadedAt } : undefined,
+      diff
+    };
+
+    this.snapshots.push(snapshot);
+    while (this.snapshots.length > Math.max(this.maxSnapshots, 1)) {
+      this.snapshots.shift();
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * 최신 스냅샷의 데이터 참조 해제 (소스를 메모리에서 내릴 때)
+   */
+  public releaseLatest(): void {
+    const latest = this.latest();
+    if (latest) {
+      latest.data = null;
+    }
+  }
+
+  /**
+   * 최신 스냅샷에 다시 올린 데이터 연결 (내용은 내리기 전과 같음)
+   */
+  public attachLatest(data: CacheData): void {
+    const latest = this.latest();
+    if (latest && latest.data === null) {
+      latest.data = data;
+    }
+  }
+
+  /**
+   * 최신 스냅샷
+   */
+  public latest(): SourceSnapshot | undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  /**
+   * 버전으로 스냅샷 조회
+   */
+  public get(version: number): SourceSnapshot | undefined {
+    return this.snapshots.find(snapshot => snapshot.version === version);
+  }
+
+  /**
+   * 보관 중인 스냅샷 정보 (오래된 순, 데이터 제외)
+   */
+  public list(): SnapshotInfo[] {
+    return this.snapshots.map(snapshot => ({
+      version: snapshot.version,
+      loadedAt: snapshot.loadedAt,
+      keys: snapshot.keys,
+      size: snapshot.size,
+      memoryUsage: snapshot.memoryUsage,
+      diff: snapshot.diff ? summarizeDiff(snapshot.diff) : undefined
+    }));
+  }
+
+  /**
+   * 가장 오래된 스냅샷 (최신 스냅샷은 제거 대상에서 제외)
+   */
+  public oldestEvictable(): SourceSnapshot | undefined {
+    return this.snapshots.length > 1 ? this.snapshots[0] : undefined;
+  }
+
+  /**
+   * 가장 오래된 스냅샷 제거
+   */
+  public evictOldest(): void {
+    if (this.snapshots.length > 1) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * 이전 스냅샷 데이터 추정 크기 합계 (bytes)
+   * 최신 스냅샷은 현재 캐시 데이터와 같은 객체이므로 제외
+   */
+  public getMemoryUsage(): number {
+    return this.snapshots
+      .slice(0, -1)
+      .reduce((total, snapshot) => total + snapshot.memoryUsage, 0);
+  }
+
+  /**
+   * 전체 스냅샷 제거
+   */
+  public clear(): void {
+    this.snapshots = [];
+  }
+}
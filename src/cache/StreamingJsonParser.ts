@@ -0,0 +1,374 @@
+/**
+ * StreamingJsonParser - 점진적(청크 단위) JSON 파서
+ * 대용량 파일을 한 번에 문자열로 읽지 않고 청크마다 파싱하여 이벤트 루프 차단을 줄임
+ */
+
+// 파서가 다음에 기대하는 토큰
+type Expect =
+  | 'value' // 값 (최상위, ':' 뒤, 배열 ',' 뒤)
+  | 'valueOrEnd' // '[' 직후: 값 또는 ']'
+  | 'keyOrEnd' // '{' 직후: 키 또는 '}'
+  | 'key' // 객체 ',' 뒤: 키
+  | 'colon' // 키 뒤: ':'
+  | 'commaOrEnd' // 컨테이너 내부 값 뒤: ',' 또는 닫는 괄호
+  | 'done'; // 최상위 값 완료 (공백만 허용)
+
+// 현재 읽는 중인 토큰 종류
+type TokenKind = 'none' | 'string' | 'number' | 'literal';
+
+// 열린 컨테이너 (객체/배열)
+type Container =
+  | { kind: 'object'; value: Record<string, any>; key: string | null }
+  | { kind: 'array'; value: any[] };
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const LITERALS: Record<string, any> = { true: true, false: false, null: null };
+
+export class StreamingJsonParser {
+  private stack: Container[] = [];
+  private expect: Expect = 'value';
+  private token: TokenKind = 'none';
+  private buffer: string = '';
+  private stringIsKey: boolean = false;
+  private pendingEscape: boolean = false;
+  private unicodeBuffer: string | null = null;
+  private result: any = undefined;
+  private position: number = 0; // 이전 청크까지 누적된 문자 수
+  private cursor: number = 0; // 오류 보고용 현재 위치
+
+  /**
+   * 청크 입력 (문자열 경계는 UTF-8 디코딩이 끝난 문자열 기준)
+   */
+  public write(chunk: string): void {
+    let i = 0;
+    const length = chunk.length;
+
+    while (i < length) {
+      if (this.token === 'string') {
+        i = this.readString(chunk, i);
+        continue;
+      }
+
+      if (this.token === 'number' || this.token === 'literal') {
+        const start = i;
+        const pattern = this.token === 'number' ? /[-+0-9.eE]/ : /[a-z]/;
+        while (i < length && pattern.test(chunk[i])) {
+          i++;
+        }
+        this.buffer += chunk.substring(start, i);
+
+        // 청크 끝까지 이어지면 다음 청크를 기다림
+        if (i === length) break;
+
+        this.cursor = this.position + i;
+        this.finishScalar();
+        continue;
+      }
+
+      const ch = chunk[i];
+
+      // 공백 건너뛰기
+      if (ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t') {
+        i++;
+        continue;
+      }
+
+      this.cursor = this.position + i;
+      this.readStructural(ch);
+      i++;
+    }
+
+    this.position += length;
+  }
+
+  /**
+   * 입력 종료 후 최종 결과 반환
+   */
+  public end(): any {
+    if (this.token === 'number' || this.token === 'literal') {
+      this.cursor = this.position;
+      this.finishScalar();
+    }
+
+    if (this.token === 'string' || this.expect !== 'done') {
+      throw new Error('예상치 못한 입력 종료 (JSON이 완결되지 않았습니다)');
+    }
+
+    return this.result;
+  }
+
+  /**
+   * 구조 문자 및 값 시작 문자 처리
+   */
+  private readStructural(ch: string): void {
+    switch (this.expect) {
+      case 'done':
+        this.fail(ch);
+        break;
+
+      case 'keyOrEnd':
+        if (ch === '}') {
+          this.closeContainer('object');
+        } else if (ch === '"') {
+          this.startString(true);
+        } else {
+          this.fail(ch);
+        }
+        break;
+
+      case 'key':
+        if (ch !== '"') this.fail(ch);
+        this.startString(true);
+        break;
+
+      case 'colon':
+        if (ch !== ':') this.fail(ch);
+        this.expect = 'value';
+        break;
+
+      case 'commaOrEnd': {
+        const top = this.stack[this.stack.length - 1];
+        if (ch === ',') {
+          this.expect = top.kind === 'object' ? 'key' : 'value';
+        } else if (ch === '}' && top.kind === 'object') {
+          this.closeContainer('object');
+        } else if (ch === ']' && top.kind === 'array') {
+          this.closeContainer('array');
+        } else {
+          this.fail(ch);
+        }
+        break;
+      }
+
+      case 'valueOrEnd':
+        if (ch === ']') {
+          this.closeContainer('array');
+          break;
+        }
+        this.startValue(ch);
+        break;
+
+      case 'value':
+        this.startValue(ch);
+        break;
+    }
+  }
+
+  /**
+   * 값 시작
+   */
+  private startValue(ch: string): void {
+    if (ch === '{') {
+      this.stack.push({ kind: 'object', value: {}, key: null });
+      this.expect = 'keyOrEnd';
+    } else if (ch === '[') {
+      this.stack.push({ kind: 'array', value: [] });
+      this.expect = 'valueOrEnd';
+    } else if (ch === '"') {
+      this.startString(false);
+    } else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      this.token = 'number';
+      this.buffer = ch;
+    } else if (ch === 't' || ch === 'f' || ch === 'n') {
+      this.token = 'literal';
+      this.buffer = ch;
+    } else {
+      this.fail(ch);
+    }
+  }
+
+  /**
+   * 문자열 토큰 시작
+   */
+  private startString(isKey: boolean): void {
+    this.token = 'string';
+    this.stringIsKey = isKey;
+    this.buffer = '';
+  }
+
+  /**
+   * 문자열 내용 읽기 (청크 경계에 걸친 이스케이프 지원)
+   * @returns 다음에 처리할 인덱스
+   */
+  private readString(chunk: string, start: number): number {
+    let i = start;
+    const length = chunk.length;
+
+    while (i < length) {
+      // \uXXXX 이스케이프 수집 중
+      if (this.unicodeBuffer !== null) {
+        const needed = 4 - this.unicodeBuffer.length;
+        this.unicodeBuffer += chunk.substring(i, i + needed);
+        i += Math.min(needed, length - i);
+
+        if (this.unicodeBuffer.length < 4) return i;
+        if (!/^[0-9a-fA-F]{4}$/.test(this.unicodeBuffer)) {
+          throw new Error(`잘못된 유니코드 이스케이프: \\u${this.unicodeBuffer}`);
+        }
+        this.buffer += String.fromCharCode(parseInt(this.unicodeBuffer, 16));
+        this.unicodeBuffer = null;
+        continue;
+      }
+
+      if (this.pendingEscape) {
+        this.pendingEscape = false;
+        this.appendEscape(chunk[i]);
+        i++;
+        continue;
+      }
+
+      // 다음 따옴표 또는 역슬래시까지 한 번에 복사 (JSON.parse와 같이 이스케이프하지 않은 제어 문자는 거부)
+      let j = i;
+      while (j < length) {
+        const ch = chunk[j];
+        if (ch === '"' || ch === '\\') break;
+        if (ch < ' ') {
+          throw new Error(`문자열 안의 제어 문자 U+${ch.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')} (위치 ${this.position + j})`);
+        }
+        j++;
+      }
+      this.buffer += chunk.substring(i, j);
+
+      if (j === length) return j;
+
+      if (chunk[j] === '\\') {
+        this.pendingEscape = true;
+        i = j + 1;
+        continue;
+      }
+
+      // 닫는 따옴표
+      this.finishString();
+      return j + 1;
+    }
+
+    return i;
+  }
+
+  /**
+   * 이스케이프 문자 변환
+   */
+  private appendEscape(ch: string): void {
+    switch (ch) {
+      case '"':
+      case '\\':
+      case '/':
+        this.buffer += ch;
+        break;
+      case 'b':
+        this.buffer += '\b';
+        break;
+      case 'f':
+        this.buffer += '\f';
+        break;
+      case 'n':
+        this.buffer += '\n';
+        break;
+      case 'r':
+        this.buffer += '\r';
+        break;
+      case 't':
+        this.buffer += '\t';
+        break;
+      case 'u':
+        this.unicodeBuffer = '';
+        break;
+      default:
+        throw new Error(`잘못된 이스케이프 문자: \\${ch}`);
+    }
+  }
+
+  /**
+   * 문자열 토큰 완료
+   */
+  private finishString(): void {
+    const text = this.buffer;
+    this.token = 'none';
+    this.buffer = '';
+
+    if (this.stringIsKey) {
+      const top = this.stack[this.stack.length - 1];
+      if (top.kind === 'object') {
+        top.key = text;
+      }
+      this.expect = 'colon';
+      return;
+    }
+
+    this.emitValue(text);
+  }
+
+  /**
+   * 숫자/리터럴 토큰 완료
+   */
+  private finishScalar(): void {
+    const text = this.buffer;
+    const kind = this.token;
+    this.token = 'none';
+    this.buffer = '';
+
+    if (kind === 'number') {
+      if (!NUMBER_PATTERN.test(text)) {
+        throw new Error(`잘못된 숫자 형식: ${text} (위치 ${this.cursor})`);
+      }
+      this.emitValue(Number(text));
+      return;
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(LITERALS, text)) {
+      throw new Error(`잘못된 리터럴: ${text} (위치 ${this.cursor})`);
+    }
+    this.emitValue(LITERALS[text]);
+  }
+
+  /**
+   * 컨테이너 닫기
+   */
+  private closeContainer(kind: 'object' | 'array'): void {
+    const container = this.stack.pop();
+    if (!container || container.kind !== kind) {
+      throw new Error(`괄호 짝이 맞지 않습니다 (위치 ${this.cursor})`);
+    }
+    this.emitValue(container.value);
+  }
+
+  /**
+   * 완성된 값을 부모 컨테이너(또는 최상위 결과)에 연결
+   */
+  private emitValue(value: any): void {
+    const parent = this.stack[this.stack.length - 1];
+
+    if (!parent) {
+      this.result = value;
+      this.expect = 'done';
+      return;
+    }
+
+    if (parent.kind === 'array') {
+      parent.value.push(value);
+    } else {
+      const key = parent.key as string;
+      // JSON.parse와 동일하게 "__proto__"도 일반 속성으로 취급
+      if (key === '__proto__') {
+        Object.defineProperty(parent.value, key, {
+          value,
+          enumerable: true,
+          writable: true,
+          configurable: true
+        });
+      } else {
+        parent.value[key] = value;
+      }
+      parent.key = null;
+    }
+
+    this.expect = 'commaOrEnd';
+  }
+
+  /**
+   * 파싱 오류
+   */
+  private fail(ch: string): never {
+    throw new Error(`예상치 못한 문자 '${ch}' (위치 ${this.cursor})`);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * TableIndex - 테이블 → 쿼리 역색인
+ * query 필드를 가진 쿼리맵 항목의 SQL을 분석하여 테이블별로 사용 쿼리 키와 작업을 기록
+ */
+
+import { analyzeSql, SqlOperation, SqlStatementType } from '../utils/sql-analyzer.js';
+import { ARRAY_HEADER_SIZE, estimateStringSize, MAP_ENTRY_SIZE, OBJECT_HEADER_SIZE, POINTER_SIZE } from '../utils/memory-estimate.js';
+
+// 색인 항목 (소스 정보 제외)
+export interface TableIndexHit {
+  table: string; // 스키마 한정자 포함 원래 이름
+  key: string;
+  operations: SqlOperation[];
+  statementType: SqlStatementType;
+  desc?: string;
+}
+
+// 디스크 스냅샷에 저장하는 색인 상태
+export interface TableIndexState {
+  tables: Map<string, TableIndexHit[]>;
+  queryCount: number;
+}
+
+export interface TableLookupOptions {
+  operation?: SqlOperation;
+  limit?: number;
+}
+
+export class TableIndex {
+  // 스키마를 제거한 대문자 테이블명 → 항목 목록
+  private tables: Map<string, TableIndexHit[]> = new Map();
+  private queryCount: number = 0;
+
+  /**
+   * 키 항목 하나의 값 색인 (소스 로드 시 키 순회 중 문서 순서로 호출)
+   * 문자열 query 필드를 가진 객체만 쿼리 항목으로 등록
+   */
+  public addEntry(key: string, value: any): void {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && typeof value.query === 'string') {
+      this.addQuery(key, value.query, value.desc ?? value.description);
+    }
+  }
+
+  /**
+   * 저장된 색인 상태로 복원 (SQL을 다시 분석하지 않음)
+   */
+  public static fromState(state: TableIndexState): TableIndex {
+    const index = new TableIndex();
+    index.tables = state.tables;
+    index.queryCount = state.queryCount;
+    return index;
+  }
+
+  /**
+   * 디스크 스냅샷용 색인 상태
+   */
+  public toState(): TableIndexState {
+    return {
+      tables: this.tables,
+      queryCount: this.queryCount
+    };
+  }
+
+  /**
+   * 쿼리 하나를 분석하여 테이블별 항목 등록
+   */
+  private addQuery(key: string, sql: string, desc: unknown): void {
+    const analysis = analyzeSql(sql);
+    if (analysis.tables.length === 0) return;
+
+    this.queryCount++;
+
+    // 같은 테이블을 여러 작업으로 참조하면 하나의 항목으로 병합
+    const byTable = new Map<string, TableIndexHit>();
+    for (const ref of analysis.tables) {
+      const hit = byTable.get(ref.name);
+      if (hit) {
+        if (!hit.operations.includes(ref.operation)) {
+          hit.operations.push(ref.operation);
+        }
+        continue;
+      }
+
+      byTable.set(ref.name, {
+        table: ref.name,
+        key,
+        operations: [ref.operation],
+        statementType: analysis.statementType,
+        desc: typeof desc === 'string' ? desc : undefined
+      });
+    }
+
+    for (const hit of byTable.values()) {
+      const name = TableIndex.normalizeName(hit.table);
+      const list = this.tables.get(name);
+      if (list) {
+        list.push(hit);
+      } else {
+        this.tables.set(name, [hit]);
+      }
+    }
+  }
+
+  /**
+   * 테이블을 사용하는 쿼리 조회
+   * 스키마 한정자 없이 조회하면 모든 스키마의 같은 테이블을 포함하고,
+   * 한정자를 지정하면 해당 스키마(또는 한정자 없이 작성된 쿼리)만 반환
+   */
+  public find(table: string, options: TableLookupOptions = {}): TableIndexHit[] {
+    const { operation, limit } = options;
+    const requested = table.trim().toUpperCase();
+    const hits = this.tables.get(TableIndex.normalizeName(requested)) || [];
+
+    const filtered = hits.filter(hit => {
+      if (requested.includes('.') && hit.table.includes('.') && hit.table !== requested) {
+        return false;
+      }
+      return !operation || hit.operations.includes(operation);
+    });
+
+    return limit !== undefined ? filtered.slice(0, limit) : filtered;
+  }
+
+  /**
+   * 색인된 테이블명 목록 (스키마 제거, 정렬)
+   */
+  public listTables(): string[] {
+    return Array.from(this.tables.keys()).sort();
+  }
+
+  /**
+   * 색인 메모리 추정 (bytes, 설명 문자열은 데이터와 공유하므로 제외)
+   */
+  public estimateMemoryUsage(): number {
+    let size = 0;
+    for (const [name, hits] of this.tables) {
+      size += MAP_ENTRY_SIZE + estimateStringSize(name) + ARRAY_HEADER_SIZE + hits.length * POINTER_SIZE;
+      for (const hit of hits) {
+        size += OBJECT_HEADER_SIZE + 5 * POINTER_SIZE
+          + estimateStringSize(hit.table)
+          + estimateStringSize(hit.key)
+          + ARRAY_HEADER_SIZE + hit.operations.length * POINTER_SIZE;
+      }
+    }
+    return size;
+  }
+
+  /**
+   * 색인 통계
+   */
+  public getStats() {
+    return {
+      tables: this.tables.size,
+      queries: this.queryCount
+    };
+  }
+
+  /**
+   * 스키마 한정자를 제거한 대문자 테이블명
+   */
+  private static normalizeName(table: string): string {
+    const parts = table.toUpperCase().split('.');
+    return parts[parts.length - 1];
+  }
+}
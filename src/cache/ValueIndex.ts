@@ -0,0 +1,295 @@
+/**
+ * ValueIndex - 문자열 값 전문 검색용 역색인
+ * 문자열 리프 값을 토큰화(한글은 2-gram)하여 키 경로/필드 단위로 검색
+ */
+
+import { ValueMatch } from '../types.js';
+import { ARRAY_HEADER_SIZE, estimateStringSize, MAP_ENTRY_SIZE, OBJECT_HEADER_SIZE, POINTER_SIZE } from '../utils/memory-estimate.js';
+
+// 색인된 문자열 리프 (소속 키 경로 + 필드명 + 원본 값)
+interface IndexedLeaf {
+  key: string;
+  field: string;
+  value: string;
+}
+
+// 검색 결과 (소스 정보 제외)
+export interface ValueIndexHit {
+  key: string;
+  matches: ValueMatch[];
+}
+
+// 디스크 스냅샷에 저장하는 색인 상태
+export interface ValueIndexState {
+  leaves: IndexedLeaf[];
+  postings: Map<string, number[]>;
+  sortedTokens: string[];
+}
+
+export interface ValueSearchOptions {
+  field?: string;
+  limit?: number;
+}
+
+const HANGUL_RUN = /[가-힣ㄱ-ㆎ]+/g;
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const SNIPPET_RADIUS = 40;
+
+/**
+ * 텍스트를 색인 토큰으로 분리
+ * - 영문/숫자 단어: 소문자 전체 단어 + 밑줄로 나눈 조각 (TB_M47_WK → tb_m47_wk, tb, m47, wk)
+ * - 한글: 2-gram (작업지시 → 작업, 업지, 지시), 한 글자는 그대로
+ * @param includeCompound 밑줄 포함 전체 단어도 토큰에 포함할지 여부 (검색어 분리 시 false)
+ */
+export function tokenizeText(text: string, includeCompound: boolean = true): string[] {
+  const tokens: string[] = [];
+  const words = text.toLowerCase().match(WORD_PATTERN) || [];
+
+  for (const word of words) {
+    // 한글 구간은 2-gram, 나머지 구간은 단어로 분리
+    const nonHangul = word.replace(HANGUL_RUN, ' ').trim();
+    for (const run of nonHangul.split(/\s+/)) {
+      if (!run) continue;
+
+      const parts = run.split('_').filter(part => part.length > 0);
+      if (includeCompound && parts.length > 1) {
+        tokens.push(run);
+      }
+      tokens.push(...parts);
+    }
+
+    for (const run of word.match(HANGUL_RUN) || []) {
+      if (run.length === 1) {
+        tokens.push(run);
+        continue;
+      }
+      for (let i = 0; i < run.length - 1; i++) {
+        tokens.push(run.substring(i, i + 2));
+      }
+    }
+  }
+
+  return tokens;
+}
+
+export class ValueIndex {
+  private leaves: IndexedLeaf[] = [];
+  private postings: Map<string, number[]> = new Map();
+  private sortedTokens: string[] = [];
+
+  /**
+   * 키 항목 하나의 값 색인 (소스 로드 시 키 순회 중 문서 순서로 호출, 다 추가한 뒤 complete 호출)
+   * 객체 값의 속성은 각 속성의 키 항목에서 색인하므로 여기서는 건너뜀
+   * @param key 점 표기 키 (path를 점으로 이은 값)
+   */
+  public addEntry(key: string, path: string[], value: any): void {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      return;
+    }
+
+    // 최상위 값은 자기 자신을, 그 외에는 부모 객체의 키를 소속 키로 기록
+    const field = path[path.length - 1];
+    const ownerKey = path.length > 1 ? key.substring(0, key.length - field.length - 1) : key;
+    this.walk(value, path, ownerKey, field);
+  }
+
+  /**
+   * 접두 검색용 토큰 정렬 (addEntry를 모두 호출한 뒤 한 번 실행)
+   */
+  public complete(): void {
+    this.sortedTokens = Array.from(this.postings.keys()).sort();
+  }
+
+  /**
+   * 저장된 색인 상태로 복원 (다시 토큰화하지 않음)
+   */
+  public static fromState(state: ValueIndexState): ValueIndex {
+    const index = new ValueIndex();
+    index.leaves = state.leaves;
+    index.postings = state.postings;
+    index.sortedTokens = state.sortedTokens;
+    return index;
+  }
+
+  /**
+   * 디스크 스냅샷용 색인 상태
+   */
+  public toState(): ValueIndexState {
+    return {
+      leaves: this.leaves,
+      postings: this.postings,
+      sortedTokens: this.sortedTokens
+    };
+  }
+
+  /**
+   * 문자열 리프 수집
+   * 리프는 부모 객체의 키 경로(key)와 속성명(field)으로 기록하며,
+   * 배열 원소는 배열을 가진 속성의 필드로 취급 (예: params[0] → field "params")
+   */
+  private walk(value: any, path: string[], ownerKey: string, field: string): void {
+    if (typeof value === 'string') {
+      this.addLeaf({ key: ownerKey, field, value });
+      return;
+    }
+
+    if (value === null || typeof value !== 'object') {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        this.walk(item, path, ownerKey, field);
+      }
+      return;
+    }
+
+    const objectKey = path.join('.');
+    for (const childKey of Object.keys(value)) {
+      this.walk(value[childKey], [...path, childKey], objectKey, childKey);
+    }
+  }
+
+  /**
+   * 리프 등록 및 포스팅 갱신
+   */
+  private addLeaf(leaf: IndexedLeaf): void {
+    const id = this.leaves.length;
+    this.leaves.push(leaf);
+
+    for (const token of new Set(tokenizeText(leaf.value))) {
+      const list = this.postings.get(token);
+      if (list) {
+        list.push(id);
+      } else {
+        this.postings.set(token, [id]);
+      }
+    }
+  }
+
+  /**
+   * 전문 검색
+   * 검색어 토큰(접두 일치)으로 후보를 좁힌 뒤, 공백으로 나눈 각 검색어가
+   * 값에 부분 문자열로 포함되는지 확인 (대소문자 무시)
+   */
+  public search(query: string, options: ValueSearchOptions = {}): ValueIndexHit[] {
+    const { field, limit = 20 } = options;
+    const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+    const queryTokens = Array.from(new Set(tokenizeText(query, false)));
+
+    if (terms.length === 0 || queryTokens.length === 0) {
+      return [];
+    }
+
+    // 토큰별 후보 집합의 교집합
+    let candidates: Set<number> | null = null;
+    for (const token of queryTokens) {
+      const ids = this.lookupPrefix(token);
+      if (candidates === null) {
+        candidates = ids;
+      } else {
+        const previous: Set<number> = candidates;
+        candidates = new Set(Array.from(ids).filter(id => previous.has(id)));
+      }
+      if (candidates.size === 0) {
+        return [];
+      }
+    }
+
+    const sortedIds = Array.from(candidates ?? []).sort((a, b) => a - b);
+    const hits = new Map<string, ValueIndexHit>();
+    const fieldLower = field?.toLowerCase();
+
+    for (const id of sortedIds) {
+      const leaf = this.leaves[id];
+      if (fieldLower && leaf.field.toLowerCase() !== fieldLower) continue;
+
+      const valueLower = leaf.value.toLowerCase();
+      if (!terms.every(term => valueLower.includes(term))) continue;
+
+      let hit = hits.get(leaf.key);
+      if (!hit) {
+        if (hits.size >= limit) continue;
+        hit = { key: leaf.key, matches: [] };
+        hits.set(leaf.key, hit);
+      }
+
+      if (!hit.matches.some(match => match.field === leaf.field)) {
+        hit.matches.push({
+          field: leaf.field,
+          snippet: this.createSnippet(leaf.value, valueLower.indexOf(terms[0]), terms[0].length)
+        });
+      }
+    }
+
+    // 일치 필드가 많은 키 우선 (동률이면 문서 순서 유지)
+    return Array.from(hits.values()).sort((a, b) => b.matches.length - a.matches.length);
+  }
+
+  /**
+   * 접두 일치 토큰들의 포스팅 합집합
+   */
+  private lookupPrefix(token: string): Set<number> {
+    const result = new Set<number>();
+
+    // 이진 탐색으로 접두사 시작 위치 찾기
+    let low = 0;
+    let high = this.sortedTokens.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sortedTokens[mid] < token) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    for (let i = low; i < this.sortedTokens.length; i++) {
+      const candidate = this.sortedTokens[i];
+      if (!candidate.startsWith(token)) break;
+
+      for (const id of this.postings.get(candidate) || []) {
+        result.add(id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 일치 위치 주변 스니펫 생성 (공백 정리)
+   */
+  private createSnippet(value: string, position: number, length: number): string {
+    const start = Math.max(0, position - SNIPPET_RADIUS);
+    const end = Math.min(value.length, position + length + SNIPPET_RADIUS);
+    const body = value.substring(start, end).replace(/\s+/g, ' ').trim();
+
+    return `${start > 0 ? '…' : ''}${body}${end < value.length ? '…' : ''}`;
+  }
+
+  /**
+   * 색인 메모리 추정 (bytes, 값 문자열은 데이터와 공유하므로 제외)
+   */
+  public estimateMemoryUsage(): number {
+    let size = ARRAY_HEADER_SIZE + this.leaves.length * POINTER_SIZE;
+    for (const leaf of this.leaves) {
+      size += OBJECT_HEADER_SIZE + 3 * POINTER_SIZE + estimateStringSize(leaf.key);
+    }
+
+    for (const [token, positions] of this.postings) {
+      size += MAP_ENTRY_SIZE + estimateStringSize(token) + ARRAY_HEADER_SIZE + positions.length * POINTER_SIZE;
+    }
+
+    return size + ARRAY_HEADER_SIZE + this.sortedTokens.length * POINTER_SIZE;
+  }
+
+  /**
+   * 색인 통계
+   */
+  public getStats() {
+    return {
+      leaves: this.leaves.length,
+      tokens: this.postings.size
+    };
+  }
+}
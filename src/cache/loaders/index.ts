@@ -0,0 +1,93 @@
+/**
+ * Source Loader Registry - 소스 형식별 로더 등록/선택
+ * 모든 로더는 같은 CacheData 트리를 생성하므로 조회/색인/리소스/웹 UI는 형식과 무관하게 동작
+ */
+
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { SourceFormat } from '../../types.js';
+import { jsonLoader, json5Loader, jsoncLoader } from './json.js';
+import { yamlLoader } from './yaml.js';
+import { ndjsonLoader } from './ndjson.js';
+import { tomlLoader } from './toml.js';
+import { xmlQueryMapLoader } from './xml-querymap.js';
+
+// 파싱 컨텍스트
+export interface LoaderContext {
+  fileName: string; // 오류 메시지/쿼리맵 모듈 코드에 사용 (원격 소스는 URL 경로의 파일명)
+  idField?: string; // NDJSON 레코드 키로 사용할 필드
+}
+
+export interface SourceLoader {
+  format: SourceFormat;
+  extensions: string[]; // 소문자, 점 포함 (예: '.yaml')
+  // 파싱 결과는 형식마다 다르므로 unknown으로 반환하고, 객체인지는 JsonCache가 확인
+  parse: (content: string, context: LoaderContext) => unknown;
+  parseStream?: (path: string) => Promise<unknown>; // 대용량 파일 점진적 파싱 (streaming 옵션)
+}
+
+const loaders: Map<SourceFormat, SourceLoader> = new Map();
+
+/**
+ * 로더 등록 (같은 형식은 교체)
+ */
+export function registerLoader(loader: SourceLoader): void {
+  loaders.set(loader.format, loader);
+}
+
+/**
+ * 형식에 해당하는 로더 반환
+ */
+export function getLoader(format: SourceFormat): SourceLoader {
+  const loader = loaders.get(format);
+  if (!loader) {
+    throw new Error(`지원하지 않는 소스 형식입니다: ${format}`);
+  }
+  return loader;
+}
+
+/**
+ * 파일 하나를 형식별 로더로 파싱 (streaming 옵션은 parseStream을 지원하는 형식만 적용)
+ */
+export async function parseSourceFile(
+  format: SourceFormat,
+  path: string,
+  options: { streaming?: boolean; idField?: string } = {}
+): Promise<unknown> {
+  const loader = getLoader(format);
+
+  if (options.streaming && loader.parseStream) {
+    return loader.parseStream(path);
+  }
+
+  return loader.parse(readFileSync(path, 'utf-8'), { fileName: basename(path), idField: options.idField });
+}
+
+/**
+ * 확장자로 로더 찾기
+ */
+export function findLoaderByExtension(filePath: string): SourceLoader | undefined {
+  const extension = extname(filePath).toLowerCase();
+  for (const loader of loaders.values()) {
+    if (loader.extensions.includes(extension)) {
+      return loader;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 파일 경로로 소스 형식 판별 (알 수 없는 확장자는 JSON으로 취급)
+ */
+export function detectFormat(path: string): SourceFormat {
+  return findLoaderByExtension(path)?.format ?? 'json';
+}
+
+/**
+ * 지원하는 전체 확장자 목록
+ */
+export function getSupportedExtensions(): string[] {
+  return Array.from(loaders.values()).flatMap(loader => loader.extensions);
+}
+
+[jsonLoader, json5Loader, jsoncLoader, yamlLoader, ndjsonLoader, tomlLoader, xmlQueryMapLoader].forEach(registerLoader);
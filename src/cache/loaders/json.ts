@@ -0,0 +1,50 @@
+/**
+ * JSON Loaders - 표준 JSON 및 주석/후행 쉼표를 허용하는 JSON5/JSONC
+ */
+
+import { createReadStream } from 'fs';
+import JSON5 from 'json5';
+import { StreamingJsonParser } from '../StreamingJsonParser.js';
+import type { SourceLoader } from './index.js';
+
+// 스트리밍 모드 청크 크기 (1MB)
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * 파일을 청크 단위로 읽어 점진적으로 파싱
+ * 청크 사이마다 이벤트 루프에 제어를 양보하여 stdio/웹 요청이 멈추지 않도록 함
+ */
+async function parseStream(path: string): Promise<any> {
+  const parser = new StreamingJsonParser();
+  const stream = createReadStream(path, {
+    encoding: 'utf-8',
+    highWaterMark: STREAM_CHUNK_SIZE
+  });
+
+  for await (const chunk of stream) {
+    parser.write(chunk as string);
+    await new Promise<void>(resolve => setImmediate(resolve));
+  }
+
+  return parser.end();
+}
+
+export const jsonLoader: SourceLoader = {
+  format: 'json',
+  extensions: ['.json'],
+  parse: (content) => JSON.parse(content),
+  parseStream
+};
+
+export const json5Loader: SourceLoader = {
+  format: 'json5',
+  extensions: ['.json5'],
+  parse: (content) => JSON5.parse(content)
+};
+
+// JSONC(주석 포함 JSON)는 JSON5의 부분집합이므로 같은 파서 사용
+export const jsoncLoader: SourceLoader = {
+  format: 'jsonc',
+  extensions: ['.jsonc'],
+  parse: (content) => JSON5.parse(content)
+};
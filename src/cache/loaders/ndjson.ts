@@ -0,0 +1,40 @@
+/**
+ * NDJSON Loader - 한 줄에 JSON 값 하나 (로그 등)
+ * 각 줄은 idField 값(없으면 1부터 시작하는 줄 번호)을 키로 최상위에 저장
+ */
+
+import { CacheData } from '../../types.js';
+import type { SourceLoader } from './index.js';
+
+/**
+ * NDJSON 텍스트 파싱
+ * 빈 줄은 건너뛰며, 같은 id가 여러 번 나오면 나중 줄이 우선
+ */
+export function parseNdjson(content: string, idField?: string): CacheData {
+  const data: CacheData = {};
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return;
+
+    const lineNumber = index + 1;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${lineNumber}번째 줄: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const id = idField && record !== null && typeof record === 'object' ? record[idField] : undefined;
+    const key = id !== undefined && id !== null && id !== '' ? String(id) : String(lineNumber);
+    data[key] = record;
+  });
+
+  return data;
+}
+
+export const ndjsonLoader: SourceLoader = {
+  format: 'ndjson',
+  extensions: ['.ndjson', '.jsonl'],
+  parse: (content, { idField }) => parseNdjson(content, idField)
+};
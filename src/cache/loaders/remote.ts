@@ -0,0 +1,81 @@
+/**
+ * Remote Source - HTTP(S) 소스 조회
+ * ETag/Last-Modified 조건부 요청으로 변경되지 않은 응답(304)은 다시 파싱하지 않도록 함
+ */
+
+import { basename } from 'path';
+import { RemoteSourceOptions } from '../../types.js';
+
+// 기본 요청 제한 시간 (ms)
+export const DEFAULT_REMOTE_TIMEOUT_MS = 10000;
+
+// 조건부 요청에 사용할 이전 응답의 검증자
+export interface RemoteValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface RemoteFetchResult {
+  notModified: boolean;
+  status: number;
+  content: string; // notModified면 빈 문자열
+  validators: RemoteValidators;
+}
+
+/**
+ * URL 경로의 파일명 (형식 판별/오류 메시지용, 없으면 호스트명)
+ */
+export function getRemoteFileName(url: string): string {
+  const parsed = new URL(url);
+  return basename(parsed.pathname) || parsed.hostname;
+}
+
+/**
+ * 원격 소스 조회
+ * 검증자가 있으면 If-None-Match/If-Modified-Since 헤더를 추가하며, 2xx/304 외의 응답은 예외 발생
+ */
+export async function fetchRemoteSource(
+  options: RemoteSourceOptions,
+  validators: RemoteValidators = {}
+): Promise<RemoteFetchResult> {
+  const timeout = options.timeout ?? DEFAULT_REMOTE_TIMEOUT_MS;
+  const headers: Record<string, string> = { ...(options.headers || {}) };
+
+  if (validators.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(options.url, {
+      headers,
+      signal: AbortSignal.timeout(timeout)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`요청 시간 초과 (${timeout}ms)`);
+    }
+    throw error;
+  }
+
+  if (response.status === 304) {
+    return { notModified: true, status: 304, content: '', validators };
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+
+  return {
+    notModified: false,
+    status: response.status,
+    content: await response.text(),
+    validators: {
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined
+    }
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Source Files - 소스 경로(파일, 디렉토리, 글롭)를 실제 파일 목록으로 확장
+ * 디렉토리/글롭 소스는 일치한 파일을 하나의 논리 소스로 병합하며 FileWatcher도 같은 규칙으로 이벤트를 매칭
+ */
+
+import { existsSync, readdirSync, statSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { SourceFormat } from '../../types.js';
+import { createGlobMatcher, expandGlob, isGlob } from '../../utils/glob.js';
+import { getLoader, getSupportedExtensions } from './index.js';
+
+export interface ResolvedSourceFiles {
+  multiFile: boolean; // 디렉토리 또는 글롭 소스 여부
+  base: string; // 파일 소스는 파일 경로, 디렉토리/글롭 소스는 기준 디렉토리
+  files: string[];
+}
+
+/**
+ * 디렉토리 또는 글롭 소스인지 확인
+ */
+export function isMultiFileSource(path: string): boolean {
+  return isGlob(path) || (existsSync(path) && statSync(path).isDirectory());
+}
+
+/**
+ * 소스에 포함할 수 있는 파일 확장자 (format 지정 시 해당 형식만)
+ */
+function getSourceExtensions(format?: SourceFormat): string[] {
+  return format ? getLoader(format).extensions : getSupportedExtensions();
+}
+
+/**
+ * 소스 경로에 해당하는 파일 목록
+ * - 파일: 그대로
+ * - 디렉토리: 바로 아래의 지원 형식 파일 (이름순, 하위 디렉토리는 글롭으로 지정)
+ * - 글롭: 일치하는 파일 중 지원 형식 파일 (경로순)
+ */
+export function resolveSourceFiles(path: string, format?: SourceFormat): ResolvedSourceFiles {
+  if (!isMultiFileSource(path)) {
+    return { multiFile: false, base: path, files: [path] };
+  }
+
+  const extensions = getSourceExtensions(format);
+  const isSourceFile = (filePath: string) => extensions.includes(extname(filePath).toLowerCase());
+
+  if (isGlob(path)) {
+    return {
+      multiFile: true,
+      base: createGlobMatcher(path).base,
+      files: expandGlob(path).filter(isSourceFile)
+    };
+  }
+
+  const base = resolve(path);
+  const files = readdirSync(base)
+    .sort()
+    .map(name => join(base, name))
+    .filter(filePath => isSourceFile(filePath) && statSync(filePath).isFile());
+
+  return { multiFile: true, base, files };
+}
+
+/**
+ * 디렉토리/글롭 소스의 감시 대상 디렉토리
+ */
+export function getSourceWatchBase(path: string): string {
+  return isGlob(path) ? createGlobMatcher(path).base : resolve(path);
+}
+
+/**
+ * 변경된 파일이 디렉토리/글롭 소스에 속하는지 확인
+ */
+export function matchesSourceFile(path: string, filePath: string, format?: SourceFormat): boolean {
+  if (!getSourceExtensions(format).includes(extname(filePath).toLowerCase())) {
+    return false;
+  }
+
+  if (isGlob(path)) {
+    return createGlobMatcher(path).test(filePath);
+  }
+
+  return dirname(resolve(filePath)) === resolve(path);
+}
@@ -0,0 +1,13 @@
+/**
+ * TOML Loader
+ */
+
+import { parse } from 'smol-toml';
+import type { SourceLoader } from './index.js';
+
+export const tomlLoader: SourceLoader = {
+  format: 'toml',
+  extensions: ['.toml'],
+  // 파서가 프로토타입 없는 객체와 날짜 객체를 반환하므로 JSON 호환 일반 객체로 변환
+  parse: (content) => JSON.parse(JSON.stringify(parse(content)))
+};
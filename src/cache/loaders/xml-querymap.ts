@@ -0,0 +1,87 @@
+/**
+ * XML QueryMap Loader - iBATIS/glue_sql 쿼리맵 XML을 CacheData로 변환
+ * xml_to_json_converter.py와 같은 구조를 생성하여 변환 단계 없이 바로 로드
+ * { 모듈코드: { 쿼리ID: { id, desc, file_name, query_map_desc, query } } }
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { CacheData } from '../../types.js';
+import type { SourceLoader } from './index.js';
+
+// 쿼리맵 파일 확장자
+export const QUERYMAP_EXTENSIONS = ['.glue_sql', '.xml'];
+
+const CDATA_PROP = '__cdata';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  cdataPropName: CDATA_PROP,
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (tagName) => tagName === 'query'
+});
+
+/**
+ * 파일명에서 모듈 코드 추출 (앞 3자리 소문자, 예: B17R2010-query.glue_sql → b17)
+ */
+export function extractModuleCode(fileName: string): string {
+  return fileName.length >= 3 ? fileName.substring(0, 3).toLowerCase() : 'unknown';
+}
+
+/**
+ * 쿼리 요소의 SQL 텍스트 추출 (CDATA 우선, 없으면 본문 텍스트)
+ */
+function extractQueryText(node: any): string {
+  if (typeof node === 'string') {
+    return node;
+  }
+
+  const cdata = node?.[CDATA_PROP];
+  if (cdata !== undefined) {
+    return Array.isArray(cdata) ? cdata.join('') : String(cdata);
+  }
+
+  const text = node?.['#text'];
+  return text !== undefined ? String(text) : '';
+}
+
+/**
+ * 쿼리맵 XML 하나를 파싱
+ * 변환기 출력과 동일하게 SQL은 앞뒤 공백을 정리한 뒤 CDATA 블록으로 감싸서 저장
+ */
+export function parseQueryMap(content: string, fileName: string): CacheData {
+  // 두 번째 인자 true: 잘못된 XML이면 예외 발생
+  const document = parser.parse(content, true);
+  const root = document?.queryMap;
+
+  if (!root || typeof root !== 'object') {
+    throw new Error(`queryMap 루트 요소가 없습니다: ${fileName}`);
+  }
+
+  const moduleCode = extractModuleCode(fileName);
+  const queryMapDesc = typeof root.desc === 'string' ? root.desc : '';
+  const section: Record<string, any> = {};
+
+  for (const query of root.query || []) {
+    const id = typeof query?.id === 'string' ? query.id : '';
+    const cleanedQuery = extractQueryText(query).trim();
+
+    section[id] = {
+      id,
+      desc: typeof query?.desc === 'string' ? query.desc : '',
+      file_name: fileName,
+      query_map_desc: queryMapDesc,
+      query: `<![CDATA[\n${cleanedQuery}\n         ]]>`
+    };
+  }
+
+  return { [moduleCode]: section };
+}
+
+export const xmlQueryMapLoader: SourceLoader = {
+  format: 'xml-querymap',
+  extensions: QUERYMAP_EXTENSIONS,
+  parse: (content, { fileName }) => parseQueryMap(content, fileName)
+};
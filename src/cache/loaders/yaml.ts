@@ -0,0 +1,13 @@
+/**
+ * YAML Loader
+ */
+
+import yaml from 'js-yaml';
+import type { SourceLoader } from './index.js';
+
+export const yamlLoader: SourceLoader = {
+  format: 'yaml',
+  extensions: ['.yaml', '.yml'],
+  // CORE_SCHEMA: 날짜/바이너리 등 JSON에 없는 타입은 문자열로 유지
+  parse: (content) => yaml.load(content, { schema: yaml.CORE_SCHEMA })
+};
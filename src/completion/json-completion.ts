@@ -0,0 +1,169 @@
+/**
+ * MCP 자동완성(completion/complete) 구현
+ * source 인자는 로드된 소스 이름, key 인자는 접두사 검색 후 유사 키로 보충
+ * 이미 채워진 source가 있으면 그 소스로 범위를 좁히고, 조회 횟수(CacheStats.hits)가 많은 소스의 결과를 먼저 반환
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+
+const completionLogger = logger.withSource('COMPLETION');
+
+// completion/complete 응답 최대 개수 (MCP 스펙 제한)
+const MAX_COMPLETION_VALUES = 100;
+// 접두사 일치가 부족할 때 보충할 유사 키의 최소 점수
+const FUZZY_MIN_SCORE = 0.3;
+
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+interface KeyCandidate {
+  value: string;
+  hits: number; // 키가 속한 소스의 조회 횟수
+  prefix: boolean; // 접두사 일치 여부 (false면 유사 키)
+  score: number;
+  order: number; // 소스 안에서의 순서
+}
+
+export class JsonCompletionHandler {
+  private cacheManager: CacheManager;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * 인자 자동완성
+   * - ref/resource: json://{source}/{key}, json://{key} 템플릿의 source/key
+   * - ref/prompt: 프롬프트 또는 query_json 같은 Tool의 source/key 인자
+   * @param context 이미 채워진 다른 인자 값 (예: { source: 'queries' })
+   */
+  public complete(
+    ref: CompletionReference,
+    argument: { name: string; value: string },
+    context: Record<string, string> = {}
+  ): CompletionResult {
+    let source = context.source;
+
+    if (ref.type === 'ref/resource') {
+      const match = ref.uri.match(/^json:\/\/(?:([^/]+)\/)?\{key\}$/);
+      if (!match) {
+        return this.toResult([], 0);
+      }
+      if (match[1] && match[1] !== '{source}') {
+        source = match[1];
+      }
+    }
+
+    let result: CompletionResult;
+    if (argument.name === 'source') {
+      result = this.completeSources(argument.value);
+    } else if (argument.name === 'key') {
+      result = this.completeKeys(argument.value, source);
+    } else {
+      result = this.toResult([], 0);
+    }
+
+    completionLogger.debug('자동완성', {
+      ref: ref.type === 'ref/resource' ? ref.uri : ref.name,
+      argument: argument.name,
+      value: argument.value,
+      source,
+      count: result.values.length,
+      total: result.total
+    });
+
+    return result;
+  }
+
+  /**
+   * 소스 이름 자동완성 (접두사 일치 우선, 그다음 포함, 각각 조회 횟수 순)
+   */
+  private completeSources(value: string): CompletionResult {
+    const valueLower = value.toLowerCase();
+
+    const matched = this.cacheManager.getLoadedSources()
+      .filter(name => name.toLowerCase().includes(valueLower))
+      .map(name => ({
+        name,
+        prefix: name.toLowerCase().startsWith(valueLower),
+        hits: this.getSourceHits(name)
+      }))
+      .sort((a, b) =>
+        Number(b.prefix) - Number(a.prefix) || b.hits - a.hits || a.name.localeCompare(b.name)
+      );
+
+    return this.toResult(matched.map(entry => entry.name), matched.length);
+  }
+
+  /**
+   * 키 자동완성
+   * 접두사 일치 키를 먼저, 모자라면 유사 키로 채움 (같은 종류 안에서는 소스 조회 횟수 순)
+   * source가 로드된 소스가 아니면 전체 소스에서 찾음
+   */
+  private completeKeys(value: string, source?: string): CompletionResult {
+    const loaded = this.cacheManager.getLoadedSources();
+    const scope = source && loaded.includes(source) ? source : undefined;
+    const candidates: KeyCandidate[] = [];
+    // 소스별 limit을 넘어 반환하지 못한 접두사 일치 수
+    let omitted = 0;
+
+    for (const sourceName of scope ? [scope] : loaded) {
+      const cache = this.cacheManager.getCache(sourceName);
+      if (!cache) continue;
+
+      const hits = this.getSourceHits(sourceName);
+      const { keys, total: matched } = cache.completeKeys(value, MAX_COMPLETION_VALUES);
+      omitted += matched - keys.length;
+      keys.forEach((key, order) => candidates.push({ value: key, hits, prefix: true, score: 1, order }));
+    }
+
+    if (value && omitted === 0 && candidates.length < MAX_COMPLETION_VALUES) {
+      const prefixed = new Set(candidates.map(candidate => candidate.value));
+
+      for (const suggestion of this.cacheManager.suggestKeys(value, scope, MAX_COMPLETION_VALUES, FUZZY_MIN_SCORE)) {
+        if (prefixed.has(suggestion.key)) continue;
+
+        candidates.push({
+          value: suggestion.key,
+          hits: this.getSourceHits(suggestion.source),
+          prefix: false,
+          score: suggestion.score,
+          order: 0
+        });
+      }
+    }
+
+    candidates.sort((a, b) =>
+      Number(b.prefix) - Number(a.prefix) ||
+      b.hits - a.hits ||
+      b.score - a.score ||
+      a.order - b.order
+    );
+
+    const values = Array.from(new Set(candidates.map(candidate => candidate.value)));
+    return this.toResult(values, values.length + omitted);
+  }
+
+  /**
+   * 소스의 누적 조회 횟수 (소스가 없으면 0)
+   */
+  private getSourceHits(source: string): number {
+    return this.cacheManager.getCache(source)?.getStats().hits ?? 0;
+  }
+
+  /**
+   * 응답 형식으로 변환 (최대 MAX_COMPLETION_VALUES개)
+   */
+  private toResult(values: string[], total: number): CompletionResult {
+    const limited = values.slice(0, MAX_COMPLETION_VALUES);
+    return { values: limited, total, hasMore: total > limited.length };
+  }
+}
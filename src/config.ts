@@ -5,7 +5,10 @@
 
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { CacheConfig, JsonSource, ConfigError } from './types.js';
+import { CacheConfig, JsonSource, PromptDefinition, ConfigError, SOURCE_FORMATS, SOURCE_MERGE_STRATEGIES } from './types.js';
+import { globBase, isGlob } from './utils/glob.js';
+import { detectFormat } from './cache/loaders/index.js';
+import { isMultiFileSource } from './cache/loaders/source-files.js';
 
 export class ConfigManager {
   private static instance: ConfigManager;
@@ -100,6 +103,38 @@ export class ConfigManager {
     return 2; // 기본값
   }
 
+  /**
+   * 환경변수에서 파일 크기 제한(MB) 읽기
+   */
+  private getMaxFileSizeFromEnv(): number | undefined {
+    const maxFileSize = process.env.MAX_FILE_SIZE;
+    if (maxFileSize) {
+      const parsed = parseInt(maxFileSize, 10);
+      if (!isNaN(parsed) && parsed > 0) {
+        return parsed;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 환경변수에서 스트리밍 모드 여부 읽기
+   */
+  private getStreamingFromEnv(): boolean | undefined {
+    const streaming = process.env.JSON_STREAMING;
+    if (streaming === undefined) {
+      return undefined;
+    }
+    return streaming === 'true';
+  }
+
+  /**
+   * 환경변수에서 디스크 스냅샷 디렉토리 읽기
+   */
+  private getSnapshotDirFromEnv(): string | undefined {
+    return process.env.JSON_SNAPSHOT_DIR || undefined;
+  }
+
   /**
    * JSON_SOURCES 환경변수 파싱 (name:path;name:path)
    */
@@ -142,7 +177,10 @@ export class ConfigManager {
       options: {
         autoReload: true,
         logLevel: 'info',
-        maxDepth: this.getMaxDepthFromEnv()
+        maxDepth: this.getMaxDepthFromEnv(),
+        maxFileSize: this.getMaxFileSizeFromEnv(),
+        streaming: this.getStreamingFromEnv(),
+        snapshotDir: this.getSnapshotDirFromEnv()
       }
     };
   }
@@ -173,7 +211,10 @@ export class ConfigManager {
       options: {
         autoReload: true,
         logLevel: 'info',
-        maxDepth: this.getMaxDepthFromEnv()
+        maxDepth: this.getMaxDepthFromEnv(),
+        maxFileSize: this.getMaxFileSizeFromEnv(),
+        streaming: this.getStreamingFromEnv(),
+        snapshotDir: this.getSnapshotDirFromEnv()
       }
     };
   }
@@ -196,7 +237,10 @@ export class ConfigManager {
       options: {
         autoReload: true,
         logLevel: 'info',
-        maxDepth: this.getMaxDepthFromEnv()
+        maxDepth: this.getMaxDepthFromEnv(),
+        maxFileSize: this.getMaxFileSizeFromEnv(),
+        streaming: this.getStreamingFromEnv(),
+        snapshotDir: this.getSnapshotDirFromEnv()
       }
     };
   }
@@ -205,8 +249,10 @@ export class ConfigManager {
    * 소스 이름 자동 생성
    */
   private generateSourceName(filePath: string, index: number): string {
-    const fileName = filePath.split(/[\\/]/).pop() || `file${index}`;
-    const baseName = fileName.replace(/\.(json|js|ts)$/, '');
+    // 글롭 경로는 기준 디렉토리 이름 사용 (예: ./querymaps/**/*.json → querymaps)
+    const namePath = isGlob(filePath) ? globBase(filePath) : filePath;
+    const fileName = namePath.split(/[\\/]/).filter(Boolean).pop() || `file${index}`;
+    const baseName = fileName.replace(/\.(json|json5|jsonc|ya?ml|ndjson|jsonl|toml|glue_sql|xml|js|ts)$/i, '');
 
     // 영문과 숫자만 남기고 소문자로 변환
     const cleanName = baseName.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
@@ -256,7 +302,10 @@ export class ConfigManager {
         autoReload: true,
         cacheSize: 1000,
         logLevel: 'info',
-        maxDepth: this.getMaxDepthFromEnv()
+        maxDepth: this.getMaxDepthFromEnv(),
+        maxFileSize: this.getMaxFileSizeFromEnv(),
+        streaming: this.getStreamingFromEnv(),
+        snapshotDir: this.getSnapshotDirFromEnv()
       }
     };
   }
@@ -277,18 +326,44 @@ export class ConfigManager {
     let primaryCount = 0;
 
     sourceEntries.forEach(([name, source]) => {
-      if (!source.name || !source.path) {
+      if (!source.name || (!source.path && !source.url)) {
         throw new ConfigError(
-          `소스 ${name}에 name 또는 path가 없습니다`,
+          `소스 ${name}에 name 또는 path(url)가 없습니다`,
           'INVALID_SOURCE'
         );
       }
 
+      if (source.url !== undefined) {
+        this.validateRemoteSource(name, source);
+      }
+
+      if (source.format !== undefined && !SOURCE_FORMATS.includes(source.format)) {
+        throw new ConfigError(
+          `소스 ${name}의 format이 올바르지 않습니다: ${source.format} (${SOURCE_FORMATS.join(', ')} 중 하나)`,
+          'INVALID_SOURCE'
+        );
+      }
+
+      if (source.mergeStrategy !== undefined && !SOURCE_MERGE_STRATEGIES.includes(source.mergeStrategy)) {
+        throw new ConfigError(
+          `소스 ${name}의 mergeStrategy가 올바르지 않습니다: ${source.mergeStrategy} (${SOURCE_MERGE_STRATEGIES.join(', ')} 중 하나)`,
+          'INVALID_SOURCE'
+        );
+      }
+
+      if (source.writable) {
+        this.validateWritableSource(name, source);
+      }
+
       if (source.primary) {
         primaryCount++;
       }
     });
 
+    if (config.prompts !== undefined) {
+      this.validatePrompts(config.prompts);
+    }
+
     // primary 소스가 없으면 첫 번째 소스를 primary로 설정
     if (primaryCount === 0 && sourceEntries.length > 0) {
       const [firstName] = sourceEntries[0];
@@ -296,6 +371,94 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * 프롬프트 설정 검증 (template 필수, 인자 이름은 영문/숫자/밑줄이며 중복 불가)
+   */
+  private validatePrompts(prompts: Record<string, PromptDefinition>): void {
+    if (!prompts || typeof prompts !== 'object' || Array.isArray(prompts)) {
+      throw new ConfigError('prompts는 이름 → 정의 객체여야 합니다', 'INVALID_PROMPT');
+    }
+
+    for (const [name, prompt] of Object.entries(prompts)) {
+      const template = prompt?.template;
+      const validTemplate = typeof template === 'string' ||
+        (Array.isArray(template) && template.every(line => typeof line === 'string'));
+
+      if (!validTemplate) {
+        throw new ConfigError(
+          `프롬프트 ${name}에 template(문자열 또는 문자열 배열)이 없습니다`,
+          'INVALID_PROMPT'
+        );
+      }
+
+      const seen = new Set<string>();
+      for (const argument of prompt.arguments ?? []) {
+        if (typeof argument?.name !== 'string' || !/^\w+$/.test(argument.name) || seen.has(argument.name)) {
+          throw new ConfigError(
+            `프롬프트 ${name}의 인자 이름이 올바르지 않습니다: ${argument?.name}`,
+            'INVALID_PROMPT'
+          );
+        }
+        seen.add(argument.name);
+      }
+    }
+  }
+
+  /**
+   * 쓰기 가능 소스 설정 검증 (로컬 단일 JSON 파일만 허용)
+   * 다른 형식은 주석/서식을 보존하며 다시 쓸 수 없으므로 제외
+   */
+  private validateWritableSource(name: string, source: JsonSource): void {
+    if (source.url !== undefined || isMultiFileSource(source.path)) {
+      throw new ConfigError(
+        `소스 ${name}: writable은 로컬 단일 파일 소스에만 사용할 수 있습니다`,
+        'INVALID_SOURCE'
+      );
+    }
+
+    const format = source.format ?? detectFormat(source.path);
+    if (format !== 'json') {
+      throw new ConfigError(
+        `소스 ${name}: writable은 json 형식에만 사용할 수 있습니다 (현재: ${format})`,
+        'INVALID_SOURCE'
+      );
+    }
+  }
+
+  /**
+   * 원격 소스 설정 검증 (http/https URL, 양수 pollInterval/timeout)
+   * path가 없으면 url을 경로로 사용
+   */
+  private validateRemoteSource(name: string, source: JsonSource): void {
+    let protocol: string;
+    try {
+      protocol = new URL(source.url as string).protocol;
+    } catch {
+      protocol = '';
+    }
+
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new ConfigError(
+        `소스 ${name}의 url이 올바르지 않습니다: ${source.url} (http 또는 https URL)`,
+        'INVALID_SOURCE'
+      );
+    }
+
+    for (const field of ['pollInterval', 'timeout'] as const) {
+      const value = source[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+        throw new ConfigError(
+          `소스 ${name}의 ${field}는 양수(ms)여야 합니다: ${value}`,
+          'INVALID_SOURCE'
+        );
+      }
+    }
+
+    if (!source.path) {
+      source.path = source.url as string;
+    }
+  }
+
   /**
    * 웹 서버 설정 반환
    */
@@ -309,9 +472,28 @@ export class ConfigManager {
     return {
       enabled: process.env.WEB_ENABLED !== 'false',
       port: portValue,
-      host: process.env.WEB_HOST || 'localhost'
+      host: process.env.WEB_HOST || 'localhost',
+      mcp: {
+        enabled: process.env.MCP_HTTP_ENABLED === 'true',
+        path: this.getMcpPathFromEnv(),
+        allowedOrigins: (process.env.MCP_ALLOWED_ORIGINS || '')
+          .split(',')
+          .map(origin => origin.trim())
+          .filter(origin => origin.length > 0)
+      }
     };
   }
+
+  /**
+   * 환경변수에서 MCP HTTP 엔드포인트 경로 읽기 (앞의 / 보정, 끝의 / 제거, 기본값 /mcp)
+   */
+  private getMcpPathFromEnv(): string {
+    const path = (process.env.MCP_HTTP_PATH || '').trim().replace(/\/+$/, '');
+    if (!path) {
+      return '/mcp';
+    }
+    return path.startsWith('/') ? path : `/${path}`;
+  }
 }
 
 // 싱글톤 인스턴스 export
@@ -10,35 +10,101 @@ import {
   ErrorCode,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  CompleteRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   McpError
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { CacheManager } from './cache/CacheManager.js';
 import { configManager } from './config.js';
-import { logger } from './utils/logger.js';
+import { logger, SourceLogger } from './utils/logger.js';
 import { errorHandler, ErrorContext } from './utils/errors.js';
 import { QueryJsonTool, createQueryJsonTool } from './tools/query.js';
+import { QueryJsonBatchTool, createQueryJsonBatchTool } from './tools/query-batch.js';
 import { ListJsonKeysTool, createListJsonKeysTool } from './tools/list-keys.js';
 import { ListSourcesTool, createListSourcesTool } from './tools/list-sources.js';
+import { SearchJsonKeysTool, createSearchJsonKeysTool } from './tools/search-keys.js';
+import { SearchJsonValuesTool, createSearchJsonValuesTool } from './tools/search-values.js';
+import { AnalyzeQueryTool, createAnalyzeQueryTool } from './tools/analyze-query.js';
+import { FindQueriesByTableTool, createFindQueriesByTableTool } from './tools/find-queries-by-table.js';
+import { DiffSourceTool, createDiffSourceTool } from './tools/diff-source.js';
+import { CompareSourcesTool, createCompareSourcesTool } from './tools/compare-sources.js';
+import { SetJsonValueTool, createSetJsonValueTool } from './tools/set-value.js';
+import { PatchJsonTool, createPatchJsonTool } from './tools/patch-json.js';
+import { DeleteJsonKeyTool, createDeleteJsonKeyTool } from './tools/delete-key.js';
 import { WebServer } from './web/server.js';
 import { FileWatcher } from './watcher/FileWatcher.js';
+import { RemotePoller } from './watcher/RemotePoller.js';
 import { JsonResourceHandler } from './resources/json-resource.js';
+import { JsonPromptHandler } from './prompts/json-prompt.js';
+import { JsonCompletionHandler } from './completion/json-completion.js';
+import { McpHttpEndpoint } from './web/mcp-http.js';
+
+// MCP 연결별 상태 (stdio 하나와 HTTP 세션마다 하나)
+interface McpConnection {
+  server: Server;
+  resourceHandler: JsonResourceHandler; // Resource 구독은 연결마다 따로 관리
+  resourceSources: string[]; // 마지막으로 알린 Resource 목록의 소스 (바뀌면 list_changed 알림)
+  logger: SourceLogger;
+}
 
 class MCPCacheServer {
-  private server: Server;
   private cacheManager: CacheManager;
   private queryTool: QueryJsonTool;
+  private batchTool: QueryJsonBatchTool;
   private keysTool: ListJsonKeysTool;
   private sourcesTool: ListSourcesTool;
+  private searchKeysTool: SearchJsonKeysTool;
+  private searchValuesTool: SearchJsonValuesTool;
+  private analyzeTool: AnalyzeQueryTool;
+  private tableTool: FindQueriesByTableTool;
+  private diffTool: DiffSourceTool;
+  private compareTool: CompareSourcesTool;
+  private setValueTool: SetJsonValueTool;
+  private patchTool: PatchJsonTool;
+  private deleteKeyTool: DeleteJsonKeyTool;
   private webServer?: WebServer;
   private fileWatcher?: FileWatcher;
-  private resourceHandler?: JsonResourceHandler;
+  private remotePoller?: RemotePoller;
+  private promptHandler?: JsonPromptHandler;
+  private completionHandler?: JsonCompletionHandler;
+  private mcpEndpoint?: McpHttpEndpoint;
+  // stdio 연결과 열려 있는 모든 MCP 연결 (HTTP 세션 포함)
+  private stdio: McpConnection;
+  private connections: Set<McpConnection> = new Set();
   private serverLogger = logger.withSource('MCP_SERVER');
   public logger = logger;
 
   constructor() {
-    this.server = new Server(
+    this.cacheManager = new CacheManager();
+    this.queryTool = createQueryJsonTool(this.cacheManager);
+    this.batchTool = createQueryJsonBatchTool(this.cacheManager);
+    this.keysTool = createListJsonKeysTool(this.cacheManager);
+    this.sourcesTool = createListSourcesTool(this.cacheManager);
+    this.searchKeysTool = createSearchJsonKeysTool(this.cacheManager);
+    this.searchValuesTool = createSearchJsonValuesTool(this.cacheManager);
+    this.analyzeTool = createAnalyzeQueryTool(this.cacheManager);
+    this.tableTool = createFindQueriesByTableTool(this.cacheManager);
+    this.diffTool = createDiffSourceTool(this.cacheManager);
+    this.compareTool = createCompareSourcesTool(this.cacheManager);
+    this.setValueTool = createSetJsonValueTool(this.cacheManager);
+    this.patchTool = createPatchJsonTool(this.cacheManager);
+    this.deleteKeyTool = createDeleteJsonKeyTool(this.cacheManager);
+
+    this.stdio = this.createConnection('MCP_SERVER');
+  }
+
+  /**
+   * MCP 연결 생성 (Server 인스턴스마다 핸들러 등록, 연결이 닫히면 알림 대상에서 제외)
+   * @param logSource 요청 핸들러 로그 소스 (stdio는 MCP_SERVER, HTTP 세션은 MCP_SESSION:{ID})
+   */
+  private createConnection(logSource: string): McpConnection {
+    const server = new Server(
       {
         name: 'mcp-json-cache',
         version: '1.0.0',
@@ -46,49 +112,95 @@ class MCPCacheServer {
       {
         capabilities: {
           tools: {},
-          resources: {}
+          resources: {
+            subscribe: true,
+            listChanged: true
+          },
+          completions: {},
+          prompts: {}
         },
       }
     );
 
-    this.cacheManager = new CacheManager();
-    this.queryTool = createQueryJsonTool(this.cacheManager);
-    this.keysTool = createListJsonKeysTool(this.cacheManager);
-    this.sourcesTool = createListSourcesTool(this.cacheManager);
+    const connection: McpConnection = {
+      server,
+      resourceHandler: new JsonResourceHandler(this.cacheManager),
+      resourceSources: this.cacheManager.getLoadedSources(),
+      logger: logger.withSource(logSource)
+    };
 
-    this.setupHandlers();
+    this.setupHandlers(connection);
+    this.connections.add(connection);
+    server.onclose = () => {
+      this.connections.delete(connection);
+    };
+
+    return connection;
   }
 
   /**
    * MCP 요청 핸들러 설정
    */
-  private setupHandlers(): void {
+  private setupHandlers(connection: McpConnection): void {
+    const { server, resourceHandler } = connection;
+    const serverLogger = connection.logger;
+
     // Tool 목록 핸들러
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      this.serverLogger.debug('Tool 목록 요청');
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      serverLogger.debug('Tool 목록 요청');
 
       return {
         tools: [
           this.queryTool.getSchema(),
+          this.batchTool.getSchema(),
           this.keysTool.getSchema(),
-          this.sourcesTool.getSchema()
+          this.sourcesTool.getSchema(),
+          this.searchKeysTool.getSchema(),
+          this.searchValuesTool.getSchema(),
+          this.analyzeTool.getSchema(),
+          this.tableTool.getSchema(),
+          this.diffTool.getSchema(),
+          this.compareTool.getSchema(),
+          this.setValueTool.getSchema(),
+          this.patchTool.getSchema(),
+          this.deleteKeyTool.getSchema()
         ]
       };
     });
 
     // Tool 실행 핸들러
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
-      this.serverLogger.info('Tool 실행 요청', { tool: name, args });
+      serverLogger.info('Tool 실행 요청', { tool: name, args });
 
       try {
         switch (name) {
           case 'query_json':
             return await this.handleQueryJson(args);
+          case 'query_json_batch':
+            return await this.handleQueryJsonBatch(args);
           case 'list_json_keys':
             return await this.handleListJsonKeys(args);
           case 'list_sources':
             return await this.handleListSources(args);
+          case 'search_json_keys':
+            return await this.handleSearchJsonKeys(args);
+          case 'search_json_values':
+            return await this.handleSearchJsonValues(args);
+          case 'analyze_query':
+            return await this.handleAnalyzeQuery(args);
+          case 'find_queries_by_table':
+            return await this.handleFindQueriesByTable(args);
+          case 'diff_source':
+            return await this.handleDiffSource(args);
+          case 'compare_sources':
+            return await this.handleCompareSources(args);
+          case 'set_json_value':
+            return await this.handleSetJsonValue(args);
+          case 'patch_json':
+            return await this.handlePatchJson(args);
+          case 'delete_json_key':
+            return await this.handleDeleteJsonKey(args);
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -96,7 +208,7 @@ class MCPCacheServer {
             );
         }
       } catch (error) {
-        this.serverLogger.error('Tool 실행 실패', { tool: name, error });
+        serverLogger.error('Tool 실행 실패', { tool: name, error });
 
         if (error instanceof McpError) {
           throw error;
@@ -109,39 +221,92 @@ class MCPCacheServer {
       }
     });
 
-    // Resource 목록 핸들러
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      this.serverLogger.debug('Resource 목록 요청');
+    // Resource 목록 핸들러 (키마다 하나의 Resource, 커서 기반 페이지네이션)
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const cursor = request.params?.cursor;
+      serverLogger.debug('Resource 목록 요청', { cursor });
 
-      if (!this.resourceHandler) {
-        return { resources: [] };
+      try {
+        const page = resourceHandler.listResources(cursor);
+        return { resources: page.resources, nextCursor: page.nextCursor };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resource list failed: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
+    });
+
+    // Resource 템플릿 목록 핸들러
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      serverLogger.debug('Resource 템플릿 목록 요청');
 
-      const templates = this.resourceHandler.getResourceTemplates();
       return {
-        resources: templates.map(template => ({
-          uri: template.uriTemplate,
-          name: template.name,
-          description: template.description,
-          mimeType: template.mimeType
-        }))
+        resourceTemplates: resourceHandler.getResourceTemplates()
       };
     });
 
-    // Resource 읽기 핸들러
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
-      this.serverLogger.info('Resource 읽기 요청', { uri });
+    // Prompt 목록 핸들러
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      serverLogger.debug('Prompt 목록 요청');
+
+      return {
+        prompts: this.promptHandler?.listPrompts() ?? []
+      };
+    });
 
-      if (!this.resourceHandler) {
+    // Prompt 생성 핸들러
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      serverLogger.info('Prompt 요청', { name, args });
+
+      if (!this.promptHandler) {
         throw new McpError(
           ErrorCode.InternalError,
-          'Resource handler not initialized'
+          'Prompt handler not initialized'
         );
       }
 
       try {
-        const content = await this.resourceHandler.readResource(uri);
+        const prompt = this.promptHandler.getPrompt(name, args);
+        return {
+          description: prompt.description,
+          messages: [
+            {
+              role: 'user' as const,
+              content: { type: 'text' as const, text: prompt.text }
+            }
+          ]
+        };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Prompt failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+
+    // 인자 자동완성 핸들러 (Resource 템플릿, 프롬프트/Tool의 source와 key)
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument, context } = request.params;
+      serverLogger.debug('자동완성 요청', { ref, argument: argument.name });
+
+      if (!this.completionHandler) {
+        return { completion: { values: [], total: 0, hasMore: false } };
+      }
+
+      return {
+        completion: this.completionHandler.complete(ref, argument, context?.arguments)
+      };
+    });
+
+    // Resource 읽기 핸들러
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      serverLogger.info('Resource 읽기 요청', { uri });
+
+      try {
+        const content = await resourceHandler.readResource(uri);
         return {
           contents: [
             {
@@ -152,13 +317,60 @@ class MCPCacheServer {
           ]
         };
       } catch (error) {
-        this.serverLogger.error('Resource 읽기 실패', { uri, error });
+        serverLogger.error('Resource 읽기 실패', { uri, error });
         throw new McpError(
           ErrorCode.InternalError,
           `Resource read failed: ${error instanceof Error ? error.message : String(error)}`
         );
       }
     });
+
+    // Resource 구독 핸들러
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      serverLogger.info('Resource 구독 요청', { uri });
+
+      try {
+        resourceHandler.subscribe(uri);
+        return {};
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resource subscribe failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+
+    // Resource 구독 해제 핸들러
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      serverLogger.info('Resource 구독 해제 요청', { uri });
+
+      resourceHandler.unsubscribe(uri);
+      return {};
+    });
+  }
+
+  /**
+   * 소스 데이터가 바뀌면 연결마다 값이 바뀐 구독 Resource와 Resource 목록 변경을 클라이언트에 알림
+   */
+  private notifyResourceChanges(source: string): void {
+    const sources = this.cacheManager.getLoadedSources();
+
+    for (const connection of this.connections) {
+      for (const uri of connection.resourceHandler.collectUpdated(source)) {
+        connection.server.sendResourceUpdated({ uri }).catch(error => {
+          connection.logger.warn('Resource 변경 알림 실패', { uri, error });
+        });
+      }
+
+      if (sources.join('\n') !== connection.resourceSources.join('\n')) {
+        connection.resourceSources = sources;
+        connection.server.sendResourceListChanged().catch(error => {
+          connection.logger.warn('Resource 목록 변경 알림 실패', { error });
+        });
+      }
+    }
   }
 
   /**
@@ -195,6 +407,33 @@ class MCPCacheServer {
     }
   }
 
+  /**
+   * query_json_batch Tool 핸들러
+   */
+  private async handleQueryJsonBatch(args: any) {
+    try {
+      const result = await this.batchTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatBatchResult(result)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('일괄 조회 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '일괄 조회 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
   /**
    * list_json_keys Tool 핸들러
    */
@@ -262,24 +501,328 @@ class MCPCacheServer {
     }
   }
 
+  /**
+   * search_json_keys Tool 핸들러
+   */
+  private async handleSearchJsonKeys(args: any) {
+    try {
+      const result = await this.searchKeysTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatSearchKeysResult(result)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('유사 키 검색 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '유사 키 검색 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * search_json_values Tool 핸들러
+   */
+  private async handleSearchJsonValues(args: any) {
+    try {
+      const result = await this.searchValuesTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatSearchValuesResult(result)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('값 검색 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '값 검색 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * analyze_query Tool 핸들러
+   */
+  private async handleAnalyzeQuery(args: any) {
+    try {
+      const result = await this.analyzeTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatAnalyzeResult(result)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('쿼리 분석 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '쿼리 분석 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * find_queries_by_table Tool 핸들러
+   */
+  private async handleFindQueriesByTable(args: any) {
+    try {
+      const result = await this.tableTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatTableUsageResult(result)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('테이블 사용 쿼리 조회 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '테이블 사용 쿼리 조회 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * diff_source Tool 핸들러
+   */
+  private async handleDiffSource(args: any) {
+    try {
+      const result = await this.diffTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatDiffResult(result)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('변경 내역 조회 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '변경 내역 조회 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * compare_sources Tool 핸들러
+   */
+  private async handleCompareSources(args: any) {
+    try {
+      const result = await this.compareTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatCompareResult(result)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('소스 비교 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '소스 비교 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * set_json_value Tool 핸들러
+   */
+  private async handleSetJsonValue(args: any) {
+    try {
+      const result = await this.setValueTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatWriteResult(result, result.created ? `키 추가: ${result.key}` : `값 변경: ${result.key}`)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('값 설정 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '값 설정 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * patch_json Tool 핸들러
+   */
+  private async handlePatchJson(args: any) {
+    try {
+      const result = await this.patchTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatWriteResult(result, `패치 ${result.applied}개 연산 적용`)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('패치 적용 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '패치 적용 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
+  /**
+   * delete_json_key Tool 핸들러
+   */
+  private async handleDeleteJsonKey(args: any) {
+    try {
+      const result = await this.deleteKeyTool.execute(args);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatWriteResult(result, `키 삭제: ${result.key}`)
+          }
+        ]
+      };
+    } catch (error) {
+      this.serverLogger.error('키 삭제 실패', { error, args });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '키 삭제 중 오류가 발생했습니다.'
+          }
+        ]
+      };
+    }
+  }
+
   /**
    * 쿼리 결과 포맷팅
    */
   private formatQueryResult(result: any): string {
     if (!result.success) {
-      return `❌ 조회 실패: ${result.message}`;
+      const lines = [`❌ 조회 실패: ${result.message}`];
+
+      if (result.suggestions && result.suggestions.length > 0) {
+        lines.push('', '혹시 이 키를 찾으셨나요?');
+        result.suggestions.forEach((suggestion: any, index: number) => {
+          lines.push(`${index + 1}. ${suggestion.key} (소스: ${suggestion.source}, 유사도: ${suggestion.score})`);
+        });
+      }
+
+      return lines.join('\n');
+    }
+
+    if (result.pattern) {
+      const keys = Object.keys(result.data);
+      const lines = [
+        `✅ 패턴 조회 성공 (${keys.length}/${result.total}개)`,
+        `패턴: ${result.key}`
+      ];
+
+      if (result.message) {
+        lines.push(`⚠️ ${result.message}`);
+      }
+
+      keys.forEach(key => {
+        lines.push('', `▶ ${key} (소스: ${result.matchSources[key]})`);
+        lines.push(JSON.stringify(result.data[key], null, 2));
+      });
+
+      return lines.join('\n');
     }
 
     const lines = [
       `✅ 조회 성공`,
       `소스: ${result.source}`,
       `키: ${result.key}`,
+      result.revision ? `리비전: ${result.revision}` : '',
       `값: ${JSON.stringify(result.data, null, 2)}`
-    ];
+    ].filter(line => line !== '');
 
     return lines.join('\n');
   }
 
+  /**
+   * 일괄 조회 결과 포맷팅
+   */
+  private formatBatchResult(result: any): string {
+    if (!result.success) {
+      return `❌ 일괄 조회 실패: ${result.message}`;
+    }
+
+    const { summary } = result;
+    const lines = [
+      `✅ 일괄 조회 (${summary.found}/${summary.total} 찾음${summary.truncated > 0 ? `, ${summary.truncated}개 생략` : ''})`,
+      `응답 크기: ${summary.responseSize}/${summary.maxResponseSize} 바이트`,
+      result.message ? `⚠️ ${result.message}` : '',
+      ''
+    ];
+
+    result.results.forEach((item: any, index: number) => {
+      if (!item.found) {
+        lines.push(`${index + 1}. ❌ ${item.key}: ${item.message}`);
+      } else if (item.truncated) {
+        lines.push(`${index + 1}. ⏭️ ${item.key} (소스: ${item.source}) - 생략됨`);
+      } else if (item.message) {
+        lines.push(`${index + 1}. ⚠️ ${item.key} (소스: ${item.source}): ${item.message}`);
+      } else {
+        lines.push(`${index + 1}. ✅ ${item.key} (소스: ${item.source}, 리비전: ${item.revision})`);
+        lines.push(JSON.stringify(item.data, null, 2));
+      }
+    });
+
+    return lines.filter(line => line !== '').join('\n');
+  }
+
   /**
    * 키 목록 결과 포맷팅
    */
@@ -303,6 +846,257 @@ class MCPCacheServer {
     return lines.filter(line => line !== '').join('\n');
   }
 
+  /**
+   * 유사 키 검색 결과 포맷팅
+   */
+  private formatSearchKeysResult(result: any): string {
+    if (!result.success) {
+      return `❌ 검색 실패: ${result.message}`;
+    }
+
+    if (result.suggestions.length === 0) {
+      return `🔍 ${result.message}`;
+    }
+
+    const lines = [
+      `✅ 유사 키 ${result.suggestions.length}개`,
+      `검색어: ${result.query}`,
+      result.source ? `소스: ${result.source}` : '',
+      ''
+    ];
+
+    result.suggestions.forEach((suggestion: any, index: number) => {
+      lines.push(`${index + 1}. ${suggestion.key} (소스: ${suggestion.source}, 유사도: ${suggestion.score})`);
+    });
+
+    return lines.filter(line => line !== '').join('\n');
+  }
+
+  /**
+   * 값 검색 결과 포맷팅
+   */
+  private formatSearchValuesResult(result: any): string {
+    if (!result.success) {
+      return `❌ 검색 실패: ${result.message}`;
+    }
+
+    if (result.results.length === 0) {
+      return `🔍 ${result.message}`;
+    }
+
+    const lines = [
+      `✅ 값 검색 결과 (${result.results.length}개${result.limited ? ' - 제한됨' : ''})`,
+      `검색어: ${result.query}`,
+      result.field ? `필드: ${result.field}` : '',
+      ''
+    ];
+
+    result.results.forEach((item: any, index: number) => {
+      lines.push(`${index + 1}. ${item.key} (소스: ${item.source})`);
+      item.matches.forEach((match: any) => {
+        lines.push(`   [${match.field}] ${match.snippet}`);
+      });
+    });
+
+    return lines.filter(line => line !== '').join('\n');
+  }
+
+  /**
+   * 쿼리 분석 결과 포맷팅
+   */
+  private formatAnalyzeResult(result: any): string {
+    if (!result.success) {
+      return `❌ 분석 실패: ${result.message}`;
+    }
+
+    const { analysis, entry, paramCheck } = result;
+    const lines = [
+      `✅ 쿼리 분석: ${result.key} (소스: ${result.source})`,
+      entry?.desc ? `설명: ${entry.desc}` : '',
+      entry?.fileName ? `파일: ${entry.fileName}` : '',
+      `문장 유형: ${analysis.statementType}`,
+      `테이블: ${analysis.tables.map((table: any) => `${table.name}(${table.operation})`).join(', ') || '없음'}`,
+      `컬럼: ${analysis.columns.join(', ') || '없음'}`,
+      `바인드 변수: ${analysis.binds.map((bind: any) => `${bind.style === 'colon' ? `:${bind.name}` : `#${bind.name}#`} x${bind.occurrences}`).join(', ') || '없음'}`,
+      analysis.hints.length > 0 ? `힌트: ${analysis.hints.join(' | ')}` : ''
+    ].filter(line => line !== '');
+
+    if (paramCheck) {
+      if (paramCheck.consistent) {
+        lines.push(`params 검사: ✅ 일치 (${paramCheck.declared.join(', ') || '없음'})`);
+      } else {
+        lines.push('params 검사: ⚠️ 불일치');
+        if (paramCheck.undeclared.length > 0) {
+          lines.push(`  - 선언되지 않은 바인드: ${paramCheck.undeclared.join(', ')}`);
+        }
+        if (paramCheck.unused.length > 0) {
+          lines.push(`  - 사용되지 않은 params: ${paramCheck.unused.join(', ')}`);
+        }
+      }
+    }
+
+    lines.push('', '정규화 SQL:', analysis.normalized);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 테이블 사용 쿼리 결과 포맷팅
+   */
+  private formatTableUsageResult(result: any): string {
+    if (!result.success) {
+      return `❌ 조회 실패: ${result.message}`;
+    }
+
+    if (result.results.length === 0) {
+      const lines = [`🔍 ${result.message}`];
+      if (result.similarTables && result.similarTables.length > 0) {
+        lines.push(`비슷한 테이블: ${result.similarTables.join(', ')}`);
+      }
+      return lines.join('\n');
+    }
+
+    const counts = Object.entries(result.summary)
+      .filter(([, count]) => (count as number) > 0)
+      .map(([operation, count]) => `${operation} ${count}`)
+      .join(', ');
+
+    const lines = [
+      `✅ ${result.table} 사용 쿼리 (${result.results.length}개${result.limited ? ' - 제한됨' : ''})`,
+      `작업별: ${counts}`,
+      ''
+    ];
+
+    result.results.forEach((usage: any, index: number) => {
+      const desc = usage.desc ? ` - ${usage.desc}` : '';
+      lines.push(`${index + 1}. [${usage.operations.join('/')}] ${usage.key} (소스: ${usage.source})${desc}`);
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 변경 내역 결과 포맷팅
+   */
+  private formatDiffResult(result: any): string {
+    if (!result.success) {
+      const lines = [`❌ 조회 실패: ${result.message}`];
+      if (result.versions.length > 0) {
+        lines.push(`보관 중인 버전: ${result.versions.map((info: any) => info.version).join(', ')}`);
+      }
+      return lines.join('\n');
+    }
+
+    const { summary } = result;
+    const lines = [
+      `✅ ${result.source} 변경 내역 (v${result.fromVersion} → v${result.toVersion}${result.limited ? ' - 제한됨' : ''})`,
+      `로드 시각: ${result.fromLoadedAt} → ${result.toLoadedAt}`,
+      `추가 ${summary.added}개, 삭제 ${summary.removed}개, 변경 ${summary.changed}개`
+    ];
+
+    if (result.message) {
+      lines.push(`🔍 ${result.message}`);
+    }
+
+    const formatValue = (value: any) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return text.length > 200 ? `${text.substring(0, 200)}...` : text;
+    };
+
+    result.added.forEach((entry: any) => {
+      lines.push(`+ ${entry.key}${'newValue' in entry ? `: ${formatValue(entry.newValue)}` : ''}`);
+    });
+    result.removed.forEach((entry: any) => {
+      lines.push(`- ${entry.key}${'oldValue' in entry ? `: ${formatValue(entry.oldValue)}` : ''}`);
+    });
+    result.changed.forEach((entry: any) => {
+      lines.push(`~ ${entry.key}`);
+      if ('oldValue' in entry) {
+        lines.push(`    이전: ${formatValue(entry.oldValue)}`);
+        lines.push(`    이후: ${formatValue(entry.newValue)}`);
+      }
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 소스 비교 결과 포맷팅
+   */
+  private formatCompareResult(result: any): string {
+    if (!result.success) {
+      return `❌ 비교 실패: ${result.message}`;
+    }
+
+    if (result.identical) {
+      return `✅ ${result.message}`;
+    }
+
+    const { summary } = result;
+    const lines = [
+      `✅ ${result.sourceA} ↔ ${result.sourceB} 비교${result.limited ? ' (제한됨)' : ''}`,
+      result.prefix ? `접두사: ${result.prefix}` : '',
+      result.normalize !== 'none' ? `정규화: ${result.normalize}` : '',
+      `${result.sourceA}에만 ${summary.onlyInA}개, ${result.sourceB}에만 ${summary.onlyInB}개, 값 다름 ${summary.different}개`
+    ].filter(line => line !== '');
+
+    const formatValue = (value: any) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return text.length > 200 ? `${text.substring(0, 200)}...` : text;
+    };
+
+    if (result.onlyInA.length > 0) {
+      lines.push('', `[${result.sourceA}에만 있음]`);
+      result.onlyInA.forEach((entry: any) => lines.push(`- ${entry.key}`));
+    }
+    if (result.onlyInB.length > 0) {
+      lines.push('', `[${result.sourceB}에만 있음]`);
+      result.onlyInB.forEach((entry: any) => lines.push(`+ ${entry.key}`));
+    }
+    if (result.different.length > 0) {
+      lines.push('', '[값 다름]');
+      result.different.forEach((entry: any) => {
+        lines.push(`~ ${entry.key}`);
+        if ('valueA' in entry) {
+          lines.push(`    ${result.sourceA}: ${formatValue(entry.valueA)}`);
+          lines.push(`    ${result.sourceB}: ${formatValue(entry.valueB)}`);
+        }
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * 쓰기 결과 포맷팅 (set_json_value / patch_json / delete_json_key 공통)
+   */
+  private formatWriteResult(result: any, action: string): string {
+    if (!result.success) {
+      const writable = result.writableSources.length > 0
+        ? result.writableSources.join(', ')
+        : '없음';
+      return `❌ 저장 실패: ${result.message}\n쓰기 가능한 소스: ${writable}`;
+    }
+
+    const lines = [
+      `✅ ${result.source} 저장 완료 (${result.duration}ms)`,
+      action,
+      `키 수: ${result.keys}`,
+      `소스 리비전: ${result.revision}`
+    ];
+
+    if (result.keyRevision) {
+      lines.push(`키 리비전: ${result.keyRevision}`);
+    }
+
+    if (result.version !== undefined && result.diff) {
+      const { diff } = result;
+      lines.push(`버전 v${result.version}: 추가 ${diff.added}개, 삭제 ${diff.removed}개, 변경 ${diff.changed}개`);
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * 소스 목록 결과 포맷팅
    */
@@ -311,28 +1105,64 @@ class MCPCacheServer {
       return `❌ 조회 실패: ${result.message}`;
     }
 
+    const staleNote = result.summary.stale > 0 ? `, ${result.summary.stale}개 stale` : '';
+    const budget = result.summary.memoryBudget;
     const lines = [
-      `✅ 소스 목록 (${result.summary.loaded}/${result.summary.total} 로드됨)`,
+      `✅ 소스 목록 (${result.summary.loaded}/${result.summary.total} 로드됨${staleNote})`,
       `전체 키: ${result.summary.totalKeys}개`,
       `전체 크기: ${result.summary.totalSizeFormatted}`,
       `캐시 히트율: ${result.summary.cacheHitRate.toFixed(1)}%`,
-      `가동 시간: ${result.summary.uptimeFormatted}`,
-      '',
-      '소스 상세 정보:'
+      `가동 시간: ${result.summary.uptimeFormatted}`
     ];
+    if (budget?.budgetFormatted) {
+      lines.push(
+        `메모리 예산: ${result.summary.memoryUsageFormatted} / ${budget.budgetFormatted} ` +
+        `(내림 ${budget.evictions}회, 다시 올림 ${budget.restores}회${budget.evicted.length > 0 ? `, 현재 내려감: ${budget.evicted.join(', ')}` : ''})`
+      );
+    }
+    lines.push('', '소스 상세 정보:');
 
     result.sources.forEach((source: any, index: number) => {
-      const status = source.isLoaded ? '✅' : '❌';
+      const status = !source.isLoaded ? '❌' : source.stale ? '⚠️' : '✅';
       const primary = source.isPrimary ? ' [PRIMARY]' : '';
       const watch = source.isWatchEnabled ? ' [WATCH]' : '';
+      const writable = source.writable ? ' [WRITABLE]' : '';
+      const stale = source.stale ? ' [STALE]' : '';
+      const evicted = source.residency && !source.residency.resident ? ' [EVICTED]' : '';
 
-      lines.push(`${index + 1}. ${status} ${source.name}${primary}${watch}`);
+      lines.push(`${index + 1}. ${status} ${source.name}${primary}${watch}${writable}${stale}${evicted}`);
       lines.push(`   경로: ${source.path}`);
       lines.push(`   키: ${source.keys}개 (${source.sizeFormatted})`);
-      lines.push(`   조회: ${source.hits}회`);
+      lines.push(`   조회: ${source.hits}회 (평균 ${source.avgLookupTime}ms)`);
       if (source.loadedAtFormatted) {
         lines.push(`   로드: ${source.loadedAtFormatted}`);
       }
+      if (source.memory) {
+        const { memory } = source;
+        const top = memory.sections
+          .slice(0, 3)
+          .map((section: any) => `${section.name} ${Math.round(section.bytes / memory.data * 100)}%`)
+          .join(', ');
+        lines.push(`   메모리: ${memory.totalFormatted} (데이터 ${memory.dataFormatted}, 색인 ${memory.indexesFormatted})${top ? ` - ${top}` : ''}`);
+      }
+      if (source.diskSnapshot) {
+        const refreshing = source.diskSnapshot.stale ? ', 원본 변경됨 - 다시 로드 중' : '';
+        lines.push(`   디스크 스냅샷에서 복원 (${source.diskSnapshot.savedAt} 저장${refreshing})`);
+      }
+      if (source.writable && source.revision) {
+        lines.push(`   리비전: ${source.revision}`);
+      }
+      if (source.lastError) {
+        const fallback = source.stale ? ' (이전 데이터 제공 중)' : '';
+        lines.push(`   오류: ${source.lastError.message}${fallback}`);
+      }
+      if (source.files) {
+        lines.push(`   파일: ${source.files.length}개`);
+        source.files.forEach((file: any) => {
+          const namespace = file.namespace ? ` → ${file.namespace}` : '';
+          lines.push(`     - ${file.path}${namespace} [${file.format}] 키 ${file.keys}개 (${file.sizeFormatted})`);
+        });
+      }
       lines.push('');
     });
 
@@ -358,9 +1188,18 @@ class MCPCacheServer {
         totalKeys: this.cacheManager.getGlobalStats().totalKeys
       });
 
-      // Resource 핸들러 초기화
-      this.resourceHandler = new JsonResourceHandler(this.cacheManager);
-      this.serverLogger.info('Resource 핸들러 초기화 완료');
+      // Resource 변경 알림 연결
+      this.stdio.resourceSources = this.cacheManager.getLoadedSources();
+      this.cacheManager.addUpdateListener(source => this.notifyResourceChanges(source));
+
+      // 자동완성 핸들러 초기화
+      this.completionHandler = new JsonCompletionHandler(this.cacheManager);
+
+      // Prompt 핸들러 초기화
+      this.promptHandler = new JsonPromptHandler(this.cacheManager);
+      this.serverLogger.info('Prompt 핸들러 초기화 완료', {
+        prompts: this.promptHandler.listPrompts().map(prompt => prompt.name)
+      });
 
       // 파일 감시자 시작
       this.fileWatcher = new FileWatcher(this.cacheManager, config);
@@ -372,10 +1211,25 @@ class MCPCacheServer {
         });
       }
 
+      // 원격 소스 폴링 시작
+      this.remotePoller = new RemotePoller(this.cacheManager, config);
+      this.remotePoller.start();
+
       // 웹 서버 시작
       const webConfig = configManager.getWebConfig();
       if (webConfig.enabled) {
-        this.webServer = new WebServer(this.cacheManager, webConfig);
+        // MCP HTTP 엔드포인트 (세션마다 새 MCP 연결)
+        if (webConfig.mcp.enabled) {
+          this.mcpEndpoint = new McpHttpEndpoint(
+            webConfig.mcp,
+            logSource => {
+              const connection = this.createConnection(logSource);
+              return { server: connection.server, release: () => this.connections.delete(connection) };
+            }
+          );
+        }
+
+        this.webServer = new WebServer(this.cacheManager, webConfig, this.mcpEndpoint);
         await this.webServer.start();
 
         // 웹서버에 파일 변경 이벤트 연결
@@ -387,6 +1241,30 @@ class MCPCacheServer {
               event.type
             );
           });
+          this.fileWatcher.addReloadListener((result) => {
+            this.webServer?.getWebSocketManager()?.broadcastReload(result.source, result.success, result.error, result.stale);
+          });
+        }
+
+        // 웹서버에 리로드 변경 내역 연결
+        if (this.webServer.getWebSocketManager()) {
+          this.cacheManager.addHistoryListener((diff) => {
+            this.webServer?.getWebSocketManager()?.broadcastSourceDiff(diff);
+          });
+        }
+
+        // 웹서버에 원격 소스 변경 이벤트 연결
+        if (this.remotePoller.isActive() && this.webServer.getWebSocketManager()) {
+          this.remotePoller.addChangeListener((event) => {
+            this.webServer?.getWebSocketManager()?.broadcastRemoteChange(
+              event.source,
+              event.url,
+              event.keys
+            );
+          });
+          this.remotePoller.addReloadListener((result) => {
+            this.webServer?.getWebSocketManager()?.broadcastReload(result.source, result.success, result.error, result.stale);
+          });
         }
 
         this.serverLogger.info('웹 서버 시작 완료', {
@@ -398,16 +1276,18 @@ class MCPCacheServer {
 
       // MCP 서버 시작
       const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      await this.stdio.server.connect(transport);
 
       this.serverLogger.info('[MCP] MCP JSON Cache Server 시작 완료');
       this.serverLogger.info('서버 정보', {
         name: 'mcp-json-cache',
         version: '1.0.0',
         sources: this.cacheManager.getLoadedSources(),
-        tools: ['query_json', 'list_json_keys', 'list_sources'],
-        resources: this.resourceHandler ? 'enabled' : 'disabled',
-        watcher: this.fileWatcher?.isActive() ? 'active' : 'inactive'
+        tools: ['query_json', 'query_json_batch', 'list_json_keys', 'list_sources', 'search_json_keys', 'search_json_values', 'analyze_query', 'find_queries_by_table', 'diff_source', 'compare_sources', 'set_json_value', 'patch_json', 'delete_json_key'],
+        mcpHttp: this.mcpEndpoint ? webConfig.mcp.path : 'disabled',
+        prompts: this.promptHandler?.listPrompts().length ?? 0,
+        watcher: this.fileWatcher?.isActive() ? 'active' : 'inactive',
+        remotePoller: this.remotePoller?.isActive() ? 'active' : 'inactive'
       });
 
     } catch (error) {
@@ -428,6 +1308,9 @@ class MCPCacheServer {
         await this.fileWatcher.stop();
       }
 
+      // 원격 소스 폴링 종료
+      this.remotePoller?.stop();
+
       // 웹 서버 종료
       if (this.webServer) {
         await this.webServer.shutdown();
@@ -460,8 +1343,18 @@ class MCPCacheServer {
       cache: this.cacheManager.getGlobalStats(),
       tools: {
         query_json: this.queryTool.getStats(),
+        query_json_batch: this.batchTool.getStats(),
         list_json_keys: this.keysTool.getStats(),
-        list_sources: this.sourcesTool.getStats()
+        list_sources: this.sourcesTool.getStats(),
+        search_json_keys: this.searchKeysTool.getStats(),
+        search_json_values: this.searchValuesTool.getStats(),
+        analyze_query: this.analyzeTool.getStats(),
+        find_queries_by_table: this.tableTool.getStats(),
+        diff_source: this.diffTool.getStats(),
+        compare_sources: this.compareTool.getStats(),
+        set_json_value: this.setValueTool.getStats(),
+        patch_json: this.patchTool.getStats(),
+        delete_json_key: this.deleteKeyTool.getStats()
       }
     };
   }
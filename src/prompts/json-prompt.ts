@@ -0,0 +1,182 @@
+/**
+ * MCP Prompt 인터페이스 구현
+ * 설정(prompts)에 정의한 템플릿에 인자 값과 캐시 조회 결과를 채워 프롬프트 메시지 생성
+ * 지시어({{query ...}} 등)는 원본 템플릿에서 먼저 찾고, 인자({이름})는 지시어 대상과 일반 텍스트에 따로 치환
+ * 인자 값은 다시 해석하지 않으므로 값에 {{ }}가 있어도 지시어가 추가되지 않음
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { PromptArgumentDefinition, PromptDefinition } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+const promptLogger = logger.withSource('PROMPT');
+
+// {{지시어 대상}} 형식 (대상에는 {인자} 외의 중괄호를 쓸 수 없음)
+const DIRECTIVE_PATTERN = /\{\{\s*(query|pattern|sources)\s+((?:[^{}]|\{\w+\})*?)\s*\}\}/g;
+// {{pattern}}으로 채울 최대 키 수
+const MAX_PATTERN_MATCHES = 50;
+
+export interface PromptInfo {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: PromptArgumentDefinition[];
+}
+
+export interface RenderedPrompt {
+  description?: string;
+  text: string;
+}
+
+export class JsonPromptHandler {
+  private cacheManager: CacheManager;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * 설정에 정의된 프롬프트 목록
+   */
+  public listPrompts(): PromptInfo[] {
+    return Object.entries(this.getDefinitions()).map(([name, definition]) => ({
+      name,
+      title: definition.title,
+      description: definition.description,
+      arguments: definition.arguments ?? []
+    }));
+  }
+
+  /**
+   * 프롬프트 생성 (없는 프롬프트이거나 필수 인자가 빠지면 예외)
+   */
+  public getPrompt(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const definition = this.getDefinitions()[name];
+    if (!definition) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = (definition.arguments ?? [])
+      .filter(argument => argument.required && !args[argument.name])
+      .map(argument => argument.name);
+    if (missing.length > 0) {
+      throw new Error(`Missing required arguments for prompt '${name}': ${missing.join(', ')}`);
+    }
+
+    const template = Array.isArray(definition.template)
+      ? definition.template.join('\n')
+      : definition.template;
+
+    const substitute = (value: string) => this.substituteArguments(value, definition, args);
+
+    let text = '';
+    let offset = 0;
+    for (const match of template.matchAll(DIRECTIVE_PATTERN)) {
+      const index = match.index ?? 0;
+      const { key, source } = this.parseTarget(match[2]);
+      text += substitute(template.substring(offset, index));
+      text += this.renderDirective(match[1], substitute(key), source && substitute(source));
+      offset = index + match[0].length;
+    }
+    text += substitute(template.substring(offset));
+
+    promptLogger.info('Prompt 생성', { name, args, size: text.length });
+
+    return { description: definition.description, text };
+  }
+
+  /**
+   * 설정의 프롬프트 정의 (없으면 빈 객체)
+   */
+  private getDefinitions(): Record<string, PromptDefinition> {
+    return this.cacheManager.getConfig()?.prompts ?? {};
+  }
+
+  /**
+   * 선언된 인자만 {이름} 형식으로 치환 (값이 없는 선택 인자는 빈 문자열)
+   * 선언되지 않은 {…}는 그대로 두므로 템플릿 안의 JSON 예시와 충돌하지 않음
+   */
+  private substituteArguments(template: string, definition: PromptDefinition, args: Record<string, string>): string {
+    const names = new Set((definition.arguments ?? []).map(argument => argument.name));
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      names.has(name) ? args[name] ?? '' : placeholder
+    );
+  }
+
+  /**
+   * 지시어 하나를 조회 결과 텍스트로 변환 (조회 오류는 본문에 표시)
+   */
+  private renderDirective(directive: string, key: string, source?: string): string {
+    try {
+      switch (directive) {
+        case 'query':
+          return this.renderQuery(key, source);
+        case 'pattern':
+          return this.renderPattern(key, source);
+        default:
+          return this.renderSources(key);
+      }
+    } catch (error) {
+      promptLogger.warn('Prompt 지시어 처리 실패', { directive, key, source, error });
+      return `(error: ${error instanceof Error ? error.message : String(error)})`;
+    }
+  }
+
+  /**
+   * {{query 키}}: 키 값 (primary 소스 우선, @소스로 지정 가능)
+   */
+  private renderQuery(key: string, source?: string): string {
+    const result = this.cacheManager.query(key, source);
+    return result.found ? this.formatValue(result.value) : `(not found: ${key})`;
+  }
+
+  /**
+   * {{pattern 글롭}}: 일치하는 키마다 제목과 값
+   */
+  private renderPattern(pattern: string, source?: string): string {
+    const result = this.cacheManager.queryPattern(pattern, source, MAX_PATTERN_MATCHES);
+    const keys = Object.keys(result.matches);
+
+    if (keys.length === 0) {
+      return `(no keys match: ${pattern})`;
+    }
+
+    const sections = keys.map(key =>
+      `### ${key} (${result.sources[key]})\n${this.formatValue(result.matches[key])}`
+    );
+
+    if (result.truncated) {
+      sections.push(`(showing ${keys.length} of ${result.total} matching keys)`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * {{sources 키}}: 로드된 소스마다 같은 키의 값
+   */
+  private renderSources(key: string): string {
+    return this.cacheManager.getLoadedSources()
+      .map(source => {
+        const result = this.cacheManager.query(key, source);
+        return `### ${source}\n${result.found ? this.formatValue(result.value) : '(not found)'}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * 지시어 대상 해석 ("키 @소스" 형식이면 소스 분리, 인자 치환 전의 원본 대상 기준)
+   */
+  private parseTarget(target: string): { key: string; source?: string } {
+    const match = target.match(/^(.*?)\s+@(\S+)$/);
+    return match ? { key: match[1], source: match[2] } : { key: target };
+  }
+
+  /**
+   * 값 표시 (문자열은 그대로, 나머지는 JSON)
+   */
+  private formatValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  }
+}
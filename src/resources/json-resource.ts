@@ -1,6 +1,9 @@
 /**
  * MCP Resource 인터페이스 구현
  * URI 패턴: json://{source}/{key}
+ * resources/list는 키마다 하나의 Resource를 커서로 나눠 반환 (템플릿 {key} 자동완성은 completion/json-completion.ts)
+ * 구독한 URI는 값의 리비전을 기억해 두고, 소스가 바뀌면 값이 실제로 바뀐 URI만 골라냄
+ * 변경 확인은 CacheManager.peek으로 하므로 조회 통계에 잡히지 않고 내려둔 소스도 다시 올리지 않음
  */
 
 import { CacheManager } from '../cache/CacheManager.js';
@@ -20,8 +23,44 @@ export interface ResourceContent {
   text: string;
 }
 
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceListPage {
+  resources: ResourceEntry[];
+  nextCursor?: string;
+}
+
+// 구독 URI별로 마지막으로 확인한 값 (값이 없으면 모두 undefined)
+interface SubscribedValue {
+  source?: string;
+  sourceRevision?: string;
+  revision?: string; // 키 리비전 (내려둔 소스에서 찾아 값을 읽지 않았으면 undefined)
+}
+
+export interface ResourceTemplateEntry {
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+// resources/list 기본/최대 페이지 크기
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
 export class JsonResourceHandler {
   private cacheManager: CacheManager;
+  // 구독 중인 URI → 마지막으로 확인한 값
+  private subscriptions: Map<string, SubscribedValue> = new Map();
+  // 소스별 목록 키 (리비전과 깊이가 같으면 페이지마다 다시 만들지 않음)
+  private listedKeys: Map<string, { revision: string | null; maxDepth: number; keys: string[] }> = new Map();
 
   constructor(cacheManager: CacheManager) {
     this.cacheManager = cacheManager;
@@ -117,47 +156,228 @@ export class JsonResourceHandler {
   }
 
   /**
-   * Resource 목록 조회
-   * 특정 소스의 모든 키를 Resource URI로 변환
+   * Resource 구독 (현재 값의 리비전 기록, 아직 없는 키도 구독 가능)
+   */
+  public subscribe(uri: string): void {
+    const parsed = this.parseURI(uri);
+    if (!parsed) {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+
+    this.subscriptions.set(uri, this.checkValue(parsed));
+    resourceLogger.debug('Resource 구독', { uri, subscriptions: this.subscriptions.size });
+  }
+
+  /**
+   * Resource 구독 해제
+   * @returns 구독 중이었는지 여부
+   */
+  public unsubscribe(uri: string): boolean {
+    const removed = this.subscriptions.delete(uri);
+    resourceLogger.debug('Resource 구독 해제', { uri, removed });
+    return removed;
+  }
+
+  /**
+   * 구독 중인 URI 목록
+   */
+  public getSubscriptions(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * 소스가 바뀐 뒤 값이 실제로 바뀐 구독 URI 목록 (기록한 값도 갱신)
+   * 전체 검색 URI(json://{key})는 어느 소스가 바뀌어도 확인 (우선순위가 높은 소스에 키가 생길 수 있으므로)
+   */
+  public collectUpdated(source: string): string[] {
+    const updated: string[] = [];
+
+    for (const [uri, previous] of this.subscriptions) {
+      const parsed = this.parseURI(uri);
+      if (!parsed || (parsed.source && parsed.source !== source)) continue;
+
+      const current = this.checkValue(parsed, previous);
+      if (current === previous) continue;
+
+      this.subscriptions.set(uri, current);
+      // 내려둔 소스의 값은 읽지 않으므로 소스 리비전이 바뀌었으면 변경으로 간주
+      if (current.source !== previous.source || current.revision !== previous.revision || (current.source && current.revision === undefined)) {
+        updated.push(uri);
+      }
+    }
+
+    if (updated.length > 0) {
+      resourceLogger.info('구독 Resource 변경', { source, uris: updated });
+    }
+    return updated;
+  }
+
+  /**
+   * URI가 가리키는 값 확인 (찾은 소스가 이전과 같고 소스 리비전도 같으면 해시하지 않고 이전 값을 그대로 반환)
+   */
+  private checkValue(parsed: ResourceURI, previous?: SubscribedValue): SubscribedValue {
+    const result = this.cacheManager.peek(parsed.key, parsed.source || undefined);
+    if (!result.found) {
+      return previous && previous.source === undefined ? previous : {};
+    }
+
+    if (previous && previous.source === result.source && previous.sourceRevision === result.sourceRevision) {
+      return previous;
+    }
+
+    return {
+      source: result.source,
+      sourceRevision: result.sourceRevision,
+      revision: result.resident ? this.cacheManager.getKeyRevision(result) : undefined
+    };
+  }
+
+  /**
+   * Resource 목록 조회 (커서 기반 페이지네이션)
+   * 로드된 소스 순서대로 maxDepth 이하의 키를 하나씩 Resource로 변환하고, 값의 desc 필드를 제목으로 사용
+   * @param cursor 이전 페이지의 nextCursor (없으면 처음부터)
    */
-  public listResources(source?: string): string[] {
-    const sources = source
-      ? [source]
-      : this.cacheManager.getLoadedSources();
+  public listResources(cursor?: string): ResourceListPage {
+    const sources = this.cacheManager.getLoadedSources();
+    const position = cursor ? this.decodeCursor(cursor) : { source: sources[0], offset: 0 };
+    let sourceIndex = position.source === undefined ? sources.length : sources.indexOf(position.source);
+
+    if (sourceIndex === -1) {
+      throw new Error(`Invalid cursor: source '${position.source}' is no longer loaded`);
+    }
 
-    const resourceURIs: string[] = [];
+    const { maxDepth, pageSize } = this.getListOptions();
+    const resources: ResourceEntry[] = [];
+    let offset = position.offset;
 
-    for (const sourceName of sources) {
-      const cache = this.cacheManager.getCache(sourceName);
-      if (!cache) continue;
+    while (sourceIndex < sources.length && resources.length < pageSize) {
+      const sourceName = sources[sourceIndex];
+      const keys = this.getListedKeys(sourceName, maxDepth);
+      const page = keys.slice(offset, offset + pageSize - resources.length);
 
-      const keys = cache.keys();
-      for (const key of keys) {
-        resourceURIs.push(`json://${sourceName}/${key}`);
+      for (const key of page) {
+        resources.push(this.toResourceEntry(sourceName, key));
+      }
+
+      offset += page.length;
+      if (offset >= keys.length) {
+        sourceIndex++;
+        offset = 0;
       }
     }
 
+    const nextCursor = sourceIndex < sources.length
+      ? this.encodeCursor({ source: sources[sourceIndex], offset })
+      : undefined;
+
     resourceLogger.debug('Resource 목록 조회', {
-      source: source || 'all',
-      count: resourceURIs.length
+      cursor: cursor ?? null,
+      count: resources.length,
+      hasMore: nextCursor !== undefined
     });
 
-    return resourceURIs;
+    return { resources, nextCursor };
   }
 
   /**
    * Resource 템플릿 목록 반환
-   * MCP Resource 템플릿 기능 지원
+   * 소스별 json://{source}/{key} 템플릿과 전체 소스 검색 json://{key} 템플릿
    */
-  public getResourceTemplates() {
+  public getResourceTemplates(): ResourceTemplateEntry[] {
     const sources = this.cacheManager.getLoadedSources();
 
-    return sources.map(sourceName => ({
+    const templates: ResourceTemplateEntry[] = sources.map(sourceName => ({
       uriTemplate: `json://${sourceName}/{key}`,
       name: `${sourceName} JSON Cache`,
+      title: `${sourceName} 키 조회`,
       description: `Access cached JSON data from ${sourceName} source`,
       mimeType: 'application/json'
     }));
+
+    if (sources.length > 0) {
+      templates.push({
+        uriTemplate: 'json://{key}',
+        name: 'JSON Cache Search',
+        title: '전체 소스 키 조회',
+        description: 'Look up a key across all cached sources',
+        mimeType: 'application/json'
+      });
+    }
+
+    return templates;
+  }
+
+  /**
+   * 목록 설정 (config.options.resources, 페이지 크기는 1~MAX_PAGE_SIZE로 제한)
+   */
+  private getListOptions(): { maxDepth: number; pageSize: number } {
+    const options = this.cacheManager.getConfig()?.options?.resources;
+    const pageSize = Math.floor(options?.pageSize ?? DEFAULT_PAGE_SIZE);
+
+    return {
+      maxDepth: options?.maxDepth ?? this.cacheManager.getDefaultMaxDepth(),
+      pageSize: Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE)
+    };
+  }
+
+  /**
+   * 목록에 포함할 소스 키 (리비전이 같으면 이전 페이지에서 만든 목록 재사용)
+   */
+  private getListedKeys(source: string, maxDepth: number): string[] {
+    const cache = this.cacheManager.getCache(source);
+    if (!cache) {
+      return [];
+    }
+
+    const revision = cache.getRevision();
+    const cached = this.listedKeys.get(source);
+    if (cached && cached.revision === revision && cached.maxDepth === maxDepth) {
+      return cached.keys;
+    }
+
+    const keys = cache.keys(maxDepth);
+    this.listedKeys.set(source, { revision, maxDepth, keys });
+    return keys;
+  }
+
+  /**
+   * 키 하나를 Resource 항목으로 변환 (peek으로 값 확인, 메모리에서 내린 소스는 다시 올리지 않고 제목 생략)
+   */
+  private toResourceEntry(source: string, key: string): ResourceEntry {
+    const { value } = this.cacheManager.peek(key, source);
+    const desc = value !== null && typeof value === 'object' && typeof value.desc === 'string'
+      ? value.desc.trim()
+      : '';
+
+    return {
+      uri: this.createURI(source, key),
+      name: key,
+      title: desc || undefined,
+      description: desc ? `${source}: ${key}` : undefined,
+      mimeType: 'application/json'
+    };
+  }
+
+  /**
+   * 페이지 위치를 불투명 커서로 변환
+   */
+  private encodeCursor(position: { source: string; offset: number }): string {
+    return Buffer.from(JSON.stringify({ s: position.source, o: position.offset })).toString('base64url');
+  }
+
+  /**
+   * 커서 해석 (형식이 맞지 않으면 예외)
+   */
+  private decodeCursor(cursor: string): { source: string; offset: number } {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof parsed?.s === 'string' && Number.isInteger(parsed.o) && parsed.o >= 0) {
+        return { source: parsed.s, offset: parsed.o };
+      }
+    } catch {
+      // 아래에서 처리
+    }
+    throw new Error(`Invalid cursor: ${cursor}`);
   }
 
   /**
@@ -0,0 +1,282 @@
+/**
+ * analyze_query Tool - 쿼리맵 SQL 분석 Tool
+ * 키로 찾은 쿼리맵 항목의 SQL을 분석하여 문장 유형, 테이블, 컬럼, 바인드 변수, 힌트를 반환하고
+ * 선언된 params와 실제 바인드 변수의 불일치를 표시
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { analyzeSql, SqlAnalysis } from '../utils/sql-analyzer.js';
+
+export interface AnalyzeQueryParams {
+  key: string;
+  source?: string;
+}
+
+export interface QueryEntryInfo {
+  id?: string;
+  desc?: string;
+  fileName?: string;
+  queryMapDesc?: string;
+}
+
+export interface ParamCheckResult {
+  declared: string[];
+  used: string[];
+  undeclared: string[]; // SQL에서 사용했지만 params에 없음
+  unused: string[]; // params에 있지만 SQL에서 사용하지 않음
+  consistent: boolean;
+}
+
+export interface AnalyzeQueryResult {
+  success: boolean;
+  key: string;
+  source?: string;
+  found: boolean;
+  entry?: QueryEntryInfo;
+  analysis?: SqlAnalysis;
+  paramCheck?: ParamCheckResult;
+  availableSources: string[];
+  message?: string;
+}
+
+export class AnalyzeQueryTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('analyze_query');
+  // 호출 통계 (상태 조회용)
+  private totalAnalyses = 0;
+  private failedAnalyses = 0;
+  private paramMismatches = 0;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "analyze_query",
+      description: "쿼리맵 항목(query, params, desc, file_name)의 SQL을 분석합니다. 문장 유형, 참조 테이블과 작업(SELECT/INSERT/UPDATE/DELETE/MERGE), 컬럼, :PARAM/#param# 바인드 변수, 힌트, CDATA를 제거한 정규화 SQL을 반환하고 선언된 params와 실제 바인드 변수의 불일치를 표시합니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: {
+            type: "string",
+            description: "분석할 쿼리 키 (예: 'B17R2010.select')"
+          },
+          source: {
+            type: "string",
+            description: "JSON 소스명 (미지정 시 모든 소스 검색, primary 소스 우선)"
+          }
+        },
+        required: ["key"]
+      }
+    };
+  }
+
+  /**
+   * 쿼리 분석 실행
+   */
+  public async execute(params: AnalyzeQueryParams): Promise<AnalyzeQueryResult> {
+    const { key, source } = params;
+
+    this.sourceLogger.debug('쿼리 분석 시작', { key, source });
+    this.totalAnalyses++;
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      const queryResult = this.cacheManager.query(key, source);
+      if (!queryResult.found) {
+        return this.createErrorResponse(params, `키 '${key}'를 찾을 수 없습니다`);
+      }
+
+      const entry = queryResult.value;
+      const sql = this.extractSql(entry);
+      if (sql === undefined) {
+        return {
+          ...this.createErrorResponse(params, `키 '${key}'의 값에 SQL(query 필드)이 없습니다`),
+          source: queryResult.source,
+          found: true
+        };
+      }
+
+      const analysis = analyzeSql(sql);
+      const declared = this.extractDeclaredParams(entry);
+      const paramCheck = declared ? this.checkParams(declared, analysis) : undefined;
+      if (paramCheck && !paramCheck.consistent) {
+        this.paramMismatches++;
+      }
+
+      this.sourceLogger.debug('쿼리 분석 완료', {
+        key,
+        source: queryResult.source,
+        statementType: analysis.statementType,
+        tables: analysis.tables.length,
+        binds: analysis.binds.length
+      });
+
+      return {
+        success: true,
+        key,
+        source: queryResult.source,
+        found: true,
+        entry: this.extractEntryInfo(entry),
+        analysis,
+        paramCheck,
+        availableSources: this.getAvailableSources()
+      };
+
+    } catch (error) {
+      this.sourceLogger.error('쿼리 분석 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 항목에서 SQL 텍스트 추출 (문자열 값 또는 query 필드)
+   */
+  private extractSql(entry: any): string | undefined {
+    if (typeof entry === 'string') {
+      return entry;
+    }
+
+    if (entry && typeof entry === 'object' && typeof entry.query === 'string') {
+      return entry.query;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 쿼리맵 메타데이터 추출 (변환기 형식 desc/file_name과 description 모두 지원)
+   */
+  private extractEntryInfo(entry: any): QueryEntryInfo | undefined {
+    if (!entry || typeof entry !== 'object') {
+      return undefined;
+    }
+
+    return {
+      id: typeof entry.id === 'string' ? entry.id : undefined,
+      desc: entry.desc ?? entry.description,
+      fileName: entry.file_name,
+      queryMapDesc: entry.query_map_desc
+    };
+  }
+
+  /**
+   * 선언된 params 추출 (문자열 배열, {name} 객체 배열, 쉼표 구분 문자열)
+   * params 필드가 없으면 undefined (불일치 검사 생략)
+   */
+  private extractDeclaredParams(entry: any): string[] | undefined {
+    const declared = entry && typeof entry === 'object' ? entry.params : undefined;
+
+    if (typeof declared === 'string') {
+      return declared.split(',').map(name => name.trim()).filter(name => name.length > 0);
+    }
+
+    if (!Array.isArray(declared)) {
+      return undefined;
+    }
+
+    return declared
+      .map(item => (typeof item === 'string' ? item : item?.name))
+      .filter((name): name is string => typeof name === 'string' && name.length > 0);
+  }
+
+  /**
+   * 선언된 params와 바인드 변수 비교 (대소문자 무시)
+   */
+  private checkParams(declared: string[], analysis: SqlAnalysis): ParamCheckResult {
+    const used = Array.from(new Set(analysis.binds.map(bind => bind.name)));
+    const declaredUpper = new Set(declared.map(name => name.toUpperCase()));
+    const usedUpper = new Set(used.map(name => name.toUpperCase()));
+
+    const undeclared = used.filter(name => !declaredUpper.has(name.toUpperCase()));
+    const unused = declared.filter(name => !usedUpper.has(name.toUpperCase()));
+
+    return {
+      declared,
+      used,
+      undeclared,
+      unused,
+      consistent: undeclared.length === 0 && unused.length === 0
+    };
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: AnalyzeQueryParams): { valid: boolean; message?: string } {
+    const { key, source } = params;
+
+    if (!key || typeof key !== 'string' || key.trim() === '') {
+      return {
+        valid: false,
+        message: 'key 파라미터가 필요합니다 (비어있지 않은 문자열)'
+      };
+    }
+
+    if (key.length > 1000) {
+      return {
+        valid: false,
+        message: 'key 길이가 너무 깁니다 (최대 1000자)'
+      };
+    }
+
+    if (source !== undefined && typeof source !== 'string') {
+      return {
+        valid: false,
+        message: 'source는 문자열이어야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: AnalyzeQueryParams, message?: string): AnalyzeQueryResult {
+    this.failedAnalyses++;
+    return {
+      success: false,
+      key: params.key,
+      source: params.source,
+      found: false,
+      availableSources: this.getAvailableSources(),
+      message
+    };
+  }
+
+  /**
+   * 사용 가능한 소스 목록 반환
+   */
+  private getAvailableSources(): string[] {
+    return this.cacheManager.getLoadedSources();
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      totalAnalyses: this.totalAnalyses,
+      failedAnalyses: this.failedAnalyses,
+      paramMismatches: this.paramMismatches
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createAnalyzeQueryTool(cacheManager: CacheManager): AnalyzeQueryTool {
+  return new AnalyzeQueryTool(cacheManager);
+}
@@ -0,0 +1,249 @@
+/**
+ * compare_sources Tool - 소스 간 비교 Tool
+ * 같은 쿼리맵을 환경별(dev/prod 등)로 내보낸 두 소스를 비교하여 한쪽에만 있는 키와 값이 다른 키를 반환
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import {
+  CacheError,
+  ComparisonEntry,
+  CompareNormalization,
+  COMPARE_NORMALIZATIONS,
+  SourceComparison
+} from '../types.js';
+
+export interface CompareSourcesParams {
+  sourceA: string;
+  sourceB: string;
+  prefix?: string;
+  normalize?: CompareNormalization;
+  limit?: number;
+  includeValues?: boolean;
+}
+
+export interface CompareSourcesResult {
+  success: boolean;
+  sourceA: string;
+  sourceB: string;
+  prefix?: string;
+  normalize: CompareNormalization;
+  summary: SourceComparison['summary'];
+  onlyInA: ComparisonEntry[];
+  onlyInB: ComparisonEntry[];
+  different: ComparisonEntry[];
+  limited: boolean;
+  identical: boolean;
+  availableSources: string[];
+  message?: string;
+}
+
+export class CompareSourcesTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('compare_sources');
+  private readonly DEFAULT_LIMIT = 50;
+  private readonly MAX_LIMIT = 500;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "compare_sources",
+      description: "두 소스를 비교합니다 (예: dev/prod에서 내보낸 같은 쿼리맵의 환경 간 차이). A에만 있는 키, B에만 있는 키, 값이 다른 키를 반환하며, normalize로 SQL 공백/주석 차이 등을 무시할 수 있습니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sourceA: {
+            type: "string",
+            description: "기준 소스명 (예: 'dev')"
+          },
+          sourceB: {
+            type: "string",
+            description: "비교 대상 소스명 (예: 'prod')"
+          },
+          prefix: {
+            type: "string",
+            description: "이 접두사로 시작하는 키만 비교 (예: 'B17R2010')"
+          },
+          normalize: {
+            type: "string",
+            enum: COMPARE_NORMALIZATIONS,
+            description: "값 정규화 방식 - none: 그대로 비교, whitespace: 문자열 공백 차이 무시, sql: query 필드의 주석/CDATA/동적 태그/공백 차이 무시 (기본값: none)"
+          },
+          limit: {
+            type: "number",
+            description: "항목별(A에만/B에만/다름) 최대 반환 개수 (기본값: 50, 최대: 500)"
+          },
+          includeValues: {
+            type: "boolean",
+            description: "양쪽 값 포함 여부 (기본값: true)"
+          }
+        },
+        required: ["sourceA", "sourceB"]
+      }
+    };
+  }
+
+  /**
+   * 소스 비교 실행
+   */
+  public async execute(params: CompareSourcesParams): Promise<CompareSourcesResult> {
+    const { sourceA, sourceB, prefix, normalize = 'none', limit, includeValues = true } = params;
+
+    this.sourceLogger.debug('소스 비교 시작', params);
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      // 캐시 상태 확인
+      if (!this.cacheManager.isLoaded()) {
+        return this.createErrorResponse(params, '캐시가 로드되지 않았습니다');
+      }
+
+      const comparison = this.cacheManager.compareSources(sourceA, sourceB, { prefix, normalize });
+      const effectiveLimit = Math.min(limit ?? this.DEFAULT_LIMIT, this.MAX_LIMIT);
+
+      const select = (entries: ComparisonEntry[]) => entries
+        .slice(0, effectiveLimit)
+        .map(entry => includeValues ? entry : { key: entry.key });
+
+      const { summary } = comparison;
+      const identical = summary.onlyInA + summary.onlyInB + summary.different === 0;
+
+      this.sourceLogger.debug('소스 비교 완료', { sourceA, sourceB, prefix, normalize, ...summary });
+
+      return {
+        success: true,
+        sourceA,
+        sourceB,
+        prefix,
+        normalize,
+        summary,
+        onlyInA: select(comparison.onlyInA),
+        onlyInB: select(comparison.onlyInB),
+        different: select(comparison.different),
+        limited: Math.max(summary.onlyInA, summary.onlyInB, summary.different) > effectiveLimit,
+        identical,
+        availableSources: this.getAvailableSources(),
+        message: identical
+          ? `'${sourceA}'와 '${sourceB}'${prefix ? `의 '${prefix}' 범위` : ''}에 차이가 없습니다`
+          : undefined
+      };
+
+    } catch (error) {
+      if (error instanceof CacheError) {
+        return this.createErrorResponse(params, error.message);
+      }
+      this.sourceLogger.error('소스 비교 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: CompareSourcesParams): { valid: boolean; message?: string } {
+    const { sourceA, sourceB, prefix, normalize, limit } = params;
+
+    for (const [name, source] of [['sourceA', sourceA], ['sourceB', sourceB]] as const) {
+      if (!source || typeof source !== 'string') {
+        return {
+          valid: false,
+          message: `${name} 파라미터가 필요합니다`
+        };
+      }
+
+      if (!this.cacheManager.getCache(source)) {
+        return {
+          valid: false,
+          message: `소스 '${source}'를 찾을 수 없습니다`
+        };
+      }
+    }
+
+    if (sourceA === sourceB) {
+      return {
+        valid: false,
+        message: 'sourceA와 sourceB는 서로 다른 소스여야 합니다'
+      };
+    }
+
+    if (prefix !== undefined && typeof prefix !== 'string') {
+      return {
+        valid: false,
+        message: 'prefix는 문자열이어야 합니다'
+      };
+    }
+
+    if (normalize !== undefined && !COMPARE_NORMALIZATIONS.includes(normalize)) {
+      return {
+        valid: false,
+        message: `normalize는 ${COMPARE_NORMALIZATIONS.join(', ')} 중 하나여야 합니다`
+      };
+    }
+
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+      return {
+        valid: false,
+        message: 'limit는 1 이상의 정수여야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: CompareSourcesParams, message?: string): CompareSourcesResult {
+    return {
+      success: false,
+      sourceA: params.sourceA,
+      sourceB: params.sourceB,
+      prefix: params.prefix,
+      normalize: params.normalize ?? 'none',
+      summary: { onlyInA: 0, onlyInB: 0, different: 0 },
+      onlyInA: [],
+      onlyInB: [],
+      different: [],
+      limited: false,
+      identical: false,
+      availableSources: this.getAvailableSources(),
+      message
+    };
+  }
+
+  /**
+   * 사용 가능한 소스 목록 반환
+   */
+  private getAvailableSources(): string[] {
+    return this.cacheManager.getLoadedSources();
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      defaultLimit: this.DEFAULT_LIMIT,
+      maxLimit: this.MAX_LIMIT,
+      normalizations: COMPARE_NORMALIZATIONS
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createCompareSourcesTool(cacheManager: CacheManager): CompareSourcesTool {
+  return new CompareSourcesTool(cacheManager);
+}
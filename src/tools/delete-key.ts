@@ -0,0 +1,172 @@
+/**
+ * delete_json_key Tool - 키 삭제 Tool
+ * writable 소스에서 키(하위 값 포함)를 삭제하고 파일에 저장
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { CacheError, DiffSummary } from '../types.js';
+
+export interface DeleteJsonKeyParams {
+  source: string;
+  key: string;
+  ifMatch?: string;
+}
+
+export interface DeleteJsonKeyResult {
+  success: boolean;
+  source: string;
+  key: string;
+  keys: number;
+  revision?: string; // 변경 후 소스 리비전
+  version?: number;
+  diff?: DiffSummary;
+  duration: number;
+  writableSources: string[];
+  message?: string;
+}
+
+export class DeleteJsonKeyTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('delete_json_key');
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "delete_json_key",
+      description: "쓰기 가능(writable)한 소스에서 키를 삭제하고 파일에 저장합니다. 객체 키를 삭제하면 하위 키도 모두 삭제됩니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          source: {
+            type: "string",
+            description: "소스명 (writable: true로 설정된 소스)"
+          },
+          key: {
+            type: "string",
+            description: "삭제할 점 표기 키 (예: 'B17R2010.oldQuery')"
+          },
+          ifMatch: {
+            type: "string",
+            description: "query_json이 반환한 키 리비전. 그 사이 키 값이 바뀌었으면 삭제하지 않음"
+          }
+        },
+        required: ["source", "key"]
+      }
+    };
+  }
+
+  /**
+   * 키 삭제 실행
+   */
+  public async execute(params: DeleteJsonKeyParams): Promise<DeleteJsonKeyResult> {
+    const { source, key, ifMatch } = params;
+
+    this.sourceLogger.debug('키 삭제 시작', params);
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      const result = await this.cacheManager.deleteKey(source, key, ifMatch);
+
+      this.sourceLogger.info('키 삭제 완료', { source, key, duration: result.duration });
+
+      return {
+        success: true,
+        source,
+        key,
+        keys: result.keys,
+        revision: result.revision,
+        version: result.version,
+        diff: result.diff,
+        duration: result.duration,
+        writableSources: this.cacheManager.getWritableSources()
+      };
+
+    } catch (error) {
+      if (error instanceof CacheError) {
+        return this.createErrorResponse(params, error.message);
+      }
+      this.sourceLogger.error('키 삭제 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: DeleteJsonKeyParams): { valid: boolean; message?: string } {
+    const { source, key, ifMatch } = params;
+
+    if (!source || typeof source !== 'string') {
+      return {
+        valid: false,
+        message: 'source 파라미터가 필요합니다'
+      };
+    }
+
+    if (!this.cacheManager.getCache(source)) {
+      return {
+        valid: false,
+        message: `소스 '${source}'를 찾을 수 없습니다`
+      };
+    }
+
+    if (!key || typeof key !== 'string' || key.trim() === '') {
+      return {
+        valid: false,
+        message: 'key 파라미터가 필요합니다 (비어있지 않은 문자열)'
+      };
+    }
+
+    if (ifMatch !== undefined && (typeof ifMatch !== 'string' || ifMatch === '')) {
+      return {
+        valid: false,
+        message: 'ifMatch는 비어있지 않은 리비전 문자열이어야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: DeleteJsonKeyParams, message?: string): DeleteJsonKeyResult {
+    return {
+      success: false,
+      source: params.source,
+      key: params.key,
+      keys: 0,
+      duration: 0,
+      writableSources: this.cacheManager.getWritableSources(),
+      message
+    };
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      writableSources: this.cacheManager.getWritableSources()
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createDeleteJsonKeyTool(cacheManager: CacheManager): DeleteJsonKeyTool {
+  return new DeleteJsonKeyTool(cacheManager);
+}
@@ -0,0 +1,248 @@
+/**
+ * diff_source Tool - 소스 리로드 간 변경 내역 조회 Tool
+ * 리로드마다 보관한 스냅샷을 비교하여 추가/삭제/변경된 키와 이전/새 값을 반환
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { CacheError, DiffEntry, DiffSummary, SnapshotInfo } from '../types.js';
+
+export interface DiffSourceParams {
+  source: string;
+  fromVersion?: number;
+  toVersion?: number;
+  keyPrefix?: string;
+  limit?: number;
+  includeValues?: boolean;
+}
+
+export interface DiffSourceResult {
+  success: boolean;
+  source: string;
+  fromVersion?: number;
+  toVersion?: number;
+  fromLoadedAt?: string;
+  toLoadedAt?: string;
+  summary: DiffSummary;
+  added: DiffEntry[];
+  removed: DiffEntry[];
+  changed: DiffEntry[];
+  limited: boolean;
+  versions: SnapshotInfo[]; // 보관 중인 스냅샷
+  availableSources: string[];
+  message?: string;
+}
+
+export class DiffSourceTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('diff_source');
+  private readonly DEFAULT_LIMIT = 50;
+  private readonly MAX_LIMIT = 500;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "diff_source",
+      description: "소스의 리로드 간 변경 내역을 조회합니다. 리로드마다 보관한 스냅샷을 비교하여 추가/삭제/변경된 키와 이전/새 값을 반환합니다. 버전을 지정하지 않으면 최근 리로드의 변경 내역을 반환합니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          source: {
+            type: "string",
+            description: "소스명"
+          },
+          fromVersion: {
+            type: "number",
+            description: "비교 기준 스냅샷 버전 (미지정 시 toVersion 직전 버전)"
+          },
+          toVersion: {
+            type: "number",
+            description: "비교 대상 스냅샷 버전 (미지정 시 최신 버전)"
+          },
+          keyPrefix: {
+            type: "string",
+            description: "이 접두사로 시작하는 키만 반환 (예: 'b17.B17R2010')"
+          },
+          limit: {
+            type: "number",
+            description: "항목별(추가/삭제/변경) 최대 반환 개수 (기본값: 50, 최대: 500)"
+          },
+          includeValues: {
+            type: "boolean",
+            description: "이전/새 값 포함 여부 (기본값: true)"
+          }
+        },
+        required: ["source"]
+      }
+    };
+  }
+
+  /**
+   * 변경 내역 조회 실행
+   */
+  public async execute(params: DiffSourceParams): Promise<DiffSourceResult> {
+    const { source, fromVersion, toVersion, keyPrefix, limit, includeValues = true } = params;
+
+    this.sourceLogger.debug('변경 내역 조회 시작', params);
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      // 캐시 상태 확인
+      if (!this.cacheManager.isLoaded()) {
+        return this.createErrorResponse(params, '캐시가 로드되지 않았습니다');
+      }
+
+      const diff = this.cacheManager.diffSource(source, fromVersion, toVersion);
+      const effectiveLimit = Math.min(limit ?? this.DEFAULT_LIMIT, this.MAX_LIMIT);
+
+      const select = (entries: DiffEntry[]) => {
+        const filtered = keyPrefix ? entries.filter(entry => entry.key.startsWith(keyPrefix)) : entries;
+        return {
+          total: filtered.length,
+          entries: filtered
+            .slice(0, effectiveLimit)
+            .map(entry => includeValues ? entry : { key: entry.key })
+        };
+      };
+
+      const added = select(diff.added);
+      const removed = select(diff.removed);
+      const changed = select(diff.changed);
+      const summary = { added: added.total, removed: removed.total, changed: changed.total };
+      const empty = summary.added + summary.removed + summary.changed === 0;
+
+      this.sourceLogger.debug('변경 내역 조회 완료', {
+        source,
+        fromVersion: diff.fromVersion,
+        toVersion: diff.toVersion,
+        ...summary
+      });
+
+      return {
+        success: true,
+        source,
+        fromVersion: diff.fromVersion,
+        toVersion: diff.toVersion,
+        fromLoadedAt: diff.fromLoadedAt.toISOString(),
+        toLoadedAt: diff.toLoadedAt.toISOString(),
+        summary,
+        added: added.entries,
+        removed: removed.entries,
+        changed: changed.entries,
+        limited: [added, removed, changed].some(category => category.total > category.entries.length),
+        versions: this.cacheManager.getHistory(source) ?? [],
+        availableSources: this.getAvailableSources(),
+        message: empty ? `버전 ${diff.fromVersion} → ${diff.toVersion} 사이에 변경된 키가 없습니다` : undefined
+      };
+
+    } catch (error) {
+      if (error instanceof CacheError) {
+        return this.createErrorResponse(params, error.message);
+      }
+      this.sourceLogger.error('변경 내역 조회 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: DiffSourceParams): { valid: boolean; message?: string } {
+    const { source, fromVersion, toVersion, keyPrefix, limit } = params;
+
+    if (!source || typeof source !== 'string') {
+      return {
+        valid: false,
+        message: 'source 파라미터가 필요합니다'
+      };
+    }
+
+    if (!this.cacheManager.getCache(source)) {
+      return {
+        valid: false,
+        message: `소스 '${source}'를 찾을 수 없습니다`
+      };
+    }
+
+    for (const [name, version] of [['fromVersion', fromVersion], ['toVersion', toVersion]] as const) {
+      if (version !== undefined && (typeof version !== 'number' || !Number.isInteger(version) || version < 1)) {
+        return {
+          valid: false,
+          message: `${name}는 1 이상의 정수여야 합니다`
+        };
+      }
+    }
+
+    if (keyPrefix !== undefined && typeof keyPrefix !== 'string') {
+      return {
+        valid: false,
+        message: 'keyPrefix는 문자열이어야 합니다'
+      };
+    }
+
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+      return {
+        valid: false,
+        message: 'limit는 1 이상의 정수여야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: DiffSourceParams, message?: string): DiffSourceResult {
+    return {
+      success: false,
+      source: params.source,
+      fromVersion: params.fromVersion,
+      toVersion: params.toVersion,
+      summary: { added: 0, removed: 0, changed: 0 },
+      added: [],
+      removed: [],
+      changed: [],
+      limited: false,
+      versions: (params.source && this.cacheManager.getHistory(params.source)) || [],
+      availableSources: this.getAvailableSources(),
+      message
+    };
+  }
+
+  /**
+   * 사용 가능한 소스 목록 반환
+   */
+  private getAvailableSources(): string[] {
+    return this.cacheManager.getLoadedSources();
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      defaultLimit: this.DEFAULT_LIMIT,
+      maxLimit: this.MAX_LIMIT,
+      historyMemoryUsage: this.cacheManager.getHistoryMemoryUsage()
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createDiffSourceTool(cacheManager: CacheManager): DiffSourceTool {
+  return new DiffSourceTool(cacheManager);
+}
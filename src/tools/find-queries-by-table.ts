@@ -0,0 +1,254 @@
+/**
+ * find_queries_by_table Tool - 테이블 사용 쿼리 조회 Tool
+ * 로드 시 생성된 테이블 → 쿼리 역색인으로 특정 테이블을 읽거나 쓰는 쿼리 키를 반환
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { scoreKeyMatch } from '../utils/similarity.js';
+import { SqlOperation } from '../utils/sql-analyzer.js';
+import { TableUsage } from '../types.js';
+
+export interface FindQueriesByTableParams {
+  table: string;
+  source?: string;
+  operation?: string;
+  limit?: number;
+}
+
+export interface FindQueriesByTableResult {
+  success: boolean;
+  table: string;
+  source?: string;
+  operation?: SqlOperation;
+  results: TableUsage[];
+  summary: Record<SqlOperation, number>;
+  limited: boolean;
+  similarTables?: string[];
+  availableSources: string[];
+  message?: string;
+}
+
+const OPERATIONS: SqlOperation[] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE'];
+
+export class FindQueriesByTableTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('find_queries_by_table');
+  private readonly DEFAULT_LIMIT = 50;
+  private readonly MAX_LIMIT = 500;
+  private readonly SIMILAR_TABLE_LIMIT = 5;
+  private readonly SIMILAR_TABLE_MIN_SCORE = 0.5;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "find_queries_by_table",
+      description: "특정 테이블을 읽거나 쓰는 쿼리 키를 찾습니다 (영향도 분석용). 모든 소스의 SQL에서 추출한 테이블 → 쿼리 색인을 사용하며, 각 쿼리의 작업(SELECT/INSERT/UPDATE/DELETE/MERGE)을 함께 반환합니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          table: {
+            type: "string",
+            description: "테이블명 (예: 'TB_M47_WK_INST_CMN', 스키마 한정자 생략 가능)"
+          },
+          source: {
+            type: "string",
+            description: "특정 소스에서만 검색 (미지정 시 모든 소스)"
+          },
+          operation: {
+            type: "string",
+            enum: OPERATIONS,
+            description: "특정 작업으로 필터링 (예: 'UPDATE')"
+          },
+          limit: {
+            type: "number",
+            description: "반환할 쿼리 최대 개수 (기본값: 50, 최대: 500)"
+          }
+        },
+        required: ["table"]
+      }
+    };
+  }
+
+  /**
+   * 테이블 사용 쿼리 조회 실행
+   */
+  public async execute(params: FindQueriesByTableParams): Promise<FindQueriesByTableResult> {
+    const { table, source, limit } = params;
+
+    this.sourceLogger.debug('테이블 사용 쿼리 조회 시작', params);
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      // 캐시 상태 확인
+      if (!this.cacheManager.isLoaded()) {
+        return this.createErrorResponse(params, '캐시가 로드되지 않았습니다');
+      }
+
+      const operation = params.operation?.toUpperCase() as SqlOperation | undefined;
+      const effectiveLimit = Math.min(limit ?? this.DEFAULT_LIMIT, this.MAX_LIMIT);
+      const allResults = this.cacheManager.findQueriesByTable(table, source, { operation });
+      const results = allResults.slice(0, effectiveLimit);
+
+      const summary = this.createEmptySummary();
+      for (const usage of allResults) {
+        for (const op of usage.operations) {
+          summary[op]++;
+        }
+      }
+
+      this.sourceLogger.debug('테이블 사용 쿼리 조회 완료', {
+        table,
+        source,
+        operation,
+        total: allResults.length
+      });
+
+      return {
+        success: true,
+        table,
+        source,
+        operation,
+        results,
+        summary,
+        limited: allResults.length > results.length,
+        similarTables: results.length === 0 ? this.getSimilarTables(table, source) : undefined,
+        availableSources: this.getAvailableSources(),
+        message: results.length === 0 ? `테이블 '${table}'을 사용하는 쿼리가 없습니다` : undefined
+      };
+
+    } catch (error) {
+      this.sourceLogger.error('테이블 사용 쿼리 조회 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 색인된 테이블 중 이름이 비슷한 테이블
+   */
+  private getSimilarTables(table: string, source?: string): string[] {
+    const query = table.toUpperCase();
+
+    return this.cacheManager.listTables(source)
+      .map(name => ({ name, score: scoreKeyMatch(query, [name]) }))
+      .filter(candidate => candidate.score >= this.SIMILAR_TABLE_MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.SIMILAR_TABLE_LIMIT)
+      .map(candidate => candidate.name);
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: FindQueriesByTableParams): { valid: boolean; message?: string } {
+    const { table, source, operation, limit } = params;
+
+    if (!table || typeof table !== 'string' || table.trim() === '') {
+      return {
+        valid: false,
+        message: 'table 파라미터가 필요합니다 (비어있지 않은 문자열)'
+      };
+    }
+
+    if (table.length > 200) {
+      return {
+        valid: false,
+        message: 'table 길이가 너무 깁니다 (최대 200자)'
+      };
+    }
+
+    if (source !== undefined) {
+      if (typeof source !== 'string') {
+        return {
+          valid: false,
+          message: 'source는 문자열이어야 합니다'
+        };
+      }
+
+      if (!this.cacheManager.getCache(source)) {
+        return {
+          valid: false,
+          message: `소스 '${source}'를 찾을 수 없습니다`
+        };
+      }
+    }
+
+    if (
+      operation !== undefined &&
+      (typeof operation !== 'string' || !OPERATIONS.includes(operation.toUpperCase() as SqlOperation))
+    ) {
+      return {
+        valid: false,
+        message: `operation은 ${OPERATIONS.join(', ')} 중 하나여야 합니다`
+      };
+    }
+
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+      return {
+        valid: false,
+        message: 'limit는 1 이상의 정수여야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: FindQueriesByTableParams, message?: string): FindQueriesByTableResult {
+    return {
+      success: false,
+      table: params.table,
+      source: params.source,
+      results: [],
+      summary: this.createEmptySummary(),
+      limited: false,
+      availableSources: this.getAvailableSources(),
+      message
+    };
+  }
+
+  /**
+   * 작업별 개수 초기값
+   */
+  private createEmptySummary(): Record<SqlOperation, number> {
+    return Object.fromEntries(OPERATIONS.map(op => [op, 0])) as Record<SqlOperation, number>;
+  }
+
+  /**
+   * 사용 가능한 소스 목록 반환
+   */
+  private getAvailableSources(): string[] {
+    return this.cacheManager.getLoadedSources();
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      defaultLimit: this.DEFAULT_LIMIT,
+      maxLimit: this.MAX_LIMIT,
+      indexedTables: this.cacheManager.listTables().length
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createFindQueriesByTableTool(cacheManager: CacheManager): FindQueriesByTableTool {
+  return new FindQueriesByTableTool(cacheManager);
+}
@@ -6,6 +6,7 @@
 import { CacheManager } from '../cache/CacheManager.js';
 import { logger } from '../utils/logger.js';
 import { withGracefulDegradation } from '../utils/errors.js';
+import { MemoryBreakdown, MemoryBudgetStats, SourceFileInfo } from '../types.js';
 
 export interface ListSourcesParams {
   includeDetails?: boolean;
@@ -13,6 +14,16 @@ export interface ListSourcesParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface SourceFileDetails extends SourceFileInfo {
+  sizeFormatted: string;
+}
+
+export interface SourceMemoryDetails extends MemoryBreakdown {
+  totalFormatted: string;
+  dataFormatted: string;
+  indexesFormatted: string;
+}
+
 export interface SourceDetails {
   name: string;
   path: string;
@@ -22,12 +33,31 @@ export interface SourceDetails {
   loadedAt: string;
   loadedAtFormatted: string;
   hits: number;
+  indexedKeys: number;
+  avgLookupTime: number;
   isLoaded: boolean;
+  stale: boolean; // 마지막 리로드 실패, 이전 데이터 제공 중
+  writable: boolean; // set_json_value/patch_json/delete_json_key 허용
+  revision?: string; // 소스 리비전 (patch_json의 ifMatch에 사용)
+  diskSnapshot?: { savedAt: string; stale: boolean }; // 디스크 스냅샷에서 복원한 경우
+  residency: {
+    resident: boolean; // false면 메모리 예산 때문에 내려가 있고 다음 조회 시 다시 올라옴
+    lastAccessedAt?: string;
+    evictions: number;
+    restores: number;
+  };
+  lastError?: {
+    message: string;
+    code: string;
+    failedAt: string;
+  };
   isPrimary: boolean;
   isWatchEnabled: boolean;
   memoryUsage: number;
   memoryUsageFormatted: string;
+  memory?: SourceMemoryDetails; // 데이터/색인/최상위 섹션별 추정 크기 (로드 시 계산)
   averageKeyLength: number;
+  files?: SourceFileDetails[]; // 디렉토리/글롭 소스의 파일별 정보
 }
 
 export interface ListSourcesResult {
@@ -36,6 +66,7 @@ export interface ListSourcesResult {
   summary: {
     total: number;
     loaded: number;
+    stale: number;
     primary?: string;
     totalKeys: number;
     totalSize: number;
@@ -44,6 +75,7 @@ export interface ListSourcesResult {
     averageKeysPerSource: number;
     memoryUsage: number;
     memoryUsageFormatted: string;
+    memoryBudget: MemoryBudgetStats & { budgetFormatted?: string };
     uptime: number;
     uptimeFormatted: string;
     cacheHitRate: number;
@@ -128,6 +160,8 @@ export class ListSourcesTool {
         const memoryUsage = cache.estimateMemoryUsage();
         const config = this.cacheManager.getConfig();
         const sourceConfig = config?.sources[sourceName];
+        const loadError = cache.getLoadError();
+        const residency = this.cacheManager.getResidency(sourceName);
 
         const sourceDetails: SourceDetails = {
           name: sourceName,
@@ -138,12 +172,31 @@ export class ListSourcesTool {
           loadedAt: cacheStats.loadedAt.toISOString(),
           loadedAtFormatted: this.formatDate(cacheStats.loadedAt),
           hits: cacheStats.hits,
+          indexedKeys: cacheStats.indexedKeys,
+          avgLookupTime: cacheStats.avgLookupTime,
           isLoaded: cache.isLoaded(),
+          stale: cache.isStale(),
+          writable: cache.isWritable(),
+          revision: cache.getRevision() ?? undefined,
+          diskSnapshot: cache.getRestoredSnapshot() ?? undefined,
+          residency: {
+            resident: residency?.resident ?? true,
+            lastAccessedAt: residency?.lastAccessedAt?.toISOString(),
+            evictions: residency?.evictions ?? 0,
+            restores: residency?.restores ?? 0
+          },
+          lastError: loadError
+            ? { message: loadError.message, code: loadError.code, failedAt: loadError.failedAt.toISOString() }
+            : undefined,
           isPrimary: sourceConfig?.primary || false,
           isWatchEnabled: sourceConfig?.watch || false,
           memoryUsage,
           memoryUsageFormatted: this.formatFileSize(memoryUsage),
-          averageKeyLength: this.calculateAverageKeyLength(cache)
+          memory: this.formatMemory(cache.getMemoryBreakdown()),
+          averageKeyLength: this.calculateAverageKeyLength(cache),
+          files: cache.isMultiFile()
+            ? cache.getFiles().map(file => ({ ...file, sizeFormatted: this.formatFileSize(file.size) }))
+            : undefined
         };
 
         sources.push(sourceDetails);
@@ -164,6 +217,7 @@ export class ListSourcesTool {
       const summary = {
         total: allCaches.size,
         loaded: sortedSources.filter(s => s.isLoaded).length,
+        stale: sortedSources.filter(s => s.stale).length,
         primary: sortedSources.find(s => s.isPrimary)?.name,
         totalKeys,
         totalSize,
@@ -172,6 +226,10 @@ export class ListSourcesTool {
         averageKeysPerSource: totalKeys > 0 ? Math.round(totalKeys / sortedSources.length) : 0,
         memoryUsage: totalMemoryUsage,
         memoryUsageFormatted: this.formatFileSize(totalMemoryUsage),
+        memoryBudget: {
+          ...globalStats.memory,
+          budgetFormatted: globalStats.memory.budget !== null ? this.formatFileSize(globalStats.memory.budget) : undefined
+        },
         uptime: globalStats.uptime,
         uptimeFormatted: this.formatUptime(globalStats.uptime),
         cacheHitRate: globalStats.cacheHitRate
@@ -183,7 +241,7 @@ export class ListSourcesTool {
         version: this.version,
         config: {
           maxSources: 10,
-          maxFileSize: '50MB',
+          maxFileSize: `${this.cacheManager.getMaxFileSize()}MB`,
           autoReload: this.cacheManager.getConfig()?.options?.autoReload || false
         }
       };
@@ -259,7 +317,14 @@ export class ListSourcesTool {
       loadedAt: source.loadedAt,
       loadedAtFormatted: source.loadedAtFormatted,
       hits: source.hits,
+      indexedKeys: source.indexedKeys,
+      avgLookupTime: source.avgLookupTime,
       isLoaded: source.isLoaded,
+      stale: source.stale,
+      writable: source.writable,
+      revision: source.revision,
+      diskSnapshot: source.diskSnapshot,
+      residency: source.residency,
       isPrimary: source.isPrimary,
       isWatchEnabled: source.isWatchEnabled,
       memoryUsage: source.memoryUsage,
@@ -278,6 +343,7 @@ export class ListSourcesTool {
       summary: {
         total: 0,
         loaded: 0,
+        stale: 0,
         totalKeys: 0,
         totalSize: 0,
         totalSizeFormatted: '0 B',
@@ -285,6 +351,7 @@ export class ListSourcesTool {
         averageKeysPerSource: 0,
         memoryUsage: 0,
         memoryUsageFormatted: '0 B',
+        memoryBudget: this.cacheManager.getMemoryBudgetStats(),
         uptime: 0,
         uptimeFormatted: '0s',
         cacheHitRate: 0
@@ -294,7 +361,7 @@ export class ListSourcesTool {
         version: this.version,
         config: {
           maxSources: 10,
-          maxFileSize: '50MB',
+          maxFileSize: `${this.cacheManager.getMaxFileSize()}MB`,
           autoReload: false
         }
       },
@@ -315,6 +382,21 @@ export class ListSourcesTool {
     return `${size.toFixed(1)} ${units[unitIndex]}`;
   }
 
+  /**
+   * 메모리 추정치에 표시용 크기 추가
+   */
+  private formatMemory(memory: MemoryBreakdown | null): SourceMemoryDetails | undefined {
+    if (!memory) return undefined;
+
+    const { keys, values, tables } = memory.indexes;
+    return {
+      ...memory,
+      totalFormatted: this.formatFileSize(memory.total),
+      dataFormatted: this.formatFileSize(memory.data),
+      indexesFormatted: this.formatFileSize(keys + values + tables)
+    };
+  }
+
   /**
    * 날짜 포맷팅
    */
@@ -345,9 +427,13 @@ export class ListSourcesTool {
   }
 
   /**
-   * 평균 키 길이 계산
+   * 평균 키 길이 계산 (메모리에서 내린 소스는 다시 올리지 않도록 0)
    */
   private calculateAverageKeyLength(cache: any): number {
+    if (!cache.isResident()) {
+      return 0;
+    }
+
     try {
       const keys = cache.keys();
       if (keys.length === 0) return 0;
@@ -415,6 +501,7 @@ export class ListSourcesTool {
       loadedSources: globalStats.loadedSources,
       cacheHitRate: globalStats.cacheHitRate,
       memoryUsage: this.cacheManager.getMemoryUsage(),
+      memoryBudget: this.cacheManager.getMemoryBudget(),
       autoReloadEnabled: config?.options?.autoReload || false,
       lastUpdate: new Date().toISOString()
     };
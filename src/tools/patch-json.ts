@@ -0,0 +1,207 @@
+/**
+ * patch_json Tool - JSON Patch 적용 Tool
+ * writable 소스에 RFC 6902 JSON Patch 연산을 원자적으로 적용하고 파일에 저장
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { JSON_PATCH_OPS, JsonPatchOperation } from '../utils/json-patch.js';
+import { CacheError, DiffSummary } from '../types.js';
+
+export interface PatchJsonParams {
+  source: string;
+  operations: JsonPatchOperation[];
+  ifMatch?: string;
+}
+
+export interface PatchJsonResult {
+  success: boolean;
+  source: string;
+  applied: number;
+  keys: number;
+  revision?: string; // 변경 후 소스 리비전
+  version?: number;
+  diff?: DiffSummary;
+  duration: number;
+  writableSources: string[];
+  message?: string;
+}
+
+export class PatchJsonTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('patch_json');
+  private readonly MAX_OPERATIONS = 1000;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "patch_json",
+      description: "쓰기 가능(writable)한 소스에 JSON Patch(RFC 6902) 연산을 적용하고 파일에 저장합니다. 경로는 JSON Pointer(예: '/B17R2010/select/query')이며, 연산 중 하나라도 실패하면(test 불일치 포함) 아무것도 변경하지 않습니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          source: {
+            type: "string",
+            description: "소스명 (writable: true로 설정된 소스)"
+          },
+          operations: {
+            type: "array",
+            description: `패치 연산 목록 (최대 ${this.MAX_OPERATIONS}개)`,
+            items: {
+              type: "object",
+              properties: {
+                op: {
+                  type: "string",
+                  enum: JSON_PATCH_OPS
+                },
+                path: {
+                  type: "string",
+                  description: "대상 JSON Pointer"
+                },
+                from: {
+                  type: "string",
+                  description: "move/copy의 원본 JSON Pointer"
+                },
+                value: {
+                  description: "add/replace/test 값"
+                }
+              },
+              required: ["op", "path"]
+            }
+          },
+          ifMatch: {
+            type: "string",
+            description: "list_sources가 반환한 소스 리비전. 그 사이 소스가 바뀌었으면(리로드 포함) 적용하지 않음"
+          }
+        },
+        required: ["source", "operations"]
+      }
+    };
+  }
+
+  /**
+   * 패치 적용 실행
+   */
+  public async execute(params: PatchJsonParams): Promise<PatchJsonResult> {
+    const { source, operations, ifMatch } = params;
+
+    this.sourceLogger.debug('패치 적용 시작', { source, operations: operations?.length });
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      const result = await this.cacheManager.patchSource(source, operations, ifMatch);
+
+      this.sourceLogger.info('패치 적용 완료', {
+        source,
+        operations: operations.length,
+        duration: result.duration
+      });
+
+      return {
+        success: true,
+        source,
+        applied: operations.length,
+        keys: result.keys,
+        revision: result.revision,
+        version: result.version,
+        diff: result.diff,
+        duration: result.duration,
+        writableSources: this.cacheManager.getWritableSources()
+      };
+
+    } catch (error) {
+      if (error instanceof CacheError) {
+        return this.createErrorResponse(params, error.message);
+      }
+      this.sourceLogger.error('패치 적용 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증 (연산별 세부 검증은 적용 시 수행)
+   */
+  private validateParams(params: PatchJsonParams): { valid: boolean; message?: string } {
+    const { source, operations, ifMatch } = params;
+
+    if (!source || typeof source !== 'string') {
+      return {
+        valid: false,
+        message: 'source 파라미터가 필요합니다'
+      };
+    }
+
+    if (!this.cacheManager.getCache(source)) {
+      return {
+        valid: false,
+        message: `소스 '${source}'를 찾을 수 없습니다`
+      };
+    }
+
+    if (!Array.isArray(operations) || operations.length === 0) {
+      return {
+        valid: false,
+        message: 'operations는 비어있지 않은 배열이어야 합니다'
+      };
+    }
+
+    if (operations.length > this.MAX_OPERATIONS) {
+      return {
+        valid: false,
+        message: `연산이 너무 많습니다 (최대 ${this.MAX_OPERATIONS}개)`
+      };
+    }
+
+    if (ifMatch !== undefined && (typeof ifMatch !== 'string' || ifMatch === '')) {
+      return {
+        valid: false,
+        message: 'ifMatch는 비어있지 않은 리비전 문자열이어야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: PatchJsonParams, message?: string): PatchJsonResult {
+    return {
+      success: false,
+      source: params.source,
+      applied: 0,
+      keys: 0,
+      duration: 0,
+      writableSources: this.cacheManager.getWritableSources(),
+      message
+    };
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      maxOperations: this.MAX_OPERATIONS,
+      writableSources: this.cacheManager.getWritableSources()
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createPatchJsonTool(cacheManager: CacheManager): PatchJsonTool {
+  return new PatchJsonTool(cacheManager);
+}
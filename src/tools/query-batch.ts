@@ -0,0 +1,334 @@
+/**
+ * query_json_batch Tool - 다중 키 일괄 조회 Tool
+ * 여러 키를 한 번의 호출로 조회하며, 전체 응답 크기 예산을 넘으면 남은 항목의 데이터를 생략
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+
+export interface BatchQueryItem {
+  key: string;
+  source?: string;
+}
+
+export interface QueryJsonBatchParams {
+  queries: BatchQueryItem[];
+  source?: string;
+  jsonpath?: string;
+  maxResponseSize?: number;
+}
+
+export interface BatchQueryItemResult {
+  key: string;
+  source?: string;
+  found: boolean;
+  revision?: string; // 키 리비전
+  data?: any;
+  truncated?: boolean;
+  message?: string;
+}
+
+export interface QueryJsonBatchResult {
+  success: boolean;
+  results: BatchQueryItemResult[];
+  summary: {
+    total: number;
+    found: number;
+    notFound: number;
+    truncated: number;
+    responseSize: number;
+    maxResponseSize: number;
+  };
+  availableSources: string[];
+  message?: string;
+}
+
+export class QueryJsonBatchTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('query_json_batch');
+  private readonly MAX_QUERIES = 100;
+  private readonly DEFAULT_MAX_RESPONSE_SIZE = 100 * 1024; // 100KB
+  private readonly MAX_RESPONSE_SIZE = 500 * 1024; // 500KB
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "query_json_batch",
+      description: "여러 키를 한 번에 조회합니다 (예: 같은 프로그램의 B17R2010.* 쿼리 여러 개). 키별 소스 지정과 공통 JSONPath를 지원하며, 전체 응답 크기 예산을 넘으면 남은 항목은 데이터 없이 truncated로 표시됩니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          queries: {
+            type: "array",
+            description: "조회할 키 목록 (최대 100개)",
+            items: {
+              type: "object",
+              properties: {
+                key: {
+                  type: "string",
+                  description: "조회할 키"
+                },
+                source: {
+                  type: "string",
+                  description: "이 키의 소스 (미지정 시 공통 source 또는 전체 검색)"
+                }
+              },
+              required: ["key"]
+            }
+          },
+          source: {
+            type: "string",
+            description: "키별 source가 없을 때 사용할 공통 소스"
+          },
+          jsonpath: {
+            type: "string",
+            description: "모든 결과에 적용할 공통 JSONPath (선택)"
+          },
+          maxResponseSize: {
+            type: "number",
+            description: "전체 응답 데이터 크기 예산 (바이트, 기본값: 102400, 최대: 512000)"
+          }
+        },
+        required: ["queries"]
+      }
+    };
+  }
+
+  /**
+   * 일괄 조회 실행
+   */
+  public async execute(params: QueryJsonBatchParams): Promise<QueryJsonBatchResult> {
+    const { queries, source, jsonpath } = params;
+    const budget = Math.min(
+      params.maxResponseSize ?? this.DEFAULT_MAX_RESPONSE_SIZE,
+      this.MAX_RESPONSE_SIZE
+    );
+
+    this.sourceLogger.debug('일괄 조회 시작', {
+      count: Array.isArray(queries) ? queries.length : 0,
+      source,
+      jsonpath,
+      budget
+    });
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(budget, validationResult.message);
+      }
+
+      // 캐시 상태 확인
+      if (!this.cacheManager.isLoaded()) {
+        return this.createErrorResponse(budget, '캐시가 로드되지 않았습니다');
+      }
+
+      // JSONPath 라이브러리는 필요할 때만 동적 import
+      const JSONPath = jsonpath ? (await import('jsonpath-plus')).JSONPath : undefined;
+
+      const results: BatchQueryItemResult[] = [];
+      let responseSize = 0;
+      let budgetExceeded = false;
+
+      for (const item of queries) {
+        const queryResult = this.cacheManager.query(item.key, item.source ?? source);
+
+        if (!queryResult.found) {
+          results.push({
+            key: item.key,
+            found: false,
+            message: `키 '${item.key}'를 찾을 수 없습니다`
+          });
+          continue;
+        }
+
+        // 예산을 이미 넘었으면 데이터 없이 표시만
+        if (budgetExceeded) {
+          results.push({
+            key: item.key,
+            source: queryResult.source,
+            found: true,
+            truncated: true
+          });
+          continue;
+        }
+
+        let data = queryResult.value;
+        if (JSONPath && jsonpath) {
+          try {
+            data = JSONPath({ path: jsonpath, json: data });
+          } catch (error) {
+            results.push({
+              key: item.key,
+              source: queryResult.source,
+              found: true,
+              message: `JSONPath 쿼리 실패: ${error instanceof Error ? error.message : String(error)}`
+            });
+            continue;
+          }
+        }
+
+        const size = Buffer.byteLength(JSON.stringify(data) ?? '', 'utf-8');
+        if (responseSize + size > budget) {
+          budgetExceeded = true;
+          results.push({
+            key: item.key,
+            source: queryResult.source,
+            found: true,
+            truncated: true,
+            message: `응답 크기 예산(${budget}바이트) 초과로 데이터가 생략되었습니다`
+          });
+          continue;
+        }
+
+        responseSize += size;
+        results.push({
+          key: item.key,
+          source: queryResult.source,
+          found: true,
+          revision: this.cacheManager.getKeyRevision(queryResult),
+          data
+        });
+      }
+
+      const summary = {
+        total: results.length,
+        found: results.filter(r => r.found).length,
+        notFound: results.filter(r => !r.found).length,
+        truncated: results.filter(r => r.truncated).length,
+        responseSize,
+        maxResponseSize: budget
+      };
+
+      this.sourceLogger.debug('일괄 조회 완료', summary);
+
+      return {
+        success: true,
+        results,
+        summary,
+        availableSources: this.getAvailableSources(),
+        message: summary.truncated > 0
+          ? `${summary.truncated}개 항목이 응답 크기 제한으로 생략되었습니다. 해당 키만 다시 조회하세요.`
+          : undefined
+      };
+
+    } catch (error) {
+      this.sourceLogger.error('일괄 조회 중 오류', error);
+      return this.createErrorResponse(budget, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: QueryJsonBatchParams): { valid: boolean; message?: string } {
+    const { queries, source, jsonpath, maxResponseSize } = params;
+
+    if (!Array.isArray(queries) || queries.length === 0) {
+      return {
+        valid: false,
+        message: 'queries 파라미터가 필요합니다 (비어있지 않은 배열)'
+      };
+    }
+
+    if (queries.length > this.MAX_QUERIES) {
+      return {
+        valid: false,
+        message: `queries는 최대 ${this.MAX_QUERIES}개까지 가능합니다`
+      };
+    }
+
+    for (const [index, item] of queries.entries()) {
+      if (!item || typeof item.key !== 'string' || item.key.trim() === '') {
+        return {
+          valid: false,
+          message: `queries[${index}].key가 필요합니다 (비어있지 않은 문자열)`
+        };
+      }
+
+      if (item.source !== undefined && typeof item.source !== 'string') {
+        return {
+          valid: false,
+          message: `queries[${index}].source는 문자열이어야 합니다`
+        };
+      }
+    }
+
+    if (source !== undefined && typeof source !== 'string') {
+      return {
+        valid: false,
+        message: 'source는 문자열이어야 합니다'
+      };
+    }
+
+    if (jsonpath !== undefined && (typeof jsonpath !== 'string' || jsonpath.length > 500)) {
+      return {
+        valid: false,
+        message: 'jsonpath는 500자 이하의 문자열이어야 합니다'
+      };
+    }
+
+    if (
+      maxResponseSize !== undefined &&
+      (typeof maxResponseSize !== 'number' || !Number.isInteger(maxResponseSize) || maxResponseSize < 1)
+    ) {
+      return {
+        valid: false,
+        message: 'maxResponseSize는 1 이상의 정수여야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(budget: number, message?: string): QueryJsonBatchResult {
+    return {
+      success: false,
+      results: [],
+      summary: {
+        total: 0,
+        found: 0,
+        notFound: 0,
+        truncated: 0,
+        responseSize: 0,
+        maxResponseSize: budget
+      },
+      availableSources: this.getAvailableSources(),
+      message
+    };
+  }
+
+  /**
+   * 사용 가능한 소스 목록 반환
+   */
+  private getAvailableSources(): string[] {
+    return this.cacheManager.getLoadedSources();
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      maxQueries: this.MAX_QUERIES,
+      defaultMaxResponseSize: this.DEFAULT_MAX_RESPONSE_SIZE,
+      maxResponseSize: this.MAX_RESPONSE_SIZE
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createQueryJsonBatchTool(cacheManager: CacheManager): QueryJsonBatchTool {
+  return new QueryJsonBatchTool(cacheManager);
+}
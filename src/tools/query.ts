@@ -6,11 +6,14 @@
 import { CacheManager } from '../cache/CacheManager.js';
 import { logger } from '../utils/logger.js';
 import { withGracefulDegradation } from '../utils/errors.js';
+import { KeySuggestion } from '../types.js';
+import { isKeyPattern } from '../utils/key-pattern.js';
 
 export interface QueryJsonParams {
   key: string;
   source?: string;
   jsonpath?: string;
+  limit?: number;
 }
 
 export interface QueryJsonResult {
@@ -19,13 +22,24 @@ export interface QueryJsonResult {
   source?: string;
   key: string;
   found: boolean;
+  revision?: string; // 키 리비전 (set_json_value/delete_json_key의 ifMatch에 사용)
   message?: string;
   availableSources?: string[];
+  suggestions?: KeySuggestion[];
+  // 패턴 쿼리 전용 (data는 key → value 맵)
+  pattern?: boolean;
+  matchSources?: Record<string, string>;
+  total?: number;
+  truncated?: boolean;
 }
 
 export class QueryJsonTool {
   private cacheManager: CacheManager;
   private sourceLogger = logger.withSource('query_json');
+  private readonly SUGGESTION_LIMIT = 5;
+  private readonly SUGGESTION_MIN_SCORE = 0.3;
+  private readonly DEFAULT_PATTERN_LIMIT = 100;
+  private readonly MAX_PATTERN_LIMIT = 1000;
 
   constructor(cacheManager: CacheManager) {
     this.cacheManager = cacheManager;
@@ -37,13 +51,13 @@ export class QueryJsonTool {
   public getSchema() {
     return {
       name: "query_json",
-      description: "JSON 캐시에서 키로 데이터 조회. 여러 JSON 소스를 동시에 관리하며 키값으로 빠르게 검색합니다. 중첩 키 접근(예: user.profile.name)과 JSONPath 쿼리를 지원합니다.",
+      description: "JSON 캐시에서 키로 데이터 조회. 여러 JSON 소스를 동시에 관리하며 키값으로 빠르게 검색합니다. 중첩 키 접근(예: user.profile.name), 와일드카드 패턴(예: b17.B17R2010.*, *.select.1row)과 JSONPath 쿼리를 지원합니다.",
       inputSchema: {
         type: "object",
         properties: {
           key: {
             type: "string",
-            description: "조회할 키 (중첩 키는 dot notation: user.profile.name)"
+            description: "조회할 키 (중첩 키는 dot notation: user.profile.name, 패턴: * 는 한 단계, ** 는 여러 단계, ? 는 한 글자)"
           },
           source: {
             type: "string",
@@ -51,7 +65,11 @@ export class QueryJsonTool {
           },
           jsonpath: {
             type: "string",
-            description: "JSONPath 쿼리 (선택, 복잡한 데이터 필터링용)"
+            description: "JSONPath 쿼리 (선택, 복잡한 데이터 필터링용, 패턴 쿼리는 각 값에 적용)"
+          },
+          limit: {
+            type: "number",
+            description: "패턴 쿼리 시 반환할 최대 키 개수 (기본값: 100, 최대: 1000)"
           }
         },
         required: ["key"]
@@ -63,9 +81,9 @@ export class QueryJsonTool {
    * 쿼리 실행
    */
   public async execute(params: QueryJsonParams): Promise<QueryJsonResult> {
-    const { key, source, jsonpath } = params;
+    const { key, source, jsonpath, limit } = params;
 
-    this.sourceLogger.debug('쿼리 실행 시작', { key, source, jsonpath });
+    this.sourceLogger.debug('쿼리 실행 시작', { key, source, jsonpath, limit });
 
     try {
       // 파라미터 검증
@@ -80,6 +98,11 @@ export class QueryJsonTool {
         };
       }
 
+      // 와일드카드 패턴인 경우 여러 키 조회
+      if (isKeyPattern(key)) {
+        return await this.executePatternQuery(key, source, jsonpath, limit);
+      }
+
       // JSONPath 쿼리인 경우 별도 처리
       if (jsonpath) {
         return await this.executeJsonPathQuery(key, source, jsonpath);
@@ -102,7 +125,8 @@ export class QueryJsonTool {
           data: this.formatValue(queryResult.value),
           source: queryResult.source,
           key,
-          found: true
+          found: true,
+          revision: this.cacheManager.getKeyRevision(queryResult)
         };
       } else {
         return {
@@ -111,7 +135,8 @@ export class QueryJsonTool {
           found: false,
           message: `키 '${key}'를 찾을 수 없습니다`,
           source: queryResult.source,
-          availableSources: this.getAvailableSources()
+          availableSources: this.getAvailableSources(),
+          suggestions: this.getSuggestions(key, source)
         };
       }
 
@@ -148,7 +173,8 @@ export class QueryJsonTool {
           key,
           found: false,
           message: `키 '${key}'를 찾을 수 없습니다`,
-          availableSources: this.getAvailableSources()
+          availableSources: this.getAvailableSources(),
+          suggestions: this.getSuggestions(key, source)
         };
       }
 
@@ -182,11 +208,84 @@ export class QueryJsonTool {
     }
   }
 
+  /**
+   * 와일드카드 패턴 쿼리 실행
+   * 일치한 키들을 key → value 맵으로 반환하며, limit을 넘으면 truncated 표시
+   */
+  private async executePatternQuery(
+    pattern: string,
+    source: string | undefined,
+    jsonpath: string | undefined,
+    limit: number | undefined
+  ): Promise<QueryJsonResult> {
+    const effectiveLimit = Math.min(limit ?? this.DEFAULT_PATTERN_LIMIT, this.MAX_PATTERN_LIMIT);
+    const patternResult = this.cacheManager.queryPattern(pattern, source, effectiveLimit);
+    const matchedKeys = Object.keys(patternResult.matches);
+
+    this.sourceLogger.debug('패턴 쿼리 결과', {
+      pattern,
+      source,
+      returned: matchedKeys.length,
+      total: patternResult.total
+    });
+
+    if (matchedKeys.length === 0) {
+      return {
+        success: false,
+        key: pattern,
+        found: false,
+        pattern: true,
+        message: `패턴 '${pattern}'과 일치하는 키가 없습니다`,
+        availableSources: this.getAvailableSources()
+      };
+    }
+
+    const JSONPath = jsonpath ? (await import('jsonpath-plus')).JSONPath : undefined;
+    const data: Record<string, any> = {};
+
+    for (const matchedKey of matchedKeys) {
+      let value = patternResult.matches[matchedKey];
+
+      if (JSONPath && jsonpath) {
+        try {
+          value = JSONPath({ path: jsonpath, json: value });
+        } catch (error) {
+          this.sourceLogger.error('JSONPath 쿼리 실패', error);
+          return {
+            success: false,
+            key: pattern,
+            found: false,
+            pattern: true,
+            message: `JSONPath 쿼리 실패: ${error instanceof Error ? error.message : String(error)}`,
+            availableSources: this.getAvailableSources()
+          };
+        }
+      }
+
+      data[matchedKey] = this.formatValue(value);
+    }
+
+    return {
+      success: true,
+      data,
+      source,
+      key: pattern,
+      found: true,
+      pattern: true,
+      matchSources: patternResult.sources,
+      total: patternResult.total,
+      truncated: patternResult.truncated,
+      message: patternResult.truncated
+        ? `${patternResult.total}개 중 ${matchedKeys.length}개만 반환했습니다. 패턴을 좁히거나 limit을 늘리세요.`
+        : undefined
+    };
+  }
+
   /**
    * 파라미터 검증
    */
   private validateParams(params: QueryJsonParams): { valid: boolean; message?: string } {
-    const { key, source, jsonpath } = params;
+    const { key, source, jsonpath, limit } = params;
 
     // key 필수 검증
     if (!key || typeof key !== 'string' || key.trim() === '') {
@@ -227,6 +326,14 @@ export class QueryJsonTool {
       };
     }
 
+    // limit 검증 (패턴 쿼리용)
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+      return {
+        valid: false,
+        message: 'limit는 1 이상의 정수여야 합니다'
+      };
+    }
+
     return { valid: true };
   }
 
@@ -274,6 +381,24 @@ export class QueryJsonTool {
     }
   }
 
+  /**
+   * 찾지 못한 키에 대한 유사 키 추천
+   */
+  private getSuggestions(key: string, source?: string): KeySuggestion[] {
+    try {
+      const scope = source && this.cacheManager.getCache(source) ? source : undefined;
+      return this.cacheManager.suggestKeys(
+        key,
+        scope,
+        this.SUGGESTION_LIMIT,
+        this.SUGGESTION_MIN_SCORE
+      );
+    } catch (error) {
+      this.sourceLogger.warn('유사 키 추천 실패', error);
+      return [];
+    }
+  }
+
   /**
    * 사용 가능한 소스 목록 반환
    */
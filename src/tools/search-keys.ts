@@ -0,0 +1,204 @@
+/**
+ * search_json_keys Tool - 유사 키 검색 Tool
+ * 편집 거리, 토큰 겹침, 부분 문자열 일치로 후보 키를 순위화하여 반환
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { KeySuggestion } from '../types.js';
+
+export interface SearchJsonKeysParams {
+  query: string;
+  source?: string;
+  limit?: number;
+  minScore?: number;
+}
+
+export interface SearchJsonKeysResult {
+  success: boolean;
+  query: string;
+  source?: string;
+  suggestions: KeySuggestion[];
+  availableSources: string[];
+  message?: string;
+}
+
+export class SearchJsonKeysTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('search_json_keys');
+  private readonly DEFAULT_LIMIT = 10;
+  private readonly MAX_LIMIT = 50;
+  private readonly DEFAULT_MIN_SCORE = 0.3;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "search_json_keys",
+      description: "정확한 키를 모를 때 유사한 키를 순위별로 검색합니다. 편집 거리, 토큰 겹침, 대소문자 무시 부분 일치를 조합해 모든 소스(또는 지정 소스)에서 후보를 찾습니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "찾으려는 키 또는 키 일부 (예: 'B17R2010.selct', 'cancelCryn')"
+          },
+          source: {
+            type: "string",
+            description: "특정 소스에서만 검색 (미지정 시 모든 소스)"
+          },
+          limit: {
+            type: "number",
+            description: "반환할 후보 최대 개수 (기본값: 10, 최대: 50)"
+          },
+          minScore: {
+            type: "number",
+            description: "최소 유사도 점수 0~1 (기본값: 0.3)"
+          }
+        },
+        required: ["query"]
+      }
+    };
+  }
+
+  /**
+   * 유사 키 검색 실행
+   */
+  public async execute(params: SearchJsonKeysParams): Promise<SearchJsonKeysResult> {
+    const { query, source, limit, minScore = this.DEFAULT_MIN_SCORE } = params;
+
+    this.sourceLogger.debug('유사 키 검색 시작', { query, source, limit, minScore });
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(query, validationResult.message);
+      }
+
+      // 캐시 상태 확인
+      if (!this.cacheManager.isLoaded()) {
+        return this.createErrorResponse(query, '캐시가 로드되지 않았습니다');
+      }
+
+      const startTime = performance.now();
+      const effectiveLimit = Math.min(limit ?? this.DEFAULT_LIMIT, this.MAX_LIMIT);
+      const suggestions = this.cacheManager.suggestKeys(query, source, effectiveLimit, minScore);
+
+      this.sourceLogger.performance('search_json_keys', performance.now() - startTime, {
+        query,
+        source,
+        returned: suggestions.length
+      });
+
+      return {
+        success: true,
+        query,
+        source,
+        suggestions,
+        availableSources: this.getAvailableSources(),
+        message: suggestions.length === 0 ? `'${query}'와 유사한 키가 없습니다` : undefined
+      };
+
+    } catch (error) {
+      this.sourceLogger.error('유사 키 검색 중 오류', error);
+      return this.createErrorResponse(query, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: SearchJsonKeysParams): { valid: boolean; message?: string } {
+    const { query, source, limit, minScore } = params;
+
+    if (!query || typeof query !== 'string' || query.trim() === '') {
+      return {
+        valid: false,
+        message: 'query 파라미터가 필요합니다 (비어있지 않은 문자열)'
+      };
+    }
+
+    if (query.length > 200) {
+      return {
+        valid: false,
+        message: 'query 길이가 너무 깁니다 (최대 200자)'
+      };
+    }
+
+    if (source !== undefined) {
+      if (typeof source !== 'string') {
+        return {
+          valid: false,
+          message: 'source는 문자열이어야 합니다'
+        };
+      }
+
+      if (!this.cacheManager.getCache(source)) {
+        return {
+          valid: false,
+          message: `소스 '${source}'를 찾을 수 없습니다`
+        };
+      }
+    }
+
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+      return {
+        valid: false,
+        message: 'limit는 1 이상의 정수여야 합니다'
+      };
+    }
+
+    if (minScore !== undefined && (typeof minScore !== 'number' || minScore < 0 || minScore > 1)) {
+      return {
+        valid: false,
+        message: 'minScore는 0~1 사이의 숫자여야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(query: string, message?: string): SearchJsonKeysResult {
+    return {
+      success: false,
+      query,
+      suggestions: [],
+      availableSources: this.getAvailableSources(),
+      message
+    };
+  }
+
+  /**
+   * 사용 가능한 소스 목록 반환
+   */
+  private getAvailableSources(): string[] {
+    return this.cacheManager.getLoadedSources();
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      defaultLimit: this.DEFAULT_LIMIT,
+      maxLimit: this.MAX_LIMIT,
+      defaultMinScore: this.DEFAULT_MIN_SCORE
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createSearchJsonKeysTool(cacheManager: CacheManager): SearchJsonKeysTool {
+  return new SearchJsonKeysTool(cacheManager);
+}
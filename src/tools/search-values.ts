@@ -0,0 +1,221 @@
+/**
+ * search_json_values Tool - 값 전문 검색 Tool
+ * 키 이름이 아닌 문자열 값(SQL, 설명 등)에서 검색어를 찾아 키 경로/필드/스니펫 반환
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { ValueSearchResult } from '../types.js';
+
+export interface SearchJsonValuesParams {
+  query: string;
+  source?: string;
+  field?: string;
+  limit?: number;
+}
+
+export interface SearchJsonValuesResult {
+  success: boolean;
+  query: string;
+  source?: string;
+  field?: string;
+  results: ValueSearchResult[];
+  limited: boolean;
+  availableSources: string[];
+  message?: string;
+}
+
+export class SearchJsonValuesTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('search_json_values');
+  private readonly DEFAULT_LIMIT = 20;
+  private readonly MAX_LIMIT = 100;
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "search_json_values",
+      description: "JSON 값 전문 검색. 키 이름이 아니라 문자열 값(SQL, desc 등)에 포함된 단어로 항목을 찾습니다. 예: 특정 테이블을 사용하는 쿼리, 설명에 '작업지시'가 들어간 항목. 한글은 부분 일치를 지원합니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "검색어 (공백으로 구분된 단어는 모두 포함해야 일치, 예: 'TB_M47_WK_INST_CMN', '작업지시')"
+          },
+          source: {
+            type: "string",
+            description: "특정 소스에서만 검색 (미지정 시 모든 소스)"
+          },
+          field: {
+            type: "string",
+            description: "특정 필드에서만 검색 (예: 'query', 'desc')"
+          },
+          limit: {
+            type: "number",
+            description: "반환할 키 최대 개수 (기본값: 20, 최대: 100)"
+          }
+        },
+        required: ["query"]
+      }
+    };
+  }
+
+  /**
+   * 값 검색 실행
+   */
+  public async execute(params: SearchJsonValuesParams): Promise<SearchJsonValuesResult> {
+    const { query, source, field, limit } = params;
+
+    this.sourceLogger.debug('값 검색 시작', { query, source, field, limit });
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      // 캐시 상태 확인
+      if (!this.cacheManager.isLoaded()) {
+        return this.createErrorResponse(params, '캐시가 로드되지 않았습니다');
+      }
+
+      const startTime = performance.now();
+      const effectiveLimit = Math.min(limit ?? this.DEFAULT_LIMIT, this.MAX_LIMIT);
+      const results = this.cacheManager.searchValues(query, source, {
+        field,
+        limit: effectiveLimit
+      });
+
+      this.sourceLogger.performance('search_json_values', performance.now() - startTime, {
+        query,
+        source,
+        field,
+        returned: results.length
+      });
+
+      return {
+        success: true,
+        query,
+        source,
+        field,
+        results,
+        limited: results.length >= effectiveLimit,
+        availableSources: this.getAvailableSources(),
+        message: results.length === 0 ? `'${query}'를 포함하는 값이 없습니다` : undefined
+      };
+
+    } catch (error) {
+      this.sourceLogger.error('값 검색 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: SearchJsonValuesParams): { valid: boolean; message?: string } {
+    const { query, source, field, limit } = params;
+
+    if (!query || typeof query !== 'string' || query.trim() === '') {
+      return {
+        valid: false,
+        message: 'query 파라미터가 필요합니다 (비어있지 않은 문자열)'
+      };
+    }
+
+    if (query.length > 200) {
+      return {
+        valid: false,
+        message: 'query 길이가 너무 깁니다 (최대 200자)'
+      };
+    }
+
+    if (source !== undefined) {
+      if (typeof source !== 'string') {
+        return {
+          valid: false,
+          message: 'source는 문자열이어야 합니다'
+        };
+      }
+
+      const cache = this.cacheManager.getCache(source);
+      if (!cache) {
+        return {
+          valid: false,
+          message: `소스 '${source}'를 찾을 수 없습니다`
+        };
+      }
+
+      if (!cache.hasValueIndex()) {
+        return {
+          valid: false,
+          message: `소스 '${source}'는 값 색인이 비활성화되어 있습니다 (indexValues: false)`
+        };
+      }
+    }
+
+    if (field !== undefined && typeof field !== 'string') {
+      return {
+        valid: false,
+        message: 'field는 문자열이어야 합니다'
+      };
+    }
+
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+      return {
+        valid: false,
+        message: 'limit는 1 이상의 정수여야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: SearchJsonValuesParams, message?: string): SearchJsonValuesResult {
+    return {
+      success: false,
+      query: params.query,
+      source: params.source,
+      field: params.field,
+      results: [],
+      limited: false,
+      availableSources: this.getAvailableSources(),
+      message
+    };
+  }
+
+  /**
+   * 사용 가능한 소스 목록 반환
+   */
+  private getAvailableSources(): string[] {
+    return this.cacheManager.getLoadedSources();
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      defaultLimit: this.DEFAULT_LIMIT,
+      maxLimit: this.MAX_LIMIT
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createSearchJsonValuesTool(cacheManager: CacheManager): SearchJsonValuesTool {
+  return new SearchJsonValuesTool(cacheManager);
+}
@@ -0,0 +1,196 @@
+/**
+ * set_json_value Tool - 키 값 설정 Tool
+ * writable 소스의 키 값을 변경(없으면 추가)하고 파일에 저장
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { CacheError, DiffSummary } from '../types.js';
+
+export interface SetJsonValueParams {
+  source: string;
+  key: string;
+  value: unknown;
+  ifMatch?: string;
+}
+
+export interface SetJsonValueResult {
+  success: boolean;
+  source: string;
+  key: string;
+  created: boolean; // 새로 추가된 키인지
+  keys: number;
+  revision?: string; // 변경 후 소스 리비전
+  keyRevision?: string; // 변경 후 키 리비전
+  version?: number;
+  diff?: DiffSummary;
+  duration: number;
+  writableSources: string[];
+  message?: string;
+}
+
+export class SetJsonValueTool {
+  private cacheManager: CacheManager;
+  private sourceLogger = logger.withSource('set_json_value');
+
+  constructor(cacheManager: CacheManager) {
+    this.cacheManager = cacheManager;
+  }
+
+  /**
+   * Tool 스키마 정의
+   */
+  public getSchema() {
+    return {
+      name: "set_json_value",
+      description: "쓰기 가능(writable)한 소스의 키 값을 설정하고 파일에 저장합니다. 키가 없으면 추가하며, 기존 키는 조회와 같은 규칙(대소문자 무시, 섹션 생략)으로 찾습니다.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          source: {
+            type: "string",
+            description: "소스명 (writable: true로 설정된 소스)"
+          },
+          key: {
+            type: "string",
+            description: "점 표기 키 (예: 'B17R2010.select.desc')"
+          },
+          value: {
+            description: "설정할 값 (문자열, 숫자, 불리언, 객체, 배열, null)"
+          },
+          ifMatch: {
+            type: "string",
+            description: "query_json이 반환한 키 리비전. 그 사이 키 값이 바뀌었으면 저장하지 않음 ('*'는 키가 있을 때만 저장)"
+          }
+        },
+        required: ["source", "key", "value"]
+      }
+    };
+  }
+
+  /**
+   * 값 설정 실행
+   */
+  public async execute(params: SetJsonValueParams): Promise<SetJsonValueResult> {
+    const { source, key, value, ifMatch } = params;
+
+    this.sourceLogger.debug('값 설정 시작', { source, key });
+
+    try {
+      // 파라미터 검증
+      const validationResult = this.validateParams(params);
+      if (!validationResult.valid) {
+        return this.createErrorResponse(params, validationResult.message);
+      }
+
+      const created = !this.cacheManager.getCache(source)?.has(key);
+      const result = await this.cacheManager.setValue(source, key, value, ifMatch);
+
+      this.sourceLogger.info('값 설정 완료', { source, key, created, duration: result.duration });
+
+      return {
+        success: true,
+        source,
+        key,
+        created,
+        keys: result.keys,
+        revision: result.revision,
+        keyRevision: result.keyRevision,
+        version: result.version,
+        diff: result.diff,
+        duration: result.duration,
+        writableSources: this.cacheManager.getWritableSources()
+      };
+
+    } catch (error) {
+      if (error instanceof CacheError) {
+        return this.createErrorResponse(params, error.message);
+      }
+      this.sourceLogger.error('값 설정 중 오류', error);
+      return this.createErrorResponse(params, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 파라미터 검증
+   */
+  private validateParams(params: SetJsonValueParams): { valid: boolean; message?: string } {
+    const { source, key, value, ifMatch } = params;
+
+    if (!source || typeof source !== 'string') {
+      return {
+        valid: false,
+        message: 'source 파라미터가 필요합니다'
+      };
+    }
+
+    if (!this.cacheManager.getCache(source)) {
+      return {
+        valid: false,
+        message: `소스 '${source}'를 찾을 수 없습니다`
+      };
+    }
+
+    if (!key || typeof key !== 'string' || key.trim() === '') {
+      return {
+        valid: false,
+        message: 'key 파라미터가 필요합니다 (비어있지 않은 문자열)'
+      };
+    }
+
+    if (key.split('.').some(segment => segment === '')) {
+      return {
+        valid: false,
+        message: `키 형식이 올바르지 않습니다: ${key}`
+      };
+    }
+
+    if (value === undefined) {
+      return {
+        valid: false,
+        message: 'value 파라미터가 필요합니다'
+      };
+    }
+
+    if (ifMatch !== undefined && (typeof ifMatch !== 'string' || ifMatch === '')) {
+      return {
+        valid: false,
+        message: 'ifMatch는 비어있지 않은 리비전 문자열이어야 합니다'
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 에러 응답 생성
+   */
+  private createErrorResponse(params: SetJsonValueParams, message?: string): SetJsonValueResult {
+    return {
+      success: false,
+      source: params.source,
+      key: params.key,
+      created: false,
+      keys: 0,
+      duration: 0,
+      writableSources: this.cacheManager.getWritableSources(),
+      message
+    };
+  }
+
+  /**
+   * Tool 통계 정보 반환
+   */
+  public getStats() {
+    return {
+      writableSources: this.cacheManager.getWritableSources()
+    };
+  }
+}
+
+/**
+ * Tool 팩토리 함수
+ */
+export function createSetJsonValueTool(cacheManager: CacheManager): SetJsonValueTool {
+  return new SetJsonValueTool(cacheManager);
+}
@@ -3,15 +3,59 @@
  * 데이터 모델 및 타입 정의
  */
 
+import type { SqlOperation, SqlStatementType } from './utils/sql-analyzer.js';
+
 // 로그 레벨 타입
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+// 소스 파일 형식
+export type SourceFormat = 'json' | 'json5' | 'jsonc' | 'yaml' | 'ndjson' | 'toml' | 'xml-querymap';
+
+export const SOURCE_FORMATS: SourceFormat[] = ['json', 'json5', 'jsonc', 'yaml', 'ndjson', 'toml', 'xml-querymap'];
+
+// 디렉토리/글롭 소스의 파일 병합 방식
+// namespace: 파일 이름(확장자 제외)을 최상위 키로 사용, merge: 최상위부터 깊은 병합 (나중 파일 우선)
+export type SourceMergeStrategy = 'namespace' | 'merge';
+
+export const SOURCE_MERGE_STRATEGIES: SourceMergeStrategy[] = ['namespace', 'merge'];
+
 // JSON 소스 설정
 export interface JsonSource {
   name: string;
-  path: string;
+  path: string; // 파일, 디렉토리 또는 글롭 경로 (예: ./querymaps/**/*.json), url 소스는 생략 시 url로 설정
+  url?: string; // 원격 HTTP(S) 소스 URL (지정 시 path 대신 사용)
+  headers?: Record<string, string>; // 원격 요청 헤더 (예: Authorization)
+  pollInterval?: number; // 원격 소스 폴링 주기 (ms, 미지정 시 시작 시 1회만 로드)
+  timeout?: number; // 원격 요청 제한 시간 (ms, 기본값: 10000)
+  format?: SourceFormat; // 미지정 시 확장자로 판별 (.yaml, .jsonc, .ndjson, .toml 등)
+  mergeStrategy?: SourceMergeStrategy; // 디렉토리/글롭 소스 병합 방식 (기본값: 쿼리맵만 있으면 merge, 그 외 namespace)
+  idField?: string; // NDJSON 레코드 키로 사용할 필드 (미지정/누락 시 줄 번호)
   watch?: boolean;
   primary?: boolean;
+  streaming?: boolean; // 청크 단위 스트리밍 파싱 (대용량 파일용)
+  maxFileSize?: number; // 파일 크기 제한 (MB, 미지정 시 options.maxFileSize)
+  indexValues?: boolean; // 문자열 값 전문 검색 색인 생성 (기본값: true)
+  writable?: boolean; // set/patch/delete로 값을 변경하고 파일에 저장 (로컬 단일 JSON 파일만, 기본값: false)
+}
+
+// 원격 소스 요청 옵션
+export interface RemoteSourceOptions {
+  url: string;
+  headers?: Record<string, string>;
+  timeout?: number; // ms
+}
+
+// JsonCache 로드 옵션
+export interface JsonCacheOptions {
+  format?: SourceFormat;
+  remote?: RemoteSourceOptions;
+  mergeStrategy?: SourceMergeStrategy;
+  idField?: string;
+  streaming?: boolean;
+  maxFileSize?: number; // MB
+  indexValues?: boolean;
+  writable?: boolean;
+  diskSnapshot?: boolean; // 디스크 스냅샷 검증용 파일 상태(크기/수정 시각/해시)를 로드 시 기록
 }
 
 // 캐시 설정
@@ -19,10 +63,44 @@ export interface CacheConfig {
   sources: Record<string, JsonSource>;
   options?: {
     autoReload?: boolean;
-    cacheSize?: number;
+    cacheSize?: number; // 소스 데이터 메모리 예산 (MB, 지정하지 않으면 제한 없음). 넘으면 오래 조회되지 않은 비primary 소스를 메모리에서 내림
     logLevel?: LogLevel;
     maxDepth?: number;
+    maxFileSize?: number; // 기본 파일 크기 제한 (MB, 기본값 50)
+    streaming?: boolean; // 모든 소스의 기본 스트리밍 모드
+    history?: HistoryOptions;
+    snapshotDir?: string; // 디스크 캐시 스냅샷 디렉토리 (지정하면 재시작 시 변경되지 않은 소스의 파싱을 생략)
+    resources?: ResourceListOptions;
   };
+  prompts?: Record<string, PromptDefinition>; // MCP 프롬프트 (이름 → 정의)
+}
+
+// MCP 프롬프트 정의
+// template 문법: {인자} 인자 값, {{query 키}} / {{query 키 @소스}} 키 값,
+// {{pattern 글롭}} 패턴과 일치하는 모든 키와 값, {{sources 키}} 로드된 소스별 키 값
+export interface PromptDefinition {
+  title?: string;
+  description?: string;
+  arguments?: PromptArgumentDefinition[];
+  template: string | string[]; // 배열이면 줄바꿈으로 연결
+}
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// MCP resources/list 목록 설정
+export interface ResourceListOptions {
+  maxDepth?: number; // 목록에 포함할 키 최대 깊이 (기본값: options.maxDepth)
+  pageSize?: number; // 페이지당 Resource 수 (기본값: 100, 최대 1000)
+}
+
+// 리로드 스냅샷 보관 설정
+export interface HistoryOptions {
+  maxSnapshots?: number; // 소스별 최대 스냅샷 수 (기본값: 5, 0이면 보관하지 않음)
+  maxMemoryMB?: number; // 전체 소스 스냅샷 메모리 예산 (MB, 기본값: 100)
 }
 
 // 캐시 통계 정보
@@ -33,6 +111,24 @@ export interface CacheStats {
   size: number;
   loadedAt: Date;
   hits: number;
+  indexedKeys: number;
+  avgLookupTime: number;
+}
+
+// 마지막 로드 실패 정보 (이전 데이터는 stale 상태로 계속 제공)
+export interface SourceLoadError {
+  message: string;
+  code: string;
+  failedAt: Date;
+}
+
+// 디렉토리/글롭 소스를 구성하는 파일 정보
+export interface SourceFileInfo {
+  path: string;
+  format: SourceFormat;
+  size: number;
+  keys: number;
+  namespace?: string; // namespace 병합 시 최상위 키
 }
 
 // 쿼리 결과
@@ -41,6 +137,52 @@ export interface QueryResult {
   key: string;
   value: any;
   found: boolean;
+  revision?: string; // 키 리비전 (CacheManager.getKeyRevision으로 채운 경우만, 쓰기의 ifMatch에 사용)
+}
+
+// 부수 효과 없는 키 확인 결과 (CacheManager.peek)
+export interface KeyPeekResult extends QueryResult {
+  resident: boolean; // false면 내려둔 소스라 value를 읽지 않음
+  sourceRevision?: string; // 찾은 소스의 소스 리비전
+}
+
+// 패턴 쿼리 결과 (key → value)
+export interface PatternQueryResult {
+  pattern: string;
+  matches: Record<string, any>;
+  sources: Record<string, string>; // key → 소스명
+  total: number;
+  truncated: boolean;
+}
+
+// 유사 키 추천 항목
+export interface KeySuggestion {
+  key: string;
+  source: string;
+  score: number;
+}
+
+// 값 전문 검색 일치 필드
+export interface ValueMatch {
+  field: string;
+  snippet: string;
+}
+
+// 값 전문 검색 결과
+export interface ValueSearchResult {
+  source: string;
+  key: string;
+  matches: ValueMatch[];
+}
+
+// 테이블 사용 쿼리 (테이블 → 쿼리 역색인 결과)
+export interface TableUsage {
+  source: string;
+  table: string;
+  key: string;
+  operations: SqlOperation[];
+  statementType: SqlStatementType;
+  desc?: string;
 }
 
 // MCP Tool 스키마 타입
@@ -140,4 +282,117 @@ export interface ReloadResult {
   keys: number;
   size: number;
   duration: number;
+  notModified?: boolean; // 원격 소스가 304를 반환하여 다시 파싱하지 않음
+  stale?: boolean; // 실패했지만 이전 데이터를 계속 제공 중
+  version?: number; // 새로 기록된 스냅샷 버전
+  diff?: DiffSummary; // 이전 스냅샷 대비 변경 개수
+}
+
+// 쓰기(set/patch/delete) 결과 타입
+export interface WriteResult {
+  source: string;
+  keys: number;
+  size: number;
+  duration: number;
+  version?: number; // 변경 후 기록된 스냅샷 버전
+  diff?: DiffSummary; // 변경 전 대비 개수
+  revision: string; // 변경 후 소스 리비전
+  keyRevision?: string; // 변경 후 키 리비전 (값 설정 시)
+}
+
+// 소스 메모리 사용량 추정 (bytes, 로드/리로드/쓰기 때 한 번 계산)
+export interface MemoryBreakdown {
+  total: number;
+  data: number; // 데이터 트리
+  indexes: { keys: number; values: number; tables: number };
+  sections: Array<{ name: string; bytes: number }>; // 최상위 섹션별 데이터 크기 (큰 순)
+  otherSections?: { count: number; bytes: number }; // 개별로 보고하지 않은 나머지 섹션
+}
+
+// 메모리 예산에 따른 소스 상주 상태 변경
+// evicted: 데이터와 색인을 임시 파일로 내리고 메타데이터만 유지, restored: 다음 조회 시 다시 올림
+export interface ResidencyEvent {
+  source: string;
+  type: 'evicted' | 'restored';
+  bytes: number; // 내리거나 올린 데이터 추정 크기
+  at: Date;
+}
+
+// 메모리 예산 사용 현황
+export interface MemoryBudgetStats {
+  budget: number | null; // bytes (제한 없으면 null)
+  used: number; // 메모리에 올라와 있는 소스 데이터 추정 크기 합계 (bytes)
+  resident: string[];
+  evicted: string[];
+  evictions: number; // 시작 이후 누적 횟수
+  restores: number;
+  recentEvents: ResidencyEvent[]; // 최근 순
+}
+
+// 구조적 비교 항목 (점 표기 키)
+export interface DiffEntry {
+  key: string;
+  oldValue?: any;
+  newValue?: any;
+}
+
+export interface DataDiff {
+  added: DiffEntry[];
+  removed: DiffEntry[];
+  changed: DiffEntry[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+// 소스 비교 시 값 정규화 방식
+// none: 그대로 비교, whitespace: 문자열의 연속 공백을 하나로 보고 앞뒤 공백 무시, sql: query 필드의 주석/CDATA/동적 태그/공백 차이 무시
+export type CompareNormalization = 'none' | 'whitespace' | 'sql';
+
+export const COMPARE_NORMALIZATIONS: CompareNormalization[] = ['none', 'whitespace', 'sql'];
+
+// 소스 간 비교 항목 (점 표기 키, 한쪽에만 있으면 해당 값만)
+export interface ComparisonEntry {
+  key: string;
+  valueA?: any;
+  valueB?: any;
+}
+
+// 소스 간 비교 결과
+export interface SourceComparison {
+  sourceA: string;
+  sourceB: string;
+  prefix?: string;
+  normalize: CompareNormalization | 'custom'; // custom: 직접 만든 정규화 함수 사용
+  onlyInA: ComparisonEntry[];
+  onlyInB: ComparisonEntry[];
+  different: ComparisonEntry[];
+  summary: {
+    onlyInA: number;
+    onlyInB: number;
+    different: number;
+  };
+}
+
+// 소스 스냅샷 정보 (데이터 제외)
+export interface SnapshotInfo {
+  version: number;
+  loadedAt: Date;
+  keys: number;
+  size: number;
+  memoryUsage: number; // 스냅샷 데이터 추정 크기 (bytes)
+  diff?: DiffSummary; // 직전 스냅샷 대비 (첫 스냅샷은 없음)
+}
+
+// 스냅샷 간 비교 결과
+export interface SourceDiff extends DataDiff {
+  source: string;
+  fromVersion: number;
+  toVersion: number;
+  fromLoadedAt: Date;
+  toLoadedAt: Date;
+  summary: DiffSummary;
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * Glob - 파일 경로 글롭 패턴 유틸리티
+ * 디렉토리/글롭 소스의 파일 목록 확장 및 감시 이벤트 매칭에 사용
+ */
+
+import { readdirSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+
+export interface GlobMatcher {
+  base: string; // 글롭 문자가 없는 앞부분 디렉토리 (절대 경로)
+  maxDepth: number; // base 기준 최대 탐색 깊이 (** 포함 시 Infinity)
+  test: (filePath: string) => boolean;
+}
+
+/**
+ * 경로에 글롭 문자(*, ?, {)가 포함되어 있는지 확인
+ */
+export function isGlob(path: string): boolean {
+  return /[*?{]/.test(path);
+}
+
+/**
+ * 글롭 패턴을 글롭 문자가 없는 앞부분 디렉토리와 나머지 패턴으로 분리
+ * 예: ./querymaps/b17/*.json → { base: './querymaps/b17', remainder: '*.json' }
+ */
+function splitGlob(pattern: string): { base: string; remainder: string } {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex(segment => isGlob(segment));
+  const index = firstGlob === -1 ? segments.length - 1 : firstGlob;
+  const baseSegments = segments.slice(0, index);
+
+  let base = baseSegments.join('/');
+  if (baseSegments.length === 0) base = '.';
+  else if (base === '') base = '/';
+
+  return { base, remainder: segments.slice(index).join('/') };
+}
+
+/**
+ * 글롭 문자가 없는 앞부분 디렉토리 (감시 대상)
+ */
+export function globBase(pattern: string): string {
+  return splitGlob(pattern).base;
+}
+
+/**
+ * 글롭 패턴을 정규식으로 변환 (base 기준 상대 경로, / 구분자)
+ * - `*`    : 경로 경계를 넘지 않는 임의 문자열
+ * - `?`    : 경로 경계가 아닌 임의 한 글자
+ * - `**`   : 하위 디렉토리 0개 이상
+ * - `{a,b}`: 대안 중 하나
+ */
+export function compileGlob(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (ch === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (ch === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += ch.replace(/[.+^$()|[\]\\}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 글롭 매처 생성 (절대/상대 파일 경로 모두 허용)
+ */
+export function createGlobMatcher(pattern: string): GlobMatcher {
+  const { base, remainder } = splitGlob(pattern);
+  const regex = compileGlob(remainder);
+  const absoluteBase = resolve(base);
+
+  return {
+    base: absoluteBase,
+    maxDepth: remainder.includes('**') ? Infinity : remainder.split('/').length,
+    test: (filePath: string) => {
+      const relativePath = relative(absoluteBase, resolve(filePath)).split(sep).join('/');
+      return relativePath !== '' && !relativePath.startsWith('..') && regex.test(relativePath);
+    }
+  };
+}
+
+/**
+ * 글롭 패턴과 일치하는 파일 목록 (절대 경로, 정렬)
+ * base 디렉토리가 없으면 빈 배열
+ */
+export function expandGlob(pattern: string): string[] {
+  const matcher = createGlobMatcher(pattern);
+  const files: string[] = [];
+
+  const walk = (dir: string, depth: number): void => {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < matcher.maxDepth) {
+          walk(fullPath, depth + 1);
+        }
+      } else if (entry.isFile() && matcher.test(fullPath)) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  walk(matcher.base, 1);
+  return files.sort();
+}
@@ -0,0 +1,111 @@
+/**
+ * JSON Diff - 두 데이터 트리의 구조적 비교
+ * 양쪽에 모두 있는 객체는 재귀적으로 비교하고, 한쪽에만 있는 키는 하위 트리 전체를 추가/삭제 항목으로 기록
+ * 키는 keys()와 같은 점 표기 경로 (예: "b17.B17R2010.select.query")
+ */
+
+import { CompareNormalization, DataDiff, DiffSummary } from '../types.js';
+import { normalizeSql } from './sql-analyzer.js';
+
+// 비교 전에 값을 변환하는 함수 (path는 값의 키 경로, 결과 항목에는 원래 값을 기록)
+export type ValueNormalizer = (value: unknown, path: string[]) => unknown;
+
+export interface DiffOptions {
+  normalize?: ValueNormalizer;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 값 비교 (배열/객체는 구조 비교)
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') {
+    return false;
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) {
+      return false;
+    }
+    return a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+
+  return aKeys.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * 두 데이터 트리의 차이 계산
+ * 양쪽 모두 일반 객체인 키는 하위 키 단위로 비교하고, 그 외 값(문자열, 숫자, 배열 등)은 통째로 비교
+ * options.normalize가 있으면 통째로 비교하는 값에 적용한 결과로 비교
+ */
+export function diffData(oldData: unknown, newData: unknown, options: DiffOptions = {}): DataDiff {
+  const diff: DataDiff = { added: [], removed: [], changed: [] };
+  walk(oldData, newData, [], diff, options);
+  return diff;
+}
+
+function walk(oldValue: unknown, newValue: unknown, path: string[], diff: DataDiff, options: DiffOptions): void {
+  if (!isPlainObject(oldValue) || !isPlainObject(newValue)) {
+    const equal = options.normalize
+      ? isDeepEqual(options.normalize(oldValue, path), options.normalize(newValue, path))
+      : isDeepEqual(oldValue, newValue);
+    if (!equal) {
+      diff.changed.push({ key: path.join('.'), oldValue, newValue });
+    }
+    return;
+  }
+
+  for (const key of Object.keys(oldValue)) {
+    const childPath = [...path, key];
+    if (!Object.prototype.hasOwnProperty.call(newValue, key)) {
+      diff.removed.push({ key: childPath.join('.'), oldValue: oldValue[key] });
+    } else {
+      walk(oldValue[key], newValue[key], childPath, diff, options);
+    }
+  }
+
+  for (const key of Object.keys(newValue)) {
+    if (!Object.prototype.hasOwnProperty.call(oldValue, key)) {
+      diff.added.push({ key: [...path, key].join('.'), newValue: newValue[key] });
+    }
+  }
+}
+
+/**
+ * 내장 정규화 방식에 해당하는 함수 (none이면 undefined)
+ */
+export function getValueNormalizer(mode: CompareNormalization): ValueNormalizer | undefined {
+  switch (mode) {
+    case 'whitespace':
+      return value => typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : value;
+    case 'sql':
+      return (value, path) =>
+        typeof value === 'string' && path[path.length - 1] === 'query' ? normalizeSql(value) : value;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 항목별 개수 요약
+ */
+export function summarizeDiff(diff: DataDiff): DiffSummary {
+  return {
+    added: diff.added.length,
+    removed: diff.removed.length,
+    changed: diff.changed.length
+  };
+}
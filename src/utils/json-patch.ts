@@ -0,0 +1,258 @@
+/**
+ * JSON Patch (RFC 6902) / JSON Pointer (RFC 6901)
+ * 연산을 순서대로 문서에 직접 적용하므로 호출하는 쪽에서 복사본을 넘겨야 함 (실패 시 복사본만 버리면 됨)
+ */
+
+import { isDeepEqual } from './json-diff.js';
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+export const JSON_PATCH_OPS = ['add', 'remove', 'replace', 'move', 'copy', 'test'] as const;
+
+// 값을 추가/설정하는 경로에 허용하지 않는 키 (Object.prototype 오염 방지)
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+export class JsonPatchError extends Error {
+  constructor(message: string, public index: number) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * JSON Pointer를 토큰 배열로 변환 ("" → 문서 전체, "/a~1b/0" → ["a/b", "0"])
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`JSON Pointer는 '/'로 시작해야 합니다: ${pointer}`);
+  }
+  return pointer
+    .substring(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * 키 경로를 JSON Pointer로 변환
+ */
+export function toPointer(path: string[]): string {
+  return path.map(token => '/' + token.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+function isContainer(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * 쓰기 경로에 __proto__, constructor, prototype이 있으면 예외
+ */
+function assertSafePath(path: string[]): void {
+  const unsafe = path.find(segment => UNSAFE_KEYS.has(segment));
+  if (unsafe !== undefined) {
+    throw new Error(`허용되지 않는 키 이름입니다: ${unsafe}`);
+  }
+}
+
+/**
+ * 배열 인덱스 토큰 해석 ('-'는 allowEnd일 때 배열 끝)
+ */
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  if (token === '-' && allowEnd) {
+    return array.length;
+  }
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new Error(`배열 인덱스가 올바르지 않습니다: ${token}`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`배열 인덱스가 범위를 벗어났습니다: ${token}`);
+  }
+  return index;
+}
+
+/**
+ * 경로의 부모 컨테이너와 마지막 토큰 조회
+ */
+function resolveParent(document: unknown, tokens: string[]): { parent: Record<string, any> | any[]; token: string } {
+  let current: unknown = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new Error(`경로가 존재하지 않습니다: ${toPointer(tokens)}`);
+    }
+  }
+
+  if (!isContainer(current)) {
+    throw new Error(`경로가 존재하지 않습니다: ${toPointer(tokens)}`);
+  }
+
+  return { parent: current, token: tokens[tokens.length - 1] };
+}
+
+/**
+ * JSON Pointer 위치의 값 조회 (없으면 예외)
+ */
+export function getAtPointer(document: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return document;
+  }
+
+  const { parent, token } = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, token, false)];
+  }
+  if (!Object.prototype.hasOwnProperty.call(parent, token)) {
+    throw new Error(`경로가 존재하지 않습니다: ${pointer}`);
+  }
+  return parent[token];
+}
+
+function addValue(document: unknown, tokens: string[], value: unknown): void {
+  assertSafePath(tokens);
+  const { parent, token } = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, token, true), 0, value);
+  } else {
+    parent[token] = value;
+  }
+}
+
+function removeValue(document: unknown, tokens: string[]): unknown {
+  const { parent, token } = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    return parent.splice(arrayIndex(parent, token, false), 1)[0];
+  }
+  if (!Object.prototype.hasOwnProperty.call(parent, token)) {
+    throw new Error(`경로가 존재하지 않습니다: ${toPointer(tokens)}`);
+  }
+  const removed = parent[token];
+  delete parent[token];
+  return removed;
+}
+
+/**
+ * 패치 연산 적용 (문서를 직접 변경)
+ * 문서 루트는 객체여야 하므로 루트 자체를 교체/삭제하는 연산은 허용하지 않음
+ * 실패하면 몇 번째 연산인지 포함한 JsonPatchError 발생
+ */
+export function applyPatch(document: Record<string, any>, operations: JsonPatchOperation[]): void {
+  operations.forEach((operation, index) => {
+    try {
+      if (!operation || typeof operation !== 'object' || !JSON_PATCH_OPS.includes(operation.op)) {
+        throw new Error(`op는 ${JSON_PATCH_OPS.join(', ')} 중 하나여야 합니다`);
+      }
+      if (typeof operation.path !== 'string') {
+        throw new Error('path는 JSON Pointer 문자열이어야 합니다');
+      }
+
+      const tokens = parsePointer(operation.path);
+      if (tokens.length === 0 && operation.op !== 'test') {
+        throw new Error('문서 루트는 변경할 수 없습니다');
+      }
+
+      switch (operation.op) {
+        case 'add':
+          addValue(document, tokens, structuredClone(operation.value));
+          break;
+        case 'remove':
+          removeValue(document, tokens);
+          break;
+        case 'replace':
+          getAtPointer(document, operation.path);
+          removeValue(document, tokens);
+          addValue(document, tokens, structuredClone(operation.value));
+          break;
+        case 'move': {
+          if (operation.path.startsWith(operation.from + '/')) {
+            throw new Error('값을 자신의 하위 경로로 이동할 수 없습니다');
+          }
+          const value = removeValue(document, parsePointer(operation.from));
+          addValue(document, tokens, value);
+          break;
+        }
+        case 'copy':
+          addValue(document, tokens, structuredClone(getAtPointer(document, operation.from)));
+          break;
+        case 'test':
+          if (!isDeepEqual(getAtPointer(document, operation.path), operation.value)) {
+            throw new Error(`값이 일치하지 않습니다: ${operation.path}`);
+          }
+          break;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new JsonPatchError(`패치 연산 ${index} (${operation?.op}) 실패: ${message}`, index);
+    }
+  });
+}
+
+/**
+ * 속성 경로의 값 조회 (없으면 undefined)
+ */
+export function getAtPath(document: Record<string, any>, path: string[]): unknown {
+  let current: unknown = document;
+  for (const segment of path) {
+    if (!isContainer(current) || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * 속성 경로에 값 설정 (없는 상위 객체는 생성하며, 상속된 속성은 따라가지 않음)
+ */
+export function setAtPath(document: Record<string, any>, path: string[], value: unknown): void {
+  assertSafePath(path);
+  let current: any = document;
+  for (let i = 0; i < path.length - 1; i++) {
+    const next = Object.prototype.hasOwnProperty.call(current, path[i]) ? current[path[i]] : undefined;
+    if (next === undefined) {
+      current[path[i]] = {};
+    } else if (!isContainer(next)) {
+      throw new Error(`'${path.slice(0, i + 1).join('.')}'는 객체가 아니므로 하위 키를 설정할 수 없습니다`);
+    }
+    current = current[path[i]];
+  }
+  current[path[path.length - 1]] = value;
+}
+
+/**
+ * 속성 경로의 값 삭제
+ * @returns 삭제 여부 (경로가 없으면 false)
+ */
+export function deleteAtPath(document: Record<string, any>, path: string[]): boolean {
+  let current: any = document;
+  for (const segment of path.slice(0, -1)) {
+    if (!isContainer(current) || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return false;
+    }
+    current = current[segment];
+  }
+
+  const last = path[path.length - 1];
+  if (!isContainer(current) || !Object.prototype.hasOwnProperty.call(current, last)) {
+    return false;
+  }
+
+  if (Array.isArray(current)) {
+    current.splice(Number(last), 1);
+  } else {
+    delete current[last];
+  }
+  return true;
+}
@@ -0,0 +1,104 @@
+/**
+ * JSON Writer - 쓰기 가능한 소스의 파일 저장
+ * 기존 파일의 들여쓰기/줄바꿈을 유지하여 직렬화하고, 임시 파일에 쓴 뒤 rename으로 교체
+ */
+
+import { existsSync } from 'fs';
+import { open, rename, stat, unlink, writeFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+
+// 들여쓰기 판별에 읽을 파일 앞부분 크기
+const FORMAT_SAMPLE_BYTES = 64 * 1024;
+
+export interface JsonFormatting {
+  indent: string; // 빈 문자열이면 한 줄로 저장
+  newline: '\n' | '\r\n';
+  finalNewline: boolean;
+}
+
+export const DEFAULT_JSON_FORMATTING: JsonFormatting = {
+  indent: '  ',
+  newline: '\n',
+  finalNewline: true
+};
+
+/**
+ * JSON 텍스트의 들여쓰기/줄바꿈 판별
+ * 첫 번째 들여쓴 줄의 앞 공백을 들여쓰기 단위로 사용하며, 줄바꿈이 없으면 한 줄 JSON으로 간주
+ */
+export function detectJsonFormatting(sample: string, finalNewline: boolean): JsonFormatting {
+  if (!sample.trim()) {
+    return DEFAULT_JSON_FORMATTING;
+  }
+
+  const newline = sample.includes('\r\n') ? '\r\n' : '\n';
+  const lines = sample.trimStart().split(/\r?\n/);
+  if (lines.length < 2) {
+    return { indent: '', newline, finalNewline };
+  }
+
+  const indented = lines.slice(1).find(line => /^[ \t]+\S/.test(line));
+  const indent = indented ? (indented.match(/^[ \t]+/) as RegExpMatchArray)[0] : DEFAULT_JSON_FORMATTING.indent;
+
+  return { indent, newline, finalNewline };
+}
+
+/**
+ * 파일 앞부분과 마지막 바이트로 들여쓰기/줄바꿈 판별 (파일이 없으면 기본값)
+ */
+export async function readJsonFormatting(path: string): Promise<JsonFormatting> {
+  if (!existsSync(path)) {
+    return DEFAULT_JSON_FORMATTING;
+  }
+
+  const handle = await open(path, 'r');
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) {
+      return DEFAULT_JSON_FORMATTING;
+    }
+
+    const head = Buffer.alloc(Math.min(size, FORMAT_SAMPLE_BYTES));
+    await handle.read(head, 0, head.length, 0);
+
+    const last = Buffer.alloc(1);
+    await handle.read(last, 0, 1, size - 1);
+
+    return detectJsonFormatting(head.toString('utf-8'), last[0] === 0x0a);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 들여쓰기/줄바꿈 설정에 맞춰 직렬화
+ */
+export function serializeJson(data: unknown, formatting: JsonFormatting): string {
+  let text = JSON.stringify(data, null, formatting.indent || undefined);
+  if (formatting.newline === '\r\n') {
+    text = text.replace(/\n/g, '\r\n');
+  }
+  return formatting.finalNewline ? text + formatting.newline : text;
+}
+
+/**
+ * 같은 디렉토리의 임시 파일에 쓴 뒤 rename으로 교체 (쓰기 도중 다른 프로세스가 불완전한 파일을 보지 않도록)
+ * @returns 교체된 파일의 수정 시각/크기 (자체 변경 판별용)
+ */
+export async function writeFileAtomic(path: string, content: string | Uint8Array): Promise<{ mtimeMs: number; size: number }> {
+  const tempPath = join(dirname(path), `.${basename(path)}.${process.pid}.${Date.now()}.tmp`);
+
+  // 기존 파일 권한 유지
+  const mode = existsSync(path) ? (await stat(path)).mode : undefined;
+
+  try {
+    await writeFile(tempPath, content, { encoding: 'utf-8', mode });
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+
+  const { mtimeMs, size } = await stat(path);
+  return { mtimeMs, size };
+}
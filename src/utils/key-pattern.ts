@@ -0,0 +1,55 @@
+/**
+ * Key Pattern - 와일드카드/글롭 키 패턴 유틸리티
+ * 섹션 안에 점(.)을 포함한 키가 있는 구조(b17 → "B17R2010.select")를 고려하여 매칭
+ */
+
+// 경로 구분자 (실제 키에 등장하지 않는 문자)
+export const PATH_SEPARATOR = '\u0000';
+
+/**
+ * 키에 와일드카드(*, ?)가 포함되어 있는지 확인
+ */
+export function isKeyPattern(key: string): boolean {
+  return /[*?]/.test(key);
+}
+
+/**
+ * 글롭 패턴을 정규식으로 변환 (대소문자 무시)
+ * 매칭 대상은 속성 경로를 PATH_SEPARATOR로 이은 문자열이며,
+ * - `.`  : 점 또는 경로 구분자 (속성명 안의 점과 경로 경계 모두 허용)
+ * - `*`  : 경로 경계를 넘지 않는 임의 문자열 ("B17R2010.L2N.select" 같은 속성명 전체와 일치 가능)
+ * - `?`  : 경로 경계가 아닌 임의 한 글자
+ * - `**` : 경로 경계를 포함한 임의 문자열
+ * 예: "b17.B17R2010.*"는 "b17.B17R2010.L2N.select"와 일치하지만 "b17.B17R2010.select.query"와는 불일치
+ */
+export function compileKeyPattern(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += `[^${PATH_SEPARATOR}]*`;
+      }
+    } else if (ch === '?') {
+      source += `[^${PATH_SEPARATOR}]`;
+    } else if (ch === '.') {
+      source += `[.${PATH_SEPARATOR}]`;
+    } else {
+      source += ch.replace(/[\\^$+{}()|[\]]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'is');
+}
+
+/**
+ * 속성 경로를 매칭 대상 문자열로 변환
+ */
+export function toMatchTarget(path: string[]): string {
+  return path.join(PATH_SEPARATOR);
+}
@@ -0,0 +1,122 @@
+/**
+ * Memory Estimate - 데이터 트리의 힙 사용량 추정
+ * JSON 직렬화 없이 구조를 한 번 순회하여 문자열/숫자/객체/배열의 크기를 합산 (64비트 V8 기준 근사치)
+ * 객체 속성명은 같은 이름이 공유되므로 순회 중 처음 나온 이름만 계산
+ */
+
+import { MemoryBreakdown } from '../types.js';
+
+export const POINTER_SIZE = 8;
+export const OBJECT_HEADER_SIZE = 24;
+export const ARRAY_HEADER_SIZE = 32;
+export const MAP_ENTRY_SIZE = 3 * POINTER_SIZE; // 키 + 값 + 체인
+const STRING_HEADER_SIZE = 16;
+const HEAP_NUMBER_SIZE = 16;
+const SMI_MAX = 2 ** 30 - 1;
+
+// 섹션별 크기를 개별로 보고할 최대 개수 (나머지는 합산)
+export const MAX_REPORTED_SECTIONS = 20;
+
+/**
+ * 문자열 크기 (Latin-1 범위 밖 문자가 있으면 2바이트 문자열)
+ */
+export function estimateStringSize(value: string): number {
+  for (let i = 0; i < value.length; i++) {
+    if (value.charCodeAt(i) > 0xff) {
+      return STRING_HEADER_SIZE + value.length * 2;
+    }
+  }
+  return STRING_HEADER_SIZE + value.length;
+}
+
+/**
+ * 값 하나의 크기 (하위 값 포함, 컨테이너의 슬롯은 컨테이너 쪽에서 계산)
+ * @param seenKeys 이미 계산한 속성명 (여러 값에 걸쳐 공유)
+ */
+export function estimateValueSize(value: unknown, seenKeys: Set<string> = new Set()): number {
+  if (typeof value === 'string') {
+    return estimateStringSize(value);
+  }
+
+  if (typeof value === 'number') {
+    // 31비트 정수는 포인터 슬롯에 바로 저장됨
+    return Number.isInteger(value) && Math.abs(value) <= SMI_MAX ? 0 : HEAP_NUMBER_SIZE;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return 0;
+  }
+
+  if (Array.isArray(value)) {
+    let size = ARRAY_HEADER_SIZE + value.length * POINTER_SIZE;
+    for (const item of value) {
+      size += estimateValueSize(item, seenKeys);
+    }
+    return size;
+  }
+
+  let size = OBJECT_HEADER_SIZE;
+  for (const [key, item] of Object.entries(value)) {
+    size += 2 * POINTER_SIZE;
+    if (!seenKeys.has(key)) {
+      seenKeys.add(key);
+      size += estimateStringSize(key);
+    }
+    size += estimateValueSize(item, seenKeys);
+  }
+  return size;
+}
+
+/**
+ * 데이터 트리 크기와 최상위 섹션별 크기를 키 항목 단위로 누적 (색인 생성과 같은 키 순회에서 사용, 색인 크기는 호출하는 쪽에서 채움)
+ * 객체 값은 헤더만 더하고 각 속성은 해당 속성의 키 항목에서 더하므로, 데이터 전체를 한 번에 순회한 것과 같은 결과
+ */
+export class DataSizeEstimator {
+  private seenKeys = new Set<string>();
+  private sections = new Map<string, number>();
+  private currentSection: string | null = null;
+
+  /**
+   * 키 항목 하나의 크기 추가 (문서 순서, 부모 키 다음에 하위 키)
+   */
+  public add(path: string[], value: unknown): void {
+    const name = path[path.length - 1];
+    let bytes = 2 * POINTER_SIZE;
+
+    if (path.length === 1) {
+      // 섹션 이름은 섹션 전체를 계산한 뒤 공유 이름으로 등록
+      if (this.currentSection !== null) {
+        this.seenKeys.add(this.currentSection);
+      }
+      this.currentSection = name;
+      bytes += estimateStringSize(name);
+    } else if (!this.seenKeys.has(name)) {
+      this.seenKeys.add(name);
+      bytes += estimateStringSize(name);
+    }
+
+    bytes += value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? OBJECT_HEADER_SIZE
+      : estimateValueSize(value, this.seenKeys);
+    this.sections.set(path[0], (this.sections.get(path[0]) ?? 0) + bytes);
+  }
+
+  /**
+   * 누적한 크기 (섹션은 큰 순으로 MAX_REPORTED_SECTIONS개까지, 나머지는 otherSections에 합산)
+   */
+  public getResult(): Pick<MemoryBreakdown, 'data' | 'sections' | 'otherSections'> {
+    const sections = Array.from(this.sections, ([name, bytes]) => ({ name, bytes }));
+    const total = sections.reduce((sum, section) => sum + section.bytes, OBJECT_HEADER_SIZE);
+
+    sections.sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
+    const others = sections.slice(MAX_REPORTED_SECTIONS);
+
+    return {
+      data: total,
+      sections: sections.slice(0, MAX_REPORTED_SECTIONS),
+      otherSections: others.length > 0
+        ? { count: others.length, bytes: others.reduce((sum, section) => sum + section.bytes, 0) }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Revision - 낙관적 동시성 제어용 리비전 토큰
+ * 소스 리비전: 로드/리로드/쓰기마다 증가하는 카운터 (프로세스 시작 시각을 붙여 재시작 후에도 겹치지 않음)
+ * 키 리비전: 소스명과 값의 내용 해시 (다른 키가 바뀌어도 유지됨)
+ */
+
+import { createHash } from 'crypto';
+
+const REVISION_EPOCH = Date.now().toString(36);
+let revisionCounter = 0;
+
+/**
+ * 새 소스 리비전 생성
+ */
+export function nextSourceRevision(): string {
+  revisionCounter++;
+  return `${REVISION_EPOCH}-${revisionCounter}`;
+}
+
+/**
+ * 키 값의 리비전 (값이 없으면 undefined)
+ */
+export function hashKeyRevision(source: string, value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return createHash('sha1')
+    .update(source)
+    .update('\0')
+    .update(JSON.stringify(value))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * If-Match/If-None-Match 헤더를 토큰 목록으로 변환 (따옴표와 약한 검증자 표시 W/ 제거)
+ */
+export function parseEntityTags(header: string | undefined): string[] {
+  if (!header) {
+    return [];
+  }
+
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'))
+    .filter(tag => tag !== '');
+}
+
+/**
+ * 현재 리비전이 토큰 중 하나와 일치하는지 확인 ('*'는 대상이 존재하면 일치)
+ */
+export function matchesRevision(current: string | undefined, tokens: string | string[]): boolean {
+  const list = Array.isArray(tokens) ? tokens : [tokens];
+  if (current === undefined) {
+    return false;
+  }
+  return list.some(token => token === '*' || token === current);
+}
+
+/**
+ * ETag 헤더 값으로 변환
+ */
+export function toEntityTag(revision: string): string {
+  return `"${revision}"`;
+}
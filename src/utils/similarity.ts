@@ -0,0 +1,94 @@
+/**
+ * Similarity - 키 유사도 계산 유틸리티
+ * 편집 거리, 토큰 겹침, 부분 문자열 일치를 조합하여 후보 키 순위 산정
+ */
+
+// 점수 가중치 (합계 1)
+const EDIT_WEIGHT = 0.4;
+const TOKEN_WEIGHT = 0.35;
+const SUBSTRING_WEIGHT = 0.25;
+
+/**
+ * 레벤슈타인 편집 거리 (단일 행 DP)
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    const charA = a.charCodeAt(i - 1);
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = charA === b.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 키를 소문자 토큰으로 분리 (점, 밑줄, 하이픈, 공백, camelCase 경계)
+ * 예: "B17R2010.cancelCrynInf" → ["b17r2010", "cancel", "cryn", "inf"]
+ */
+export function tokenizeKey(key: string): string[] {
+  return key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[.\s_\-/:]+/)
+    .filter(token => token.length > 0);
+}
+
+/**
+ * 질의어와 후보 키의 유사도 점수 (0~1)
+ * @param query 사용자가 입력한 키
+ * @param candidates 같은 키의 비교 대상 표기들 (예: 전체 키, 섹션 제거 별칭)
+ */
+export function scoreKeyMatch(query: string, candidates: string[]): number {
+  const queryLower = query.toLowerCase();
+  const queryTokens = tokenizeKey(query);
+  let best = 0;
+
+  for (const candidate of candidates) {
+    const candidateLower = candidate.toLowerCase();
+
+    if (candidateLower === queryLower) {
+      return 1;
+    }
+
+    // 편집 거리 유사도
+    const maxLength = Math.max(queryLower.length, candidateLower.length);
+    const editScore = maxLength > 0 ? 1 - levenshtein(queryLower, candidateLower) / maxLength : 0;
+
+    // 토큰 겹침 비율 (질의 토큰 기준)
+    let tokenScore = 0;
+    if (queryTokens.length > 0) {
+      const candidateTokens = new Set(tokenizeKey(candidate));
+      const overlap = queryTokens.filter(token => candidateTokens.has(token)).length;
+      tokenScore = overlap / queryTokens.length;
+    }
+
+    // 대소문자 무시 부분 문자열 일치
+    const substringScore = candidateLower.includes(queryLower) ? 1 : 0;
+
+    const score =
+      EDIT_WEIGHT * editScore + TOKEN_WEIGHT * tokenScore + SUBSTRING_WEIGHT * substringScore;
+
+    if (score > best) {
+      best = score;
+    }
+  }
+
+  return Math.round(best * 1000) / 1000;
+}
@@ -0,0 +1,435 @@
+/**
+ * SQL Analyzer - 쿼리맵 SQL 정적 분석 유틸리티
+ * iBATIS/glue_sql 쿼리의 문장 유형, 테이블, 컬럼, 바인드 변수, 힌트를 추출
+ * 완전한 파서가 아닌 토큰 기반 휴리스틱이므로 동적 SQL이나 PL/SQL 블록은 근사치
+ */
+
+export type SqlStatementType = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'MERGE' | 'CALL' | 'PLSQL' | 'UNKNOWN';
+
+export type SqlOperation = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'MERGE';
+
+export interface SqlTableRef {
+  name: string;
+  operation: SqlOperation;
+}
+
+export interface SqlBind {
+  name: string;
+  style: 'colon' | 'hash'; // :PARAM 또는 #param#
+  occurrences: number;
+}
+
+export interface SqlAnalysis {
+  statementType: SqlStatementType;
+  tables: SqlTableRef[];
+  columns: string[];
+  binds: SqlBind[];
+  hints: string[];
+  normalized: string;
+}
+
+type TokenType = 'word' | 'string' | 'number' | 'bind' | 'punct';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value: string; // word: 대문자 식별자, bind: 변수명
+  style?: SqlBind['style'];
+}
+
+// 테이블/컬럼 후보에서 제외할 예약어 및 의사 컬럼
+const KEYWORDS = new Set([
+  'ALL', 'AND', 'ANY', 'APPLY', 'AS', 'ASC', 'BEGIN', 'BETWEEN', 'BY', 'CALL', 'CASE', 'CONNECT',
+  'CROSS', 'CURRENT', 'CURRVAL', 'DATE', 'DAY', 'DECLARE', 'DEFAULT', 'DELETE', 'DESC', 'DISTINCT', 'DUAL',
+  'ELSE', 'END', 'ESCAPE', 'EXCEPT', 'EXEC', 'EXECUTE', 'EXISTS', 'FALSE', 'FETCH', 'FIRST', 'FOR',
+  'FROM', 'FULL', 'GROUP', 'HAVING', 'HOUR', 'IN', 'INNER', 'INSERT', 'INTERSECT', 'INTERVAL', 'INTO', 'IS',
+  'JOIN', 'KEEP', 'LAST', 'LATERAL', 'LEFT', 'LEVEL', 'LIKE', 'LIMIT', 'LOCKED', 'MATCHED', 'MERGE',
+  'MINUS', 'MINUTE', 'MONTH', 'NATURAL', 'NEXTVAL', 'NOCYCLE', 'NOT', 'NOWAIT', 'NULL', 'NULLS', 'OF', 'OFFSET', 'ON',
+  'ONLY', 'OR', 'ORDER', 'OUTER', 'OVER', 'PARTITION', 'PIVOT', 'PRIOR', 'RETURNING', 'RIGHT', 'ROW',
+  'ROWID', 'ROWNUM', 'ROWS', 'SECOND', 'SELECT', 'SET', 'SIBLINGS', 'SKIP', 'SOME', 'START', 'SYSDATE',
+  'SYSTIMESTAMP', 'TABLE', 'THEN', 'TIMESTAMP', 'TRUE', 'UNION', 'UNPIVOT', 'UPDATE', 'USER', 'USING',
+  'VALUES', 'WAIT', 'WHEN', 'WHERE', 'WITH', 'WITHIN', 'YEAR'
+]);
+
+// iBATIS 동적 SQL 태그 (내용은 유지하고 태그만 제거)
+const DYNAMIC_TAG = /<\/?(?:is[A-Z]\w*|dynamic|iterate|include|if|where|set|trim|foreach|choose|when|otherwise|bind)\b[^<>]*>/g;
+
+const STATEMENT_KEYWORDS = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+/**
+ * CDATA 마커와 동적 SQL 태그 제거
+ */
+export function stripCdata(sql: string): string {
+  return sql
+    .replace(/<!\[CDATA\[/g, ' ')
+    .replace(/\]\]>/g, ' ')
+    .replace(DYNAMIC_TAG, ' ');
+}
+
+/**
+ * SQL 텍스트 토큰화
+ * 주석은 제거하되 힌트(/*+ ... *\/, --+)는 별도로 수집하고,
+ * 공백을 정리한 정규화 텍스트를 함께 생성
+ */
+function tokenize(sql: string): { tokens: Token[]; hints: string[]; normalized: string } {
+  const tokens: Token[] = [];
+  const hints: string[] = [];
+  let normalized = '';
+  let pendingSpace = false;
+  let i = 0;
+
+  const emit = (raw: string, token?: Token) => {
+    if (pendingSpace && normalized.length > 0) {
+      normalized += ' ';
+    }
+    normalized += raw;
+    pendingSpace = false;
+    if (token) tokens.push(token);
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      pendingSpace = true;
+      i++;
+      continue;
+    }
+
+    // 한 줄 주석 (--+ 는 힌트)
+    if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      const comment = sql.substring(i, end === -1 ? sql.length : end);
+      if (comment.startsWith('--+')) {
+        // 정규화 텍스트는 한 줄이므로 블록 힌트 형식으로 변환
+        const hint = comment.substring(3).trim();
+        hints.push(hint);
+        emit(`/*+ ${hint} */`);
+      }
+      pendingSpace = true;
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    // 블록 주석 (/*+ ... */ 는 힌트)
+    if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const comment = sql.substring(i, end === -1 ? sql.length : end + 2);
+      if (comment.startsWith('/*+')) {
+        hints.push(comment.substring(3, comment.length - 2).replace(/\s+/g, ' ').trim());
+        emit(comment.replace(/\s+/g, ' '));
+      }
+      pendingSpace = true;
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    // 문자열 리터럴 ('' 이스케이프)
+    if (ch === '\'') {
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === '\'' && sql[j + 1] === '\'') {
+          j += 2;
+        } else if (sql[j] === '\'') {
+          break;
+        } else {
+          j++;
+        }
+      }
+      const raw = sql.substring(i, j + 1);
+      emit(raw, { type: 'string', text: raw, value: raw });
+      i = j + 1;
+      continue;
+    }
+
+    // 따옴표 식별자
+    if (ch === '"') {
+      const end = sql.indexOf('"', i + 1);
+      const raw = sql.substring(i, end === -1 ? sql.length : end + 1);
+      emit(raw, { type: 'word', text: raw, value: raw.replace(/"/g, '').toUpperCase() });
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    // :PARAM 바인드 (:= 및 :: 제외)
+    if (ch === ':' && next !== undefined && /[A-Za-z_]/.test(next) && sql[i - 1] !== ':') {
+      const match = /^:([A-Za-z_][\w$#]*)/.exec(sql.substring(i));
+      if (match) {
+        emit(match[0], { type: 'bind', text: match[0], value: match[1], style: 'colon' });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // #param# 바인드 (#param:VARCHAR#, #list[]# 형식 포함)
+    if (ch === '#') {
+      const match = /^#([A-Za-z_][\w.]*)(?:\[\])?(?::[\w]+)*#/.exec(sql.substring(i));
+      if (match) {
+        emit(match[0], { type: 'bind', text: match[0], value: match[1], style: 'hash' });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // 식별자 (스키마/별칭 한정자 포함, A.* 형식 포함)
+    if (/[A-Za-z_가-힣]/.test(ch)) {
+      const match = /^[A-Za-z_가-힣][\w$#가-힣]*(?:\.(?:[A-Za-z_가-힣][\w$#가-힣]*|\*))*/.exec(sql.substring(i));
+      if (match) {
+        emit(match[0], { type: 'word', text: match[0], value: match[0].toUpperCase() });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // 숫자
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/.exec(sql.substring(i));
+      if (match) {
+        emit(match[0], { type: 'number', text: match[0], value: match[0] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    emit(ch, { type: 'punct', text: ch, value: ch });
+    i++;
+  }
+
+  return { tokens, hints, normalized };
+}
+
+/**
+ * 여는 괄호에 대응하는 닫는 괄호 위치
+ */
+function findClosingParen(tokens: Token[], openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    if (tokens[i].value === '(') depth++;
+    if (tokens[i].value === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return tokens.length - 1;
+}
+
+function isIdentifier(token: Token | undefined): boolean {
+  return token !== undefined && token.type === 'word' && !KEYWORDS.has(token.value);
+}
+
+/**
+ * 문장 유형 판별 (WITH 절 이후의 본문 기준)
+ */
+function detectStatementType(tokens: Token[]): SqlStatementType {
+  const first = tokens.find(token => token.type === 'word' || token.value === '(' || token.value === '{');
+  if (!first) return 'UNKNOWN';
+
+  if (first.value === '(') return 'SELECT';
+  if (first.value === '{') return 'CALL';
+
+  switch (first.value) {
+    case 'SELECT':
+    case 'INSERT':
+    case 'UPDATE':
+    case 'DELETE':
+    case 'MERGE':
+      return first.value;
+    case 'CALL':
+    case 'EXEC':
+    case 'EXECUTE':
+      return 'CALL';
+    case 'BEGIN':
+    case 'DECLARE':
+      return 'PLSQL';
+    case 'WITH': {
+      let depth = 0;
+      for (const token of tokens) {
+        if (token.value === '(') depth++;
+        if (token.value === ')') depth--;
+        if (depth === 0 && token.type === 'word' && STATEMENT_KEYWORDS.has(token.value)) {
+          return token.value as SqlStatementType;
+        }
+      }
+      return 'SELECT';
+    }
+    default:
+      return 'UNKNOWN';
+  }
+}
+
+/**
+ * 비교용 SQL 정규화 (CDATA/동적 태그/주석 제거, 공백 정리, 힌트는 유지)
+ */
+export function normalizeSql(sql: string): string {
+  return tokenize(stripCdata(sql)).normalized;
+}
+
+/**
+ * SQL 분석
+ */
+export function analyzeSql(sql: string): SqlAnalysis {
+  const { tokens, hints, normalized } = tokenize(stripCdata(sql));
+  const statementType = detectStatementType(tokens);
+
+  const tables: SqlTableRef[] = [];
+  const consumed = new Set<number>(); // 테이블명/별칭 토큰 위치
+  const aliases = new Set<string>();
+  const cteNames = new Set<string>();
+
+  const addTable = (index: number, operation: SqlOperation) => {
+    const name = tokens[index].value;
+    consumed.add(index);
+    if (!tables.some(table => table.name === name && table.operation === operation)) {
+      tables.push({ name, operation });
+    }
+  };
+
+  // 테이블명 뒤의 별칭 (AS 생략 가능) 처리, 다음 위치 반환
+  const skipAlias = (index: number): number => {
+    let i = index;
+    if (tokens[i]?.value === 'AS') i++;
+    if (isIdentifier(tokens[i]) && !tokens[i].value.includes('.')) {
+      aliases.add(tokens[i].value);
+      consumed.add(i);
+      return i + 1;
+    }
+    return i;
+  };
+
+  // FROM/USING 절의 테이블 목록 (쉼표 구분, 서브쿼리는 건너뜀 - 내부는 본 루프에서 처리)
+  const readTableList = (index: number, operation: SqlOperation, single: boolean) => {
+    let i = index;
+    while (i < tokens.length) {
+      if (tokens[i].value === '(') {
+        i = skipAlias(findClosingParen(tokens, i) + 1);
+      } else if (tokens[i].value === 'LATERAL' || tokens[i].value === 'ONLY') {
+        i++;
+        continue;
+      } else if (isIdentifier(tokens[i]) && tokens[i + 1]?.value !== '(') {
+        addTable(i, operation);
+        i = skipAlias(i + 1);
+      } else {
+        return;
+      }
+
+      if (single || tokens[i]?.value !== ',') return;
+      i++;
+    }
+  };
+
+  // 괄호 종류 스택 (함수 호출 괄호 안의 FROM은 EXTRACT(YEAR FROM ...) 등이므로 무시)
+  const parenStack: Array<'func' | 'group'> = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+
+    if (token.value === '(') {
+      parenStack.push(isIdentifier(previous) ? 'func' : 'group');
+      continue;
+    }
+    if (token.value === ')') {
+      parenStack.pop();
+      continue;
+    }
+    if (token.type !== 'word') continue;
+
+    const inFunction = parenStack[parenStack.length - 1] === 'func';
+
+    switch (token.value) {
+      case 'WITH':
+        // WITH name [(cols)] AS ( ... ) [, name AS ( ... )]
+        for (let j = i + 1; j < tokens.length && isIdentifier(tokens[j]);) {
+          cteNames.add(tokens[j].value);
+          consumed.add(j);
+          j++;
+          if (tokens[j]?.value === '(') j = findClosingParen(tokens, j) + 1;
+          if (tokens[j]?.value !== 'AS' || tokens[j + 1]?.value !== '(') break;
+          j = findClosingParen(tokens, j + 1) + 1;
+          if (tokens[j]?.value !== ',') break;
+          j++;
+        }
+        break;
+
+      case 'FROM':
+        if (inFunction) break;
+        if (previous?.value === 'DELETE') {
+          readTableList(i + 1, 'DELETE', true);
+        } else {
+          readTableList(i + 1, 'SELECT', false);
+        }
+        break;
+
+      case 'JOIN':
+      case 'USING':
+        if (token.value === 'USING' && tokens[i + 1]?.value === '(' && statementType !== 'MERGE') break;
+        readTableList(i + 1, 'SELECT', true);
+        break;
+
+      case 'INTO':
+        // INSERT INTO T (컬럼 목록)은 함수 호출 형태이므로 목록 파서 대신 직접 처리
+        if ((statementType === 'INSERT' || statementType === 'MERGE') && isIdentifier(tokens[i + 1])) {
+          addTable(i + 1, statementType);
+          skipAlias(i + 2);
+        }
+        break;
+
+      case 'UPDATE':
+        // MERGE의 WHEN MATCHED THEN UPDATE SET은 대상 테이블이 아님
+        if (tokens[i + 1]?.value !== 'SET') {
+          readTableList(i + 1, 'UPDATE', true);
+        }
+        break;
+
+      case 'DELETE':
+        if (isIdentifier(tokens[i + 1])) {
+          readTableList(i + 1, 'DELETE', true);
+        }
+        break;
+    }
+  }
+
+  // 컬럼: 예약어/함수명/테이블/별칭이 아닌 식별자 (한정자 제거)
+  const columns: string[] = [];
+  tokens.forEach((token, index) => {
+    if (!isIdentifier(token) || consumed.has(index)) return;
+    if (tokens[index + 1]?.value === '(') return; // 함수 호출
+
+    const previous = tokens[index - 1];
+    // AS 별칭 또는 암시적 별칭 (식별자/리터럴/닫는 괄호 바로 뒤)
+    if (previous && (previous.value === 'AS' || isIdentifier(previous) || previous.type === 'string' ||
+      previous.type === 'number' || previous.type === 'bind' || previous.value === ')')) {
+      return;
+    }
+
+    const parts = token.value.split('.');
+    const column = parts[parts.length - 1];
+    if (column === '*' || KEYWORDS.has(column) || cteNames.has(token.value) || aliases.has(token.value)) return;
+
+    if (!columns.includes(column)) {
+      columns.push(column);
+    }
+  });
+
+  // 바인드 변수 (이름/형식별 등장 횟수)
+  const binds: SqlBind[] = [];
+  for (const token of tokens) {
+    if (token.type !== 'bind' || !token.style) continue;
+    const existing = binds.find(bind => bind.name === token.value && bind.style === token.style);
+    if (existing) {
+      existing.occurrences++;
+    } else {
+      binds.push({ name: token.value, style: token.style, occurrences: 1 });
+    }
+  }
+
+  return {
+    statementType,
+    tables: tables.filter(table => !cteNames.has(table.name)),
+    columns,
+    binds,
+    hints,
+    normalized
+  };
+}
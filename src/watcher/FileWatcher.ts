@@ -4,9 +4,11 @@
  */
 
 import * as chokidar from 'chokidar';
+import { resolve } from 'path';
 import { CacheManager } from '../cache/CacheManager.js';
 import { logger } from '../utils/logger.js';
-import { CacheConfig } from '../types.js';
+import { CacheConfig, JsonSource, ReloadResult } from '../types.js';
+import { getSourceWatchBase, isMultiFileSource, matchesSourceFile } from '../cache/loaders/source-files.js';
 
 export interface WatcherStats {
   watching: number;
@@ -23,12 +25,14 @@ export interface FileChangeEvent {
 }
 
 export type FileChangeListener = (event: FileChangeEvent) => void;
+export type ReloadListener = (result: ReloadResult) => void;
 
 export class FileWatcher {
   private watcher?: chokidar.FSWatcher;
   private cacheManager: CacheManager;
   private config: CacheConfig;
-  private watchedPaths: Map<string, string> = new Map(); // path -> source name
+  private watchedPaths: Map<string, string> = new Map(); // 절대 경로 -> source name
+  private multiFileSources: Map<string, JsonSource> = new Map(); // 디렉토리/글롭 소스 (source name -> 설정)
   private stats: WatcherStats = {
     watching: 0,
     changes: 0,
@@ -36,6 +40,7 @@ export class FileWatcher {
     errors: 0
   };
   private changeListeners: FileChangeListener[] = [];
+  private reloadListeners: ReloadListener[] = [];
   private reloadDebounceTimers: Map<string, NodeJS.Timeout> = new Map();
   private watcherLogger = logger.withSource('FILE_WATCHER');
 
@@ -57,9 +62,17 @@ export class FileWatcher {
     const pathsToWatch: string[] = [];
 
     for (const [sourceName, sourceConfig] of Object.entries(this.config.sources)) {
-      if (sourceConfig.watch) {
-        pathsToWatch.push(sourceConfig.path);
-        this.watchedPaths.set(sourceConfig.path, sourceName);
+      // 원격 소스는 RemotePoller가 폴링
+      if (sourceConfig.watch && !sourceConfig.url) {
+        // 디렉토리/글롭 소스는 기준 디렉토리를 감시하여 파일 추가/삭제도 감지
+        const multiFile = isMultiFileSource(sourceConfig.path);
+        const absolutePath = multiFile ? getSourceWatchBase(sourceConfig.path) : resolve(sourceConfig.path);
+        pathsToWatch.push(absolutePath);
+        this.watchedPaths.set(absolutePath, sourceName);
+
+        if (multiFile) {
+          this.multiFileSources.set(sourceName, sourceConfig);
+        }
       }
     }
 
@@ -96,13 +109,22 @@ export class FileWatcher {
    * 파일 변경 이벤트 처리
    */
   private handleFileChange(path: string, type: 'change' | 'unlink' | 'add'): void {
-    const sourceName = this.watchedPaths.get(path);
+    const absolutePath = resolve(path);
+    const multiFileSource = this.findMultiFileSource(absolutePath);
+    const sourceName = multiFileSource ?? this.watchedPaths.get(absolutePath);
 
+    // 디렉토리/글롭 소스의 기준 디렉토리 안이라도 패턴/형식이 맞지 않는 파일은 무시
     if (!sourceName) {
       this.watcherLogger.debug('알 수 없는 파일 변경', { path });
       return;
     }
 
+    // 쓰기 가능한 소스를 직접 저장한 변경은 이미 메모리에 반영되어 있으므로 리로드하지 않음
+    if (!multiFileSource && this.cacheManager.getCache(sourceName)?.isOwnWrite()) {
+      this.watcherLogger.debug('자체 저장으로 인한 변경, 리로드 스킵', { source: sourceName, path });
+      return;
+    }
+
     this.stats.changes++;
     this.stats.lastChange = new Date();
 
@@ -122,8 +144,8 @@ export class FileWatcher {
     // 리스너들에게 알림
     this.notifyListeners(event);
 
-    // 파일 삭제 시에는 리로드 하지 않음
-    if (type === 'unlink') {
+    // 파일 삭제 시에는 리로드 하지 않음 (디렉토리/글롭 소스는 남은 파일로 리로드)
+    if (type === 'unlink' && !multiFileSource) {
       this.watcherLogger.warn('파일 삭제 감지, 리로드 스킵', { source: sourceName });
       return;
     }
@@ -132,6 +154,18 @@ export class FileWatcher {
     this.scheduleReload(sourceName);
   }
 
+  /**
+   * 변경된 파일이 속한 디렉토리/글롭 소스 찾기
+   */
+  private findMultiFileSource(absolutePath: string): string | undefined {
+    for (const [sourceName, sourceConfig] of this.multiFileSources) {
+      if (matchesSourceFile(sourceConfig.path, absolutePath, sourceConfig.format)) {
+        return sourceName;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * 디바운스를 적용한 리로드 스케줄링
    * 짧은 시간에 여러 변경이 발생해도 한 번만 리로드
@@ -171,9 +205,12 @@ export class FileWatcher {
         this.stats.errors++;
         this.watcherLogger.error('자동 리로드 실패 (기존 캐시 유지)', {
           source: sourceName,
-          error: result.error
+          error: result.error,
+          stale: result.stale
         });
       }
+
+      this.notifyReloadListeners(result);
     } catch (error) {
       this.stats.errors++;
       this.watcherLogger.error('자동 리로드 중 예외 발생', {
@@ -208,6 +245,26 @@ export class FileWatcher {
     }
   }
 
+  /**
+   * 자동 리로드 결과 리스너 추가 (성공/실패 모두 알림)
+   */
+  public addReloadListener(listener: ReloadListener): void {
+    this.reloadListeners.push(listener);
+  }
+
+  /**
+   * 리스너들에게 리로드 결과 알림
+   */
+  private notifyReloadListeners(result: ReloadResult): void {
+    for (const listener of this.reloadListeners) {
+      try {
+        listener(result);
+      } catch (error) {
+        this.watcherLogger.error('리스너 실행 중 오류', error);
+      }
+    }
+  }
+
   /**
    * 리스너들에게 변경 이벤트 알림
    */
@@ -0,0 +1,241 @@
+/**
+ * RemotePoller - 원격 HTTP(S) 소스 주기적 폴링
+ * pollInterval마다 CacheManager.reloadSource로 조건부 요청하여, 변경된 경우에만 리스너에 알림
+ */
+
+import { CacheManager } from '../cache/CacheManager.js';
+import { logger } from '../utils/logger.js';
+import { CacheConfig, ReloadResult } from '../types.js';
+
+export interface PollerStats {
+  polling: number;
+  polls: number;
+  changes: number;
+  notModified: number;
+  lastChange: Date | null;
+  errors: number;
+}
+
+export interface RemoteChangeEvent {
+  source: string;
+  url: string;
+  keys: number;
+  timestamp: Date;
+}
+
+export type RemoteChangeListener = (event: RemoteChangeEvent) => void;
+export type ReloadListener = (result: ReloadResult) => void;
+
+export class RemotePoller {
+  private cacheManager: CacheManager;
+  private config: CacheConfig;
+  private timers: Map<string, NodeJS.Timeout> = new Map(); // source name -> interval timer
+  private inFlight: Set<string> = new Set(); // 응답 대기 중인 소스 (중복 요청 방지)
+  private stats: PollerStats = this.createEmptyStats();
+  private changeListeners: RemoteChangeListener[] = [];
+  private reloadListeners: ReloadListener[] = [];
+  private pollerLogger = logger.withSource('REMOTE_POLLER');
+
+  constructor(cacheManager: CacheManager, config: CacheConfig) {
+    this.cacheManager = cacheManager;
+    this.config = config;
+  }
+
+  /**
+   * 폴링 시작 (url과 pollInterval이 모두 지정된 소스만)
+   */
+  public start(): void {
+    if (this.timers.size > 0) {
+      this.pollerLogger.warn('원격 소스 폴링이 이미 시작되었습니다');
+      return;
+    }
+
+    for (const [sourceName, sourceConfig] of Object.entries(this.config.sources)) {
+      if (!sourceConfig.url || !sourceConfig.pollInterval) {
+        continue;
+      }
+
+      const timer = setInterval(() => {
+        void this.poll(sourceName, sourceConfig.url as string);
+      }, sourceConfig.pollInterval);
+      this.timers.set(sourceName, timer);
+    }
+
+    if (this.timers.size === 0) {
+      return;
+    }
+
+    this.stats.polling = this.timers.size;
+    this.pollerLogger.info('원격 소스 폴링 시작', {
+      polling: this.timers.size,
+      sources: this.getPolledSources()
+    });
+  }
+
+  /**
+   * 원격 소스 한 번 폴링
+   * 304 응답이면 다시 파싱하지 않고, 실패하면 기존 캐시 유지
+   */
+  private async poll(sourceName: string, url: string): Promise<void> {
+    if (this.inFlight.has(sourceName)) {
+      this.pollerLogger.debug('이전 요청이 진행 중이어서 폴링 스킵', { source: sourceName });
+      return;
+    }
+
+    this.inFlight.add(sourceName);
+    this.stats.polls++;
+
+    try {
+      const result = await this.cacheManager.reloadSource(sourceName);
+
+      if (!result.success) {
+        this.stats.errors++;
+        this.pollerLogger.error('원격 소스 폴링 실패 (기존 캐시 유지)', {
+          source: sourceName,
+          error: result.error,
+          stale: result.stale
+        });
+        this.notifyReloadListeners(result);
+        return;
+      }
+
+      if (result.notModified) {
+        this.stats.notModified++;
+        this.pollerLogger.debug('원격 소스 변경 없음', { source: sourceName });
+        return;
+      }
+
+      this.stats.changes++;
+      this.stats.lastChange = new Date();
+
+      this.pollerLogger.info('원격 소스 변경 감지', {
+        source: sourceName,
+        keys: result.keys,
+        duration: result.duration
+      });
+
+      this.notifyListeners({
+        source: sourceName,
+        url,
+        keys: result.keys,
+        timestamp: new Date()
+      });
+      this.notifyReloadListeners(result);
+    } catch (error) {
+      this.stats.errors++;
+      this.pollerLogger.error('원격 소스 폴링 중 예외 발생', {
+        source: sourceName,
+        error
+      });
+    } finally {
+      this.inFlight.delete(sourceName);
+    }
+  }
+
+  /**
+   * 변경 이벤트 리스너 추가
+   */
+  public addChangeListener(listener: RemoteChangeListener): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * 변경 이벤트 리스너 제거
+   */
+  public removeChangeListener(listener: RemoteChangeListener): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index !== -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * 리로드 결과 리스너 추가 (304 응답은 알리지 않음)
+   */
+  public addReloadListener(listener: ReloadListener): void {
+    this.reloadListeners.push(listener);
+  }
+
+  /**
+   * 리스너들에게 리로드 결과 알림
+   */
+  private notifyReloadListeners(result: ReloadResult): void {
+    for (const listener of this.reloadListeners) {
+      try {
+        listener(result);
+      } catch (error) {
+        this.pollerLogger.error('리스너 실행 중 오류', error);
+      }
+    }
+  }
+
+  /**
+   * 리스너들에게 변경 이벤트 알림
+   */
+  private notifyListeners(event: RemoteChangeEvent): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.pollerLogger.error('리스너 실행 중 오류', error);
+      }
+    }
+  }
+
+  /**
+   * 통계 정보 반환
+   */
+  public getStats(): PollerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * 폴링 중인 소스 목록 반환
+   */
+  public getPolledSources(): string[] {
+    return Array.from(this.timers.keys());
+  }
+
+  /**
+   * 폴링 중지
+   */
+  public stop(): void {
+    if (this.timers.size === 0) {
+      return;
+    }
+
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+
+    this.pollerLogger.info('원격 소스 폴링 중지', {
+      totalPolls: this.stats.polls,
+      changes: this.stats.changes,
+      errors: this.stats.errors
+    });
+
+    this.stats = this.createEmptyStats();
+  }
+
+  /**
+   * 폴링 중인지 확인
+   */
+  public isActive(): boolean {
+    return this.timers.size > 0;
+  }
+
+  /**
+   * 통계 초기값
+   */
+  private createEmptyStats(): PollerStats {
+    return {
+      polling: 0,
+      polls: 0,
+      changes: 0,
+      notModified: 0,
+      lastChange: null,
+      errors: 0
+    };
+  }
+}
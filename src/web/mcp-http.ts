@@ -0,0 +1,454 @@
+/**
+ * MCP HTTP Endpoint - Streamable HTTP 및 레거시 SSE 전송
+ * 웹 서버의 Express 앱에 MCP 엔드포인트를 붙여 여러 클라이언트가 하나의 캐시를 공유
+ * 세션마다 별도의 MCP Server 인스턴스를 만들고, 세션별 로그는 MCP_SESSION:{ID 앞 8자리} 소스로 기록
+ *
+ * 경로 (path 기본값 /mcp):
+ * - POST/GET/DELETE {path}: Streamable HTTP (Mcp-Session-Id 헤더로 세션 구분)
+ * - GET {path}/sse, POST {path}/messages?sessionId=: 레거시 HTTP+SSE
+ */
+
+import { randomUUID } from 'crypto';
+import { Express, Request, Response, NextFunction } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger, LogEntry, SourceLogger } from '../utils/logger.js';
+
+const endpointLogger = logger.withSource('MCP_HTTP');
+
+// 요청이 없으면 세션을 닫는 시간 (30분) 및 확인 주기
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Origin 목록을 지정하지 않았을 때 허용하는 호스트
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface McpHttpConfig {
+  enabled: boolean;
+  path: string; // 엔드포인트 경로 (예: /mcp)
+  allowedOrigins: string[]; // 허용할 Origin (비어 있으면 localhost만, Origin 헤더가 없는 요청은 항상 허용)
+}
+
+export type McpTransportType = 'streamable-http' | 'sse';
+
+// 세션용 MCP Server와 등록 해제 함수 (전송 연결에 실패한 Server를 알림 대상에서 제외)
+export interface McpServerHandle {
+  server: Server;
+  release: () => void;
+}
+
+/**
+ * 세션마다 새 MCP Server를 만드는 함수
+ * @param logSource 세션 로그 소스 이름 (핸들러 로그를 세션별로 구분)
+ */
+export type McpServerFactory = (logSource: string) => McpServerHandle;
+
+export type McpSessionListener = (event: 'opened' | 'closed', session: McpSessionInfo) => void;
+
+// 대시보드에 표시할 세션 정보
+export interface McpSessionInfo {
+  id: string;
+  transport: McpTransportType;
+  logSource: string;
+  client?: { name: string; version: string };
+  createdAt: Date;
+  lastActivityAt: Date;
+  requests: number;
+  lastMethod?: string;
+}
+
+interface McpSession {
+  info: McpSessionInfo;
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  logger: SourceLogger;
+}
+
+/**
+ * 세션 로그 소스 이름
+ */
+export function getSessionLogSource(sessionId: string): string {
+  return `MCP_SESSION:${sessionId.slice(0, 8)}`;
+}
+
+export class McpHttpEndpoint {
+  private config: McpHttpConfig;
+  private createServer: McpServerFactory;
+  private sessions: Map<string, McpSession> = new Map();
+  private sessionListeners: McpSessionListener[] = [];
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: McpHttpConfig, createServer: McpServerFactory) {
+    this.config = config;
+    this.createServer = createServer;
+  }
+
+  /**
+   * Express 앱에 엔드포인트 등록 (404 핸들러보다 먼저 호출)
+   */
+  public mount(app: Express): void {
+    const { path } = this.config;
+
+    app.use([path, `${path}/sse`, `${path}/messages`], (req, res, next) => this.checkOrigin(req, res, next));
+
+    app.post(path, (req, res) => this.handleStreamablePost(req, res));
+    app.get(path, (req, res) => this.handleStreamableSession(req, res));
+    app.delete(path, (req, res) => this.handleStreamableSession(req, res));
+
+    app.get(`${path}/sse`, (req, res) => this.handleSseConnect(req, res));
+    app.post(`${path}/messages`, (req, res) => this.handleSseMessage(req, res));
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    endpointLogger.info('MCP HTTP 엔드포인트 등록', {
+      streamableHttp: path,
+      sse: `${path}/sse`,
+      allowedOrigins: this.config.allowedOrigins.length > 0 ? this.config.allowedOrigins : 'localhost'
+    });
+  }
+
+  /**
+   * 세션 변경 리스너 등록 (열림/닫힘)
+   */
+  public addSessionListener(listener: McpSessionListener): void {
+    this.sessionListeners.push(listener);
+  }
+
+  /**
+   * 엔드포인트 설정
+   */
+  public getConfig(): McpHttpConfig {
+    return this.config;
+  }
+
+  /**
+   * 열린 세션 목록 (최근 활동 순)
+   */
+  public getSessions(): McpSessionInfo[] {
+    return Array.from(this.sessions.values())
+      .map(session => this.describe(session))
+      .sort((a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime());
+  }
+
+  /**
+   * 세션 정보 (없으면 undefined)
+   */
+  public getSession(sessionId: string): McpSessionInfo | undefined {
+    const session = this.sessions.get(sessionId);
+    return session ? this.describe(session) : undefined;
+  }
+
+  /**
+   * 세션 로그 (로그 버퍼에 남아 있는 항목, 오래된 순)
+   */
+  public getSessionLogs(sessionId: string, limit: number = 100): LogEntry[] {
+    return logger.filterBySource(getSessionLogSource(sessionId)).slice(-limit);
+  }
+
+  /**
+   * 모든 세션 종료
+   */
+  public async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.closeSession(id, '서버 종료')));
+  }
+
+  /**
+   * Origin 검증 (브라우저에서 다른 사이트가 로컬 MCP 서버를 호출하지 못하도록)
+   * 허용된 Origin이면 CORS 헤더를 붙이고 사전 요청(OPTIONS)에 응답
+   */
+  private checkOrigin(req: Request, res: Response, next: NextFunction): void {
+    const origin = req.headers.origin;
+
+    if (origin) {
+      if (!this.isAllowedOrigin(origin)) {
+        endpointLogger.warn('허용되지 않은 Origin', { origin, path: req.path });
+        res.status(403).json(this.jsonRpcError(-32000, `Origin not allowed: ${origin}`));
+        return;
+      }
+
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Accept, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+      res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * 허용된 Origin 여부 (목록이 비어 있으면 localhost 계열만)
+   */
+  private isAllowedOrigin(origin: string): boolean {
+    if (this.config.allowedOrigins.length > 0) {
+      return this.config.allowedOrigins.includes('*') || this.config.allowedOrigins.includes(origin);
+    }
+
+    try {
+      return LOCAL_HOSTNAMES.includes(new URL(origin).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Streamable HTTP POST: 세션이 있으면 전달, 없으면 initialize 요청일 때만 새 세션 생성
+   */
+  private async handleStreamablePost(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header('mcp-session-id');
+
+    try {
+      if (sessionId) {
+        const session = this.findSession(sessionId, 'streamable-http', res);
+        if (!session) return;
+
+        this.recordRequests(session, req.body);
+        await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        res.status(400).json(this.jsonRpcError(-32000, 'Bad Request: Mcp-Session-Id header is required'));
+        return;
+      }
+
+      const id = randomUUID();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => id,
+        onsessionclosed: closedId => {
+          this.removeSession(closedId, '클라이언트 종료 요청');
+        }
+      });
+
+      const session = await this.openSession(id, 'streamable-http', transport);
+      this.recordRequests(session, req.body);
+      await transport.handleRequest(req, res, req.body);
+
+    } catch (error) {
+      this.respondError(res, 'Streamable HTTP 요청 처리 실패', error, sessionId);
+    }
+  }
+
+  /**
+   * Streamable HTTP GET(알림 스트림)/DELETE(세션 종료)
+   */
+  private async handleStreamableSession(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header('mcp-session-id');
+
+    if (!sessionId) {
+      res.status(400).json(this.jsonRpcError(-32000, 'Bad Request: Mcp-Session-Id header is required'));
+      return;
+    }
+
+    const session = this.findSession(sessionId, 'streamable-http', res);
+    if (!session) return;
+
+    try {
+      session.info.lastActivityAt = new Date();
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+    } catch (error) {
+      this.respondError(res, 'Streamable HTTP 요청 처리 실패', error, sessionId);
+    }
+  }
+
+  /**
+   * 레거시 SSE 연결: 스트림을 열고 세션 ID가 담긴 메시지 경로를 endpoint 이벤트로 전달
+   */
+  private async handleSseConnect(req: Request, res: Response): Promise<void> {
+    try {
+      const transport = new SSEServerTransport(`${this.config.path}/messages`, res);
+      await this.openSession(transport.sessionId, 'sse', transport);
+    } catch (error) {
+      this.respondError(res, 'SSE 연결 실패', error);
+    }
+  }
+
+  /**
+   * 레거시 SSE 메시지 (POST {path}/messages?sessionId=...)
+   */
+  private async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+    const session = this.findSession(sessionId, 'sse', res);
+    if (!session) return;
+
+    try {
+      this.recordRequests(session, req.body);
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+    } catch (error) {
+      this.respondError(res, 'SSE 메시지 처리 실패', error, sessionId);
+    }
+  }
+
+  /**
+   * 새 세션 생성 및 MCP Server 연결 (전송이 닫히면 세션 제거)
+   * 연결에 실패하면 세션과 MCP Server 등록을 되돌리고 전송을 닫은 뒤 예외 전달
+   */
+  private async openSession(
+    id: string,
+    type: McpTransportType,
+    transport: StreamableHTTPServerTransport | SSEServerTransport
+  ): Promise<McpSession> {
+    const logSource = getSessionLogSource(id);
+    const now = new Date();
+    const { server, release } = this.createServer(logSource);
+    const session: McpSession = {
+      info: { id, transport: type, logSource, createdAt: now, lastActivityAt: now, requests: 0 },
+      server,
+      transport,
+      logger: logger.withSource(logSource)
+    };
+
+    transport.onclose = () => {
+      this.removeSession(id, '연결 종료');
+    };
+
+    this.sessions.set(id, session);
+    try {
+      await session.server.connect(transport);
+    } catch (error) {
+      this.sessions.delete(id);
+      release();
+      try {
+        await transport.close();
+      } catch (closeError) {
+        endpointLogger.warn('MCP 세션 전송 종료 실패', { sessionId: id, error: closeError });
+      }
+      throw error;
+    }
+
+    session.logger.info('MCP 세션 시작', { sessionId: id, transport: type });
+    this.notifySessionListeners('opened', session);
+    return session;
+  }
+
+  /**
+   * 세션 조회 (없거나 전송 방식이 다르면 404 응답 후 undefined)
+   */
+  private findSession(sessionId: string, type: McpTransportType, res: Response): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+
+    if (!session || session.info.transport !== type) {
+      res.status(404).json(this.jsonRpcError(-32001, `Session not found: ${sessionId}`));
+      return undefined;
+    }
+
+    return session;
+  }
+
+  /**
+   * 수신 메시지 기록 (요청 수, 마지막 메서드, 세션 로그)
+   */
+  private recordRequests(session: McpSession, body: unknown): void {
+    const messages = Array.isArray(body) ? body : [body];
+    session.info.lastActivityAt = new Date();
+
+    for (const message of messages) {
+      const { method, id, params } = (message ?? {}) as { method?: unknown; id?: unknown; params?: Record<string, unknown> };
+      if (typeof method !== 'string') continue;
+
+      // 알림(id 없음)은 로그만 남기고 요청 수에는 포함하지 않음
+      if (id !== undefined) {
+        session.info.requests++;
+        session.info.lastMethod = method;
+      }
+
+      session.logger.info(`요청: ${method}`, { id, name: params?.name, uri: params?.uri });
+    }
+  }
+
+  /**
+   * 세션 종료 (먼저 목록에서 제거하므로 전송의 onclose는 무시됨)
+   */
+  private async closeSession(sessionId: string, reason: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.removeSession(sessionId, reason);
+    try {
+      await session.server.close();
+    } catch (error) {
+      endpointLogger.warn('MCP 세션 종료 실패', { sessionId, error });
+    }
+  }
+
+  /**
+   * 세션 목록에서 제거하고 리스너에 알림 (이미 제거된 세션은 무시)
+   */
+  private removeSession(sessionId: string, reason: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    session.logger.info('MCP 세션 종료', { sessionId, reason, requests: session.info.requests });
+    this.notifySessionListeners('closed', session);
+  }
+
+  /**
+   * 유휴 시간이 지난 세션 종료
+   */
+  private closeIdleSessions(): void {
+    const now = Date.now();
+
+    for (const [id, session] of this.sessions) {
+      if (now - session.info.lastActivityAt.getTime() > SESSION_IDLE_TIMEOUT_MS) {
+        void this.closeSession(id, '유휴 시간 초과');
+      }
+    }
+  }
+
+  /**
+   * 세션 정보 (클라이언트 이름은 initialize 이후에 채워짐)
+   */
+  private describe(session: McpSession): McpSessionInfo {
+    const client = session.server.getClientVersion();
+    return {
+      ...session.info,
+      client: client ? { name: client.name, version: client.version } : undefined
+    };
+  }
+
+  /**
+   * 세션 리스너 호출
+   */
+  private notifySessionListeners(event: 'opened' | 'closed', session: McpSession): void {
+    const info = this.describe(session);
+
+    for (const listener of this.sessionListeners) {
+      try {
+        listener(event, info);
+      } catch (error) {
+        endpointLogger.error('세션 리스너 실행 실패', error);
+      }
+    }
+  }
+
+  /**
+   * 처리 중 오류 응답 (응답을 이미 보냈으면 기록만)
+   */
+  private respondError(res: Response, message: string, error: unknown, sessionId?: string): void {
+    endpointLogger.error(message, { sessionId, error: error instanceof Error ? error.message : String(error) });
+
+    if (!res.headersSent) {
+      res.status(500).json(this.jsonRpcError(-32603, 'Internal server error'));
+    }
+  }
+
+  /**
+   * JSON-RPC 오류 본문
+   */
+  private jsonRpcError(code: number, message: string) {
+    return { jsonrpc: '2.0', error: { code, message }, id: null };
+  }
+}
@@ -6,14 +6,93 @@
 import { Express, Request, Response } from 'express';
 import { CacheManager } from '../cache/CacheManager.js';
 import { logger } from '../utils/logger.js';
-import { ApiResponse } from '../types.js';
+import { ApiResponse, CacheError, CompareNormalization, COMPARE_NORMALIZATIONS, WriteResult } from '../types.js';
+import { createQueryJsonBatchTool } from '../tools/query-batch.js';
+import { SqlOperation } from '../utils/sql-analyzer.js';
+import { parseEntityTags, toEntityTag } from '../utils/revision.js';
+import { McpHttpEndpoint } from './mcp-http.js';
 
 const routeLogger = logger.withSource('API_ROUTES');
 
+// 쓰기 실패 코드별 HTTP 상태 (그 외는 500)
+const WRITE_ERROR_STATUS: Record<string, number> = {
+  SOURCE_NOT_FOUND: 404,
+  KEY_NOT_FOUND: 404,
+  SOURCE_READ_ONLY: 403,
+  CACHE_NOT_LOADED: 409,
+  SOURCE_REFRESHING: 409,
+  INVALID_KEY: 400,
+  PATCH_FAILED: 409,
+  REVISION_MISMATCH: 412,
+  FILE_TOO_LARGE: 413
+};
+
+/**
+ * If-Match 헤더의 리비전 목록 (헤더가 없으면 undefined)
+ */
+function getIfMatch(req: Request): string[] | undefined {
+  const tags = parseEntityTags(req.get('If-Match'));
+  return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * 쓰기 요청 결과 응답 (성공 시 변경 후 소스 통계 포함, entityTag가 있으면 ETag 헤더로 반환)
+ */
+async function respondWrite(
+  res: Response,
+  cacheManager: CacheManager,
+  source: string,
+  write: () => Promise<WriteResult>,
+  entityTag?: (result: WriteResult) => string | undefined
+) {
+  try {
+    const result = await write();
+
+    const revision = entityTag?.(result);
+    if (revision) {
+      res.set('ETag', toEntityTag(revision));
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        ...result,
+        stats: cacheManager.getSourceStats(source)
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    routeLogger.info('소스 저장 완료', { source, duration: result.duration });
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof CacheError && WRITE_ERROR_STATUS[error.code]) {
+      return res.status(WRITE_ERROR_STATUS[error.code]).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        data: {
+          source,
+          writableSources: cacheManager.getWritableSources()
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    routeLogger.error('소스 저장 실패', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
 /**
  * 라우트 설정
  */
-export function setupRoutes(app: Express, cacheManager: CacheManager): void {
+export function setupRoutes(app: Express, cacheManager: CacheManager, mcpEndpoint?: McpHttpEndpoint): void {
+  const batchTool = createQueryJsonBatchTool(cacheManager);
 
   // GET /api/sources - 소스 목록 및 통계
   app.get('/api/sources', async (req: Request, res: Response) => {
@@ -48,7 +127,7 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
   // GET /api/sources/:name - 특정 소스 상세
   app.get('/api/sources/:name', async (req: Request, res: Response) => {
     try {
-      const { name } = req.params;
+      const name = req.params.name as string;
       const stats = cacheManager.getSourceStats(name);
 
       if (!stats) {
@@ -59,6 +138,10 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
         });
       }
 
+      if (stats.revision) {
+        res.set('ETag', toEntityTag(stats.revision));
+      }
+
       const response: ApiResponse = {
         success: true,
         data: stats,
@@ -77,6 +160,122 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
     }
   });
 
+  // GET /api/sources/:name/history - 리로드 스냅샷 목록 (diff=true 또는 from/to 쿼리로 변경 내역 포함)
+  app.get('/api/sources/:name/history', async (req: Request, res: Response) => {
+    try {
+      const name = req.params.name as string;
+      const versions = cacheManager.getHistory(name);
+
+      if (!versions) {
+        return res.status(404).json({
+          success: false,
+          error: `소스를 찾을 수 없습니다: ${name}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const from = req.query.from !== undefined ? parseInt(req.query.from as string) : undefined;
+      const to = req.query.to !== undefined ? parseInt(req.query.to as string) : undefined;
+      if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+        return res.status(400).json({
+          success: false,
+          error: 'from/to는 스냅샷 버전 번호여야 합니다',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const includeDiff = req.query.diff === 'true' || from !== undefined || to !== undefined;
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          source: name,
+          versions,
+          diff: includeDiff ? cacheManager.diffSource(name, from, to) : undefined
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      if (error instanceof CacheError && error.code === 'SNAPSHOT_NOT_FOUND') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      routeLogger.error('소스 히스토리 조회 실패', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
+  // PUT /api/sources/:name/values - 키 값 설정 (body: key, value, If-Match: 키 리비전) - writable 소스만
+  app.put('/api/sources/:name/values', async (req: Request, res: Response) => {
+    const name = req.params.name as string;
+    const { key, value } = req.body ?? {};
+
+    if (!key || typeof key !== 'string' || value === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'body에 key(문자열)와 value가 필요합니다',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await respondWrite(
+      res,
+      cacheManager,
+      name,
+      () => cacheManager.setValue(name, key, value, getIfMatch(req)),
+      result => result.keyRevision
+    );
+  });
+
+  // DELETE /api/sources/:name/values - 키 삭제 (key 쿼리, If-Match: 키 리비전) - writable 소스만
+  app.delete('/api/sources/:name/values', async (req: Request, res: Response) => {
+    const name = req.params.name as string;
+    const key = req.query.key as string;
+
+    if (!key) {
+      return res.status(400).json({
+        success: false,
+        error: 'key 파라미터가 필요합니다',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await respondWrite(res, cacheManager, name, () => cacheManager.deleteKey(name, key, getIfMatch(req)));
+  });
+
+  // PATCH /api/sources/:name - JSON Patch(RFC 6902) 적용 (body: 연산 배열, If-Match: 소스 리비전) - writable 소스만
+  app.patch('/api/sources/:name', async (req: Request, res: Response) => {
+    const name = req.params.name as string;
+    const operations = req.body;
+
+    if (!Array.isArray(operations) || operations.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'body는 비어있지 않은 JSON Patch 연산 배열이어야 합니다',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await respondWrite(
+      res,
+      cacheManager,
+      name,
+      () => cacheManager.patchSource(name, operations, getIfMatch(req)),
+      result => result.revision
+    );
+  });
+
   // GET /api/keys - 키 목록 (source, prefix, search, maxDepth 쿼리)
   app.get('/api/keys', async (req: Request, res: Response) => {
     try {
@@ -218,7 +417,175 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
     }
   });
 
-  // GET /api/query - 키 조회 (key, source 쿼리)
+  // GET /api/search - 값 전문 검색 (q, source, field, limit 쿼리)
+  app.get('/api/search', async (req: Request, res: Response) => {
+    try {
+      const query = req.query.q as string;
+      const source = req.query.source as string | undefined;
+      const field = req.query.field as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      if (!query || query.trim() === '') {
+        return res.status(400).json({
+          success: false,
+          error: 'q 파라미터가 필요합니다',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (source && !cacheManager.getCache(source)) {
+        return res.status(404).json({
+          success: false,
+          error: `소스를 찾을 수 없습니다: ${source}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const results = cacheManager.searchValues(query, source, { field, limit });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          query,
+          source,
+          field,
+          results,
+          total: results.length,
+          hasMore: results.length >= limit
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      routeLogger.error('값 검색 실패', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
+  // GET /api/compare - 두 소스 비교 (a, b, prefix, normalize, limit 쿼리)
+  app.get('/api/compare', async (req: Request, res: Response) => {
+    try {
+      const sourceA = req.query.a as string | undefined;
+      const sourceB = req.query.b as string | undefined;
+      const prefix = (req.query.prefix as string | undefined) || undefined;
+      const normalize = (req.query.normalize as string | undefined) || 'none';
+      const limit = Math.min(parseInt(req.query.limit as string) || 200, 1000);
+
+      if (!sourceA || !sourceB) {
+        return res.status(400).json({
+          success: false,
+          error: 'a, b 파라미터가 필요합니다',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      for (const source of [sourceA, sourceB]) {
+        if (!cacheManager.getCache(source)) {
+          return res.status(404).json({
+            success: false,
+            error: `소스를 찾을 수 없습니다: ${source}`,
+            timestamp: new Date().toISOString()
+          });
+        }
+      }
+
+      if (!COMPARE_NORMALIZATIONS.includes(normalize as CompareNormalization)) {
+        return res.status(400).json({
+          success: false,
+          error: `지원하지 않는 normalize입니다: ${normalize}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const comparison = cacheManager.compareSources(sourceA, sourceB, {
+        prefix,
+        normalize: normalize as CompareNormalization
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          ...comparison,
+          onlyInA: comparison.onlyInA.slice(0, limit),
+          onlyInB: comparison.onlyInB.slice(0, limit),
+          different: comparison.different.slice(0, limit),
+          hasMore: Math.max(comparison.summary.onlyInA, comparison.summary.onlyInB, comparison.summary.different) > limit
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      routeLogger.error('소스 비교 실패', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
+  // GET /api/tables/:name/queries - 테이블 사용 쿼리 (source, operation, limit 쿼리)
+  app.get('/api/tables/:name/queries', async (req: Request, res: Response) => {
+    try {
+      const table = req.params.name as string;
+      const source = req.query.source as string | undefined;
+      const operation = (req.query.operation as string | undefined)?.toUpperCase();
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+      if (source && !cacheManager.getCache(source)) {
+        return res.status(404).json({
+          success: false,
+          error: `소스를 찾을 수 없습니다: ${source}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (operation && !['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE'].includes(operation)) {
+        return res.status(400).json({
+          success: false,
+          error: `지원하지 않는 operation입니다: ${operation}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const results = cacheManager.findQueriesByTable(table, source, {
+        operation: operation as SqlOperation | undefined
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          table,
+          source,
+          operation,
+          results: results.slice(0, limit),
+          total: results.length,
+          hasMore: results.length > limit
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      routeLogger.error('테이블 사용 쿼리 조회 실패', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
+  // GET /api/query - 키 조회 (key, source 쿼리), ETag는 키 리비전이며 If-None-Match가 일치하면 304
   app.get('/api/query', async (req: Request, res: Response) => {
     try {
       const key = req.query.key as string;
@@ -255,6 +622,15 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
         });
       }
 
+      result.revision = cacheManager.getKeyRevision(result);
+      if (result.revision) {
+        const ifNoneMatch = parseEntityTags(req.get('If-None-Match'));
+        if (ifNoneMatch.includes(result.revision) || ifNoneMatch.includes('*')) {
+          return res.status(304).set('ETag', toEntityTag(result.revision)).end();
+        }
+        res.set('ETag', toEntityTag(result.revision));
+      }
+
       const response: ApiResponse = {
         success: true,
         data: result,
@@ -273,22 +649,73 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
     }
   });
 
+  // POST /api/query/batch - 다중 키 일괄 조회 (body: queries, source, jsonpath, maxResponseSize)
+  app.post('/api/query/batch', async (req: Request, res: Response) => {
+    try {
+      const result = await batchTool.execute(req.body ?? {});
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.message,
+          data: {
+            availableSources: result.availableSources
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(response);
+
+    } catch (error) {
+      routeLogger.error('일괄 조회 실패', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
   // POST /api/reload/:name - 소스 리로드
   app.post('/api/reload/:name', async (req: Request, res: Response) => {
     try {
-      const { name } = req.params;
+      const name = req.params.name as string;
 
       const startTime = Date.now();
-      await cacheManager.reloadSource(name);
+      const result = await cacheManager.reloadSource(name);
       const duration = Date.now() - startTime;
 
       const stats = cacheManager.getSourceStats(name);
 
+      // 실패 시 이전 데이터 유지 여부(stale)를 함께 반환
+      if (!result.success) {
+        routeLogger.warn('소스 리로드 실패', { source: name, error: result.error, stale: result.stale });
+        return res.status(stats ? 500 : 404).json({
+          success: false,
+          error: result.error,
+          data: {
+            source: name,
+            duration,
+            stale: result.stale,
+            stats
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
       const response: ApiResponse = {
         success: true,
         data: {
           source: name,
           duration,
+          notModified: result.notModified,
           stats
         },
         timestamp: new Date().toISOString()
@@ -317,10 +744,12 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
 
       for (const source of sources) {
         try {
-          await cacheManager.reloadSource(source);
+          const result = await cacheManager.reloadSource(source);
           results.push({
             source,
-            success: true
+            success: result.success,
+            error: result.error,
+            stale: result.stale
           });
         } catch (error) {
           results.push({
@@ -387,6 +816,49 @@ export function setupRoutes(app: Express, cacheManager: CacheManager): void {
     }
   });
 
+  // GET /api/mcp/sessions - MCP HTTP 세션 목록
+  app.get('/api/mcp/sessions', (req: Request, res: Response) => {
+    const config = mcpEndpoint?.getConfig();
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        enabled: Boolean(mcpEndpoint),
+        path: config?.path,
+        allowedOrigins: config?.allowedOrigins,
+        sessions: mcpEndpoint?.getSessions() ?? []
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
+  // GET /api/mcp/sessions/:id/logs - MCP 세션 로그 (종료된 세션도 로그 버퍼에 남아 있으면 반환)
+  app.get('/api/mcp/sessions/:id/logs', (req: Request, res: Response) => {
+    if (!mcpEndpoint) {
+      return res.status(404).json({
+        success: false,
+        error: 'MCP HTTP 엔드포인트가 비활성화되어 있습니다',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const id = req.params.id as string;
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        session: mcpEndpoint.getSession(id) ?? null,
+        logs: mcpEndpoint.getSessionLogs(id, limit)
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+  });
+
   // Health check
   app.get('/api/health', (req: Request, res: Response) => {
     res.json({
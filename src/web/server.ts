@@ -1,6 +1,7 @@
 /**
  * Web Server for JSON Cache Management UI
  * Express 기반 웹 서버 및 Socket.io 연동
+ * MCP HTTP 엔드포인트를 받으면 같은 포트에서 Streamable HTTP/SSE MCP 전송도 제공
  */
 
 import express, { Express, Request, Response, NextFunction } from 'express';
@@ -14,6 +15,7 @@ import { CacheManager } from '../cache/CacheManager.js';
 import { logger } from '../utils/logger.js';
 import { setupRoutes } from './routes.js';
 import { setupSocket, WebSocketManager } from './socket.js';
+import { McpHttpEndpoint } from './mcp-http.js';
 
 export interface WebServerConfig {
   enabled: boolean;
@@ -28,11 +30,13 @@ export class WebServer {
   private cacheManager: CacheManager;
   private config: WebServerConfig;
   private wsManager: WebSocketManager;
+  private mcpEndpoint?: McpHttpEndpoint;
   private serverLogger = logger.withSource('WEB_SERVER');
 
-  constructor(cacheManager: CacheManager, config: WebServerConfig) {
+  constructor(cacheManager: CacheManager, config: WebServerConfig, mcpEndpoint?: McpHttpEndpoint) {
     this.cacheManager = cacheManager;
     this.config = config;
+    this.mcpEndpoint = mcpEndpoint;
 
     // Express 앱 생성
     this.app = express();
@@ -58,8 +62,8 @@ export class WebServer {
    * 미들웨어 설정
    */
   private setupMiddleware(): void {
-    // JSON 파싱
-    this.app.use(express.json());
+    // JSON 파싱 (PATCH /api/sources/:name의 application/json-patch+json 포함)
+    this.app.use(express.json({ type: ['application/json', 'application/json-patch+json'] }));
     this.app.use(express.urlencoded({ extended: true }));
 
     // CORS 설정 (localhost만 허용)
@@ -67,8 +71,9 @@ export class WebServer {
       const origin = req.headers.origin;
       if (origin && origin.includes('localhost')) {
         res.header('Access-Control-Allow-Origin', origin);
-        res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-        res.header('Access-Control-Allow-Headers', 'Content-Type');
+        res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+        res.header('Access-Control-Allow-Headers', 'Content-Type, If-Match, If-None-Match');
+        res.header('Access-Control-Expose-Headers', 'ETag');
       }
       next();
     });
@@ -105,7 +110,15 @@ export class WebServer {
    * 라우트 설정
    */
   private setupRoutes(): void {
-    setupRoutes(this.app, this.cacheManager);
+    // MCP HTTP 엔드포인트 (404 핸들러보다 먼저 등록)
+    if (this.mcpEndpoint) {
+      this.mcpEndpoint.mount(this.app);
+      this.mcpEndpoint.addSessionListener((event, session) => {
+        this.wsManager.broadcastStateChange('mcp:session', { event, session });
+      });
+    }
+
+    setupRoutes(this.app, this.cacheManager, this.mcpEndpoint);
 
     // 루트 경로
     this.app.get('/', (req, res) => {
@@ -224,6 +237,9 @@ export class WebServer {
   public async shutdown(): Promise<void> {
     this.serverLogger.info('웹 서버 종료 시작');
 
+    // MCP 세션 종료 (열린 SSE 스트림이 HTTP 서버 종료를 막지 않도록 먼저 닫음)
+    await this.mcpEndpoint?.close();
+
     return new Promise((resolve) => {
       // WebSocket 연결 종료
       this.wsManager.shutdown();
@@ -6,9 +6,13 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { CacheManager } from '../cache/CacheManager.js';
 import { logger, LogEntry } from '../utils/logger.js';
+import { SourceDiff } from '../types.js';
 
 const wsLogger = logger.withSource('WEBSOCKET');
 
+// 변경 내역 알림에 포함할 항목별 최대 키 개수 (전체 내역은 history API로 조회)
+const DIFF_BROADCAST_KEY_LIMIT = 100;
+
 export class WebSocketManager {
   private io: SocketIOServer;
   private cacheManager: CacheManager;
@@ -40,11 +44,12 @@ export class WebSocketManager {
   /**
    * 소스 리로드 알림
    */
-  public broadcastReload(source: string, success: boolean, error?: string): void {
+  public broadcastReload(source: string, success: boolean, error?: string, stale?: boolean): void {
     this.broadcastStateChange('source:reload', {
       source,
       success,
       error,
+      stale,
       timestamp: new Date().toISOString()
     });
   }
@@ -61,6 +66,37 @@ export class WebSocketManager {
     });
   }
 
+  /**
+   * 원격 소스 변경 알림
+   */
+  public broadcastRemoteChange(source: string, url: string, keys: number): void {
+    this.broadcastStateChange('remote:change', {
+      source,
+      url,
+      keys,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * 소스 변경 내역 알림 (값 제외, 키 목록만)
+   */
+  public broadcastSourceDiff(diff: SourceDiff): void {
+    const keysOf = (entries: SourceDiff['added']) =>
+      entries.slice(0, DIFF_BROADCAST_KEY_LIMIT).map(entry => entry.key);
+
+    this.broadcastStateChange('source:diff', {
+      source: diff.source,
+      fromVersion: diff.fromVersion,
+      toVersion: diff.toVersion,
+      summary: diff.summary,
+      added: keysOf(diff.added),
+      removed: keysOf(diff.removed),
+      changed: keysOf(diff.changed),
+      timestamp: new Date().toISOString()
+    });
+  }
+
   /**
    * 연결된 클라이언트 수 반환
    */
@@ -139,14 +175,16 @@ export function setupSocket(
       try {
         wsLogger.info('소스 리로드 요청', { source: data.source, by: clientId });
 
-        await cacheManager.reloadSource(data.source);
+        const result = await cacheManager.reloadSource(data.source);
         const stats = cacheManager.getSourceStats(data.source);
 
-        wsManager.broadcastReload(data.source, true);
+        wsManager.broadcastReload(data.source, result.success, result.error, result.stale);
 
         socket.emit('source:reloaded', {
           source: data.source,
-          success: true,
+          success: result.success,
+          error: result.error,
+          stale: result.stale,
           stats,
           timestamp: new Date().toISOString()
         });
@@ -0,0 +1,39 @@
+/**
+ * analyze_query Tool 통계 테스트
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheManager } from '../dist/cache/CacheManager.js';
+import { createAnalyzeQueryTool } from '../dist/tools/analyze-query.js';
+
+let dir;
+let cacheManager;
+
+before(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'analyze-query-'));
+  writeFileSync(join(dir, 'q.json'), JSON.stringify({
+    b17: {
+      'B17R2010.select': { query: 'SELECT A FROM T WHERE ID = :ID', params: ['ID'] },
+      'B17R2020.select': { query: 'SELECT A FROM T WHERE ID = :ID', params: ['NAME'] }
+    }
+  }));
+
+  cacheManager = new CacheManager();
+  await cacheManager.loadAll({ sources: { q: { name: 'q', path: join(dir, 'q.json') } } });
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+test('분석 호출/실패/params 불일치 수를 통계로 반환', async () => {
+  const tool = createAnalyzeQueryTool(cacheManager);
+
+  assert.equal((await tool.execute({ key: 'B17R2010.select' })).paramCheck.consistent, true);
+  assert.equal((await tool.execute({ key: 'B17R2020.select' })).paramCheck.consistent, false);
+  assert.equal((await tool.execute({ key: 'missing' })).success, false);
+
+  assert.deepEqual(tool.getStats(), { totalAnalyses: 3, failedAnalyses: 1, paramMismatches: 1 });
+});
@@ -0,0 +1,72 @@
+/**
+ * 쓰기 가능한 소스 변경 테스트 (CacheManager.setValue / patchSource)
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheManager } from '../dist/cache/CacheManager.js';
+
+let dir;
+let path;
+let cacheManager;
+
+before(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'cache-write-'));
+  path = join(dir, 'writable.json');
+  writeFileSync(path, JSON.stringify({ b17: { 'B17R2010.select': { query: 'SELECT 1' } } }));
+
+  cacheManager = new CacheManager();
+  await cacheManager.loadAll({ sources: { w: { name: 'w', path, writable: true } } });
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+test('기존 키 변경과 새 키 추가를 파일에 저장', async () => {
+  await cacheManager.setValue('w', 'B17R2010.select.query', 'SELECT 2');
+  await cacheManager.setValue('w', 'b17.B17R2020.select', { query: 'SELECT 3' });
+
+  const saved = JSON.parse(readFileSync(path, 'utf-8'));
+  assert.equal(saved.b17['B17R2010.select'].query, 'SELECT 2');
+  assert.deepEqual(saved.b17.B17R2020.select, { query: 'SELECT 3' });
+  assert.equal(cacheManager.query('b17.B17R2020.select', 'w').found, true);
+});
+
+test('setValue로 Object.prototype을 오염시킬 수 없음', async () => {
+  for (const key of ['__proto__.polluted', 'b17.__proto__.polluted', 'constructor.prototype.polluted']) {
+    await assert.rejects(cacheManager.setValue('w', key, 1), { code: 'INVALID_KEY' }, key);
+  }
+
+  assert.equal({}.polluted, undefined);
+});
+
+test('JSON Patch add로 Object.prototype을 오염시킬 수 없음', async () => {
+  await assert.rejects(
+    cacheManager.patchSource('w', [{ op: 'add', path: '/b17/__proto__', value: { polluted: 1 } }]),
+    { code: 'PATCH_FAILED' }
+  );
+
+  assert.equal({}.polluted, undefined);
+  assert.equal(Object.getPrototypeOf(cacheManager.getCache('w').getData().b17), Object.prototype);
+});
+
+test('키 리비전은 요청할 때만 계산하고 값이 바뀔 때만 변경', async () => {
+  const result = cacheManager.query('B17R2010.select', 'w');
+  assert.equal(result.revision, undefined);
+
+  const revision = cacheManager.getKeyRevision(result);
+  assert.match(revision, /^[0-9a-f]{16}$/);
+  assert.equal(cacheManager.getKeyRevision(cacheManager.query('nope', 'w')), undefined);
+
+  // 다른 키를 변경해도 유지
+  await cacheManager.setValue('w', 'b17.B17R2099.select', { query: 'SELECT 99' });
+  assert.equal(cacheManager.getKeyRevision(cacheManager.query('B17R2010.select', 'w')), revision);
+
+  // ifMatch가 일치하면 저장하고, 값이 바뀐 뒤의 이전 리비전은 거부
+  const written = await cacheManager.setValue('w', 'B17R2010.select', { query: 'SELECT 4' }, revision);
+  assert.equal(written.keyRevision, cacheManager.getKeyRevision(cacheManager.query('B17R2010.select', 'w')));
+  assert.notEqual(written.keyRevision, revision);
+  await assert.rejects(cacheManager.deleteKey('w', 'B17R2010.select', revision), { code: 'REVISION_MISMATCH' });
+});
@@ -0,0 +1,58 @@
+/**
+ * 데이터 트리 비교(diff) 테스트
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffData, getValueNormalizer, isDeepEqual, summarizeDiff } from '../dist/utils/json-diff.js';
+
+test('값 구조 비교', () => {
+  assert.equal(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }), true);
+  assert.equal(isDeepEqual({ a: 1 }, { a: 1, b: undefined }), false);
+  assert.equal(isDeepEqual([1, 2], { 0: 1, 1: 2 }), false);
+  assert.equal(isDeepEqual(null, {}), false);
+});
+
+test('추가/삭제는 하위 트리 전체, 변경은 가장 깊은 키 단위로 기록', () => {
+  const oldData = {
+    b17: {
+      'B17R2010.select': { query: 'SELECT 1', desc: '조회' },
+      'B17R2020.select': { query: 'SELECT 2' }
+    }
+  };
+  const newData = {
+    b17: {
+      'B17R2010.select': { query: 'SELECT 10', desc: '조회' },
+      'B17R2030.select': { query: 'SELECT 3' }
+    }
+  };
+
+  const diff = diffData(oldData, newData);
+
+  assert.deepEqual(diff.removed, [{ key: 'b17.B17R2020.select', oldValue: { query: 'SELECT 2' } }]);
+  assert.deepEqual(diff.added, [{ key: 'b17.B17R2030.select', newValue: { query: 'SELECT 3' } }]);
+  assert.deepEqual(diff.changed, [{ key: 'b17.B17R2010.select.query', oldValue: 'SELECT 1', newValue: 'SELECT 10' }]);
+  assert.deepEqual(summarizeDiff(diff), { added: 1, removed: 1, changed: 1 });
+});
+
+test('배열과 타입이 바뀐 값은 통째로 비교', () => {
+  const diff = diffData({ a: [1, 2], b: { c: 1 } }, { a: [1, 3], b: 'text' });
+
+  assert.deepEqual(diff.changed.map(entry => entry.key), ['a', 'b']);
+  assert.deepEqual(summarizeDiff(diffData({ a: [1] }, { a: [1] })), { added: 0, removed: 0, changed: 0 });
+});
+
+test('정규화 방식 (결과에는 원래 값을 기록)', () => {
+  const oldData = { a: { query: 'SELECT  *\n FROM T', desc: 'a  b' } };
+  const newData = { a: { query: 'SELECT * FROM T -- 주석', desc: 'a b' } };
+
+  assert.equal(getValueNormalizer('none'), undefined);
+  assert.equal(diffData(oldData, newData).changed.length, 2);
+
+  const whitespace = diffData(oldData, newData, { normalize: getValueNormalizer('whitespace') });
+  assert.deepEqual(whitespace.changed.map(entry => entry.key), ['a.query']);
+  assert.equal(whitespace.changed[0].oldValue, 'SELECT  *\n FROM T');
+
+  const sql = diffData(oldData, newData, { normalize: getValueNormalizer('sql') });
+  assert.deepEqual(sql.changed.map(entry => entry.key), ['a.desc']);
+});
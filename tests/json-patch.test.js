@@ -0,0 +1,119 @@
+/**
+ * JSON Patch / JSON Pointer / 속성 경로 유틸리티 테스트
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyPatch,
+  deleteAtPath,
+  getAtPath,
+  getAtPointer,
+  JsonPatchError,
+  parsePointer,
+  setAtPath,
+  toPointer
+} from '../dist/utils/json-patch.js';
+
+test('JSON Pointer 토큰 변환 (~0, ~1 이스케이프)', () => {
+  assert.deepEqual(parsePointer(''), []);
+  assert.deepEqual(parsePointer('/a~1b/~0c/0'), ['a/b', '~c', '0']);
+  assert.equal(toPointer(['a/b', '~c', '0']), '/a~1b/~0c/0');
+  assert.throws(() => parsePointer('a/b'), /'\/'로 시작/);
+});
+
+test('JSON Pointer 위치의 값 조회', () => {
+  const document = { a: { b: [1, 2, 3] } };
+
+  assert.equal(getAtPointer(document, '/a/b/1'), 2);
+  assert.equal(getAtPointer(document, ''), document);
+  assert.throws(() => getAtPointer(document, '/a/c'), /경로가 존재하지 않습니다/);
+  assert.throws(() => getAtPointer(document, '/a/b/3'), /범위를 벗어났습니다/);
+});
+
+test('add/remove/replace 연산', () => {
+  const document = { a: { b: 1 }, list: [1, 3] };
+
+  applyPatch(document, [
+    { op: 'add', path: '/a/c', value: { d: true } },
+    { op: 'add', path: '/list/1', value: 2 },
+    { op: 'add', path: '/list/-', value: 4 },
+    { op: 'replace', path: '/a/b', value: 10 },
+    { op: 'remove', path: '/a/c/d' }
+  ]);
+
+  assert.deepEqual(document, { a: { b: 10, c: {} }, list: [1, 2, 3, 4] });
+});
+
+test('move/copy/test 연산', () => {
+  const document = { a: { b: { c: 1 } }, x: {} };
+
+  applyPatch(document, [
+    { op: 'copy', from: '/a/b', path: '/x/copied' },
+    { op: 'move', from: '/a/b', path: '/x/moved' },
+    { op: 'test', path: '/x/moved', value: { c: 1 } }
+  ]);
+
+  assert.deepEqual(document, { a: {}, x: { copied: { c: 1 }, moved: { c: 1 } } });
+
+  // 복사한 값은 원본과 공유하지 않음
+  document.x.copied.c = 2;
+  assert.equal(document.x.moved.c, 1);
+});
+
+test('실패한 연산의 순서를 포함한 JsonPatchError', () => {
+  const document = { a: 1 };
+
+  assert.throws(
+    () => applyPatch(document, [
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'test', path: '/a', value: 3 }
+    ]),
+    error => error instanceof JsonPatchError && error.index === 1 && /값이 일치하지 않습니다/.test(error.message)
+  );
+});
+
+test('잘못된 연산과 루트 변경은 거부', () => {
+  assert.throws(() => applyPatch({}, [{ op: 'merge', path: '/a' }]), JsonPatchError);
+  assert.throws(() => applyPatch({}, [{ op: 'add', path: '', value: {} }]), /문서 루트는 변경할 수 없습니다/);
+  assert.throws(() => applyPatch({}, [{ op: 'remove', path: '/missing' }]), /경로가 존재하지 않습니다/);
+  assert.throws(() => applyPatch({ a: { b: 1 } }, [{ op: 'move', from: '/a', path: '/a/c' }]), /하위 경로로 이동/);
+});
+
+test('속성 경로 조회/설정/삭제', () => {
+  const document = { 'B17R2010.select': { query: 'SELECT 1' } };
+
+  assert.equal(getAtPath(document, ['B17R2010.select', 'query']), 'SELECT 1');
+  assert.equal(getAtPath(document, ['B17R2010.select', 'missing']), undefined);
+
+  setAtPath(document, ['b30', 'B30R0010.select', 'query'], 'SELECT 2');
+  assert.deepEqual(document.b30, { 'B30R0010.select': { query: 'SELECT 2' } });
+  assert.throws(() => setAtPath(document, ['B17R2010.select', 'query', 'x'], 1), /객체가 아니므로/);
+
+  assert.equal(deleteAtPath(document, ['b30', 'B30R0010.select']), true);
+  assert.equal(deleteAtPath(document, ['b30', 'B30R0010.select']), false);
+  assert.deepEqual(document.b30, {});
+});
+
+test('__proto__/constructor/prototype 경로는 거부하고 Object.prototype을 변경하지 않음', () => {
+  const document = { x: {} };
+
+  for (const path of [['__proto__', 'polluted'], ['x', '__proto__', 'polluted'], ['x', 'constructor', 'prototype', 'polluted'], ['prototype']]) {
+    assert.throws(() => setAtPath(document, path, 1), /허용되지 않는 키 이름/, path.join('.'));
+  }
+  for (const path of ['/x/__proto__', '/x/__proto__/polluted', '/constructor']) {
+    assert.throws(() => applyPatch(document, [{ op: 'add', path, value: { polluted: 1 } }]), /허용되지 않는 키 이름/, path);
+  }
+  assert.throws(() => applyPatch(document, [{ op: 'copy', from: '/x', path: '/x/prototype' }]), /허용되지 않는 키 이름/);
+
+  assert.equal({}.polluted, undefined);
+  assert.equal(Object.getPrototypeOf(document.x), Object.prototype);
+  assert.deepEqual(document, { x: {} });
+});
+
+test('상속된 속성 이름도 자기 속성으로 생성', () => {
+  const document = {};
+  setAtPath(document, ['toString', 'query'], 'SELECT 1');
+
+  assert.deepEqual(document, { toString: { query: 'SELECT 1' } });
+});
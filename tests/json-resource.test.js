@@ -0,0 +1,111 @@
+/**
+ * Resource 목록/구독 테스트 (조회 통계/내린 소스에 영향 없이 목록을 만들고 값이 바뀐 URI만 알림)
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheManager } from '../dist/cache/CacheManager.js';
+import { JsonResourceHandler } from '../dist/resources/json-resource.js';
+
+let dir;
+let cacheManager;
+let handler;
+
+// 예산을 넘도록 키가 많은 소스 데이터
+function createSource(section, count) {
+  const entries = {};
+  for (let i = 0; i < count; i++) {
+    entries[`${section.toUpperCase()}R${String(i).padStart(4, '0')}.select`] = { query: `SELECT * FROM ${section}_TABLE_${i}`, desc: `${section} 조회 ${i}` };
+  }
+  return { [section]: entries };
+}
+
+function hits(source) {
+  return cacheManager.getCache(source).getStats().hits;
+}
+
+before(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'json-resource-'));
+  writeFileSync(join(dir, 'p.json'), JSON.stringify({ ...createSource('p17', 10), shared: 'p' }));
+  writeFileSync(join(dir, 'e.json'), JSON.stringify({ ...createSource('e30', 200), shared: 'e' }));
+
+  cacheManager = new CacheManager();
+  await cacheManager.loadAll({
+    sources: {
+      p: { name: 'p', path: join(dir, 'p.json'), primary: true, writable: true },
+      e: { name: 'e', path: join(dir, 'e.json') }
+    },
+    // 1KB: primary 외의 소스는 모두 내려야 함
+    options: { cacheSize: 1 / 1024 }
+  });
+
+  handler = new JsonResourceHandler(cacheManager);
+});
+
+after(() => {
+  cacheManager.shutdown();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('구독과 변경 확인은 조회 통계에 잡히지 않고 내린 소스를 다시 올리지 않음', async () => {
+  assert.equal(cacheManager.getCache('e').isResident(), false);
+  const pHits = hits('p');
+  const eHits = hits('e');
+
+  handler.subscribe('json://p/P17R0001.select');
+  handler.subscribe('json://e/E30R0001.select');
+  handler.subscribe('json://E30R0002.select');
+  handler.subscribe('json://missing');
+
+  await cacheManager.setValue('p', 'P17R0003.select.query', 'SELECT 3');
+  assert.deepEqual(handler.collectUpdated('p'), []);
+
+  assert.equal(hits('p'), pHits);
+  assert.equal(hits('e'), eHits);
+  assert.equal(cacheManager.getResidency('e').restores, 0);
+});
+
+test('값이 바뀐 URI만 알림', async () => {
+  await cacheManager.setValue('p', 'P17R0001.select.query', 'SELECT 1');
+  assert.deepEqual(handler.collectUpdated('p'), ['json://p/P17R0001.select']);
+  assert.deepEqual(handler.collectUpdated('p'), []);
+
+  // primary에 키가 생기면 전체 검색 URI가 가리키는 값이 바뀜
+  await cacheManager.setValue('p', 'missing', 1);
+  assert.deepEqual(handler.collectUpdated('p'), ['json://missing']);
+
+  assert.equal(cacheManager.getResidency('e').restores, 0);
+});
+
+test('내린 소스가 바뀌면 값을 읽지 않고 변경으로 알림', async () => {
+  await cacheManager.reloadSource('e');
+  for (let i = 0; i < 100 && cacheManager.getCache('e').isResident(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  assert.equal(cacheManager.getCache('e').isResident(), false);
+  const restores = cacheManager.getResidency('e').restores;
+
+  assert.deepEqual(handler.collectUpdated('e').sort(), ['json://E30R0002.select', 'json://e/E30R0001.select']);
+  assert.deepEqual(handler.collectUpdated('e'), []);
+  assert.equal(cacheManager.getResidency('e').restores, restores);
+});
+
+test('목록은 내린 소스를 다시 올리지 않고 상주 소스의 desc만 제목으로 사용', () => {
+  const restores = cacheManager.getResidency('e').restores;
+  const resources = [];
+  let cursor;
+  do {
+    const page = handler.listResources(cursor);
+    resources.push(...page.resources);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  const byUri = new Map(resources.map(resource => [resource.uri, resource]));
+  assert.equal(byUri.get('json://p/p17.P17R0002.select').title, 'p17 조회 2');
+  assert.equal(byUri.get('json://e/e30.E30R0002.select').title, undefined);
+  assert.equal(cacheManager.getCache('e').isResident(), false);
+  assert.equal(cacheManager.getResidency('e').restores, restores);
+});
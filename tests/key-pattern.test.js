@@ -0,0 +1,40 @@
+/**
+ * 와일드카드/글롭 키 패턴 테스트
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileKeyPattern, isKeyPattern, toMatchTarget } from '../dist/utils/key-pattern.js';
+
+function matches(pattern, path) {
+  return compileKeyPattern(pattern).test(toMatchTarget(path));
+}
+
+test('와일드카드 포함 여부', () => {
+  assert.equal(isKeyPattern('b17.B17R2010.*'), true);
+  assert.equal(isKeyPattern('B17R201?'), true);
+  assert.equal(isKeyPattern('b17.B17R2010.select'), false);
+});
+
+test('*는 점을 포함한 속성명 전체와 일치하지만 경로 경계는 넘지 않음', () => {
+  assert.equal(matches('b17.B17R2010.*', ['b17', 'B17R2010.L2N.select']), true);
+  assert.equal(matches('b17.B17R2010.*', ['b17', 'B17R2010.select', 'query']), false);
+  assert.equal(matches('b17.*', ['b17', 'B17R2010.select']), true);
+});
+
+test('**는 경로 경계를 넘어 일치', () => {
+  assert.equal(matches('b17.**.query', ['b17', 'B17R2010.select', 'query']), true);
+  assert.equal(matches('**', ['b17', 'B17R2010.select', 'query']), true);
+});
+
+test('?는 경로 경계가 아닌 한 글자', () => {
+  assert.equal(matches('b1?', ['b17']), true);
+  assert.equal(matches('b1?', ['b1']), false);
+  assert.equal(matches('b17?select', ['b17', 'select']), false);
+});
+
+test('대소문자를 무시하고 정규식 특수 문자는 그대로 비교', () => {
+  assert.equal(matches('B17.b17r2010.SELECT', ['b17', 'B17R2010.select']), true);
+  assert.equal(matches('a+b.(c)', ['a+b', '(c)']), true);
+  assert.equal(matches('a+b', ['aab']), false);
+});
@@ -0,0 +1,68 @@
+/**
+ * MCP HTTP 엔드포인트 세션 테스트 (전송 연결에 실패한 세션 정리)
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpHttpEndpoint } from '../dist/web/mcp-http.js';
+
+let httpServer;
+let baseUrl;
+let endpoint;
+// 생성/해제된 MCP Server 수와 세션 이벤트
+const counts = { created: 0, released: 0 };
+const events = [];
+
+before(async () => {
+  endpoint = new McpHttpEndpoint({ enabled: true, path: '/mcp', allowedOrigins: [] }, () => {
+    counts.created++;
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+    server.connect = async () => {
+      throw new Error('connect failed');
+    };
+    return { server, release: () => counts.released++ };
+  });
+  endpoint.addSessionListener(event => events.push(event));
+
+  const app = express();
+  app.use(express.json());
+  endpoint.mount(app);
+
+  httpServer = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => httpServer.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${httpServer.address().port}`;
+});
+
+after(async () => {
+  await endpoint.close();
+  await new Promise(resolve => httpServer.close(resolve));
+});
+
+test('Streamable HTTP 연결에 실패하면 세션과 MCP Server 등록을 되돌림', async () => {
+  const response = await fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    })
+  });
+
+  assert.equal(response.status, 500);
+  assert.equal(counts.released, counts.created);
+  assert.deepEqual(endpoint.getSessions(), []);
+});
+
+test('SSE 연결에 실패하면 세션과 MCP Server 등록을 되돌림', async () => {
+  const response = await fetch(`${baseUrl}/mcp/sse`);
+
+  assert.equal(response.status, 500);
+  assert.equal(counts.created, 2);
+  assert.equal(counts.released, 2);
+  assert.deepEqual(endpoint.getSessions(), []);
+  assert.deepEqual(events, []);
+});
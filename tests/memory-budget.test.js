@@ -0,0 +1,110 @@
+/**
+ * 메모리 예산 테스트 (내린 소스의 키 인덱스 응답과 다시 올리기)
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CacheManager } from '../dist/cache/CacheManager.js';
+
+let dir;
+let cacheManager;
+
+// 예산을 넘도록 키가 많은 소스 데이터
+function createSource(section, count) {
+  const entries = {};
+  for (let i = 0; i < count; i++) {
+    entries[`${section.toUpperCase()}R${String(i).padStart(4, '0')}.select`] = {
+      query: `SELECT * FROM ${section}_TABLE_${i}`,
+      params: [{ name: `param${i}` }]
+    };
+  }
+  return { [section]: entries };
+}
+
+function restores(source) {
+  return cacheManager.getResidency(source).restores;
+}
+
+before(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'memory-budget-'));
+  for (const name of ['p17', 'a30', 'b47']) {
+    writeFileSync(join(dir, `${name}.json`), JSON.stringify({ ...createSource(name, 200), [`${name}List`]: ['x', 'y'] }));
+  }
+
+  cacheManager = new CacheManager();
+  await cacheManager.loadAll({
+    sources: {
+      p: { name: 'p', path: join(dir, 'p17.json'), primary: true },
+      a: { name: 'a', path: join(dir, 'a30.json') },
+      b: { name: 'b', path: join(dir, 'b47.json') }
+    },
+    // 1KB: primary 외의 소스는 모두 내려야 함
+    options: { cacheSize: 1 / 1024 }
+  });
+});
+
+after(() => {
+  cacheManager.shutdown();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('예산을 넘는 비primary 소스는 내림', () => {
+  assert.deepEqual(cacheManager.getMemoryBudgetStats().evicted.sort(), ['a', 'b']);
+});
+
+test('없는 키 조회와 키 목록/자동완성/유사 키는 내린 소스를 다시 올리지 않음', () => {
+  assert.equal(cacheManager.query('nope').found, false);
+  assert.equal(cacheManager.query('b30.A30R0001.select', 'a').found, false);
+
+  const keys = cacheManager.listKeys(undefined, undefined, 2);
+  assert.ok(keys.includes('a30.A30R0001.select'));
+  assert.ok(keys.includes('b47.B47R0001.select'));
+  assert.ok(!keys.includes('a30.A30R0001.select.query'));
+
+  assert.deepEqual(cacheManager.getCache('a').completeKeys('A30R000', 3).keys, ['A30R0000.select', 'A30R0001.select', 'A30R0002.select']);
+  assert.equal(cacheManager.suggestKeys('A30R0001.selec', undefined, 1)[0].key, 'a30.A30R0001.select');
+  assert.equal(cacheManager.getCache('b').has('B47R0001.select'), true);
+
+  assert.equal(restores('a'), 0);
+  assert.equal(restores('b'), 0);
+  assert.equal(cacheManager.getCache('a').isResident(), false);
+});
+
+test('값이 필요한 조회만 해당 소스를 다시 올림', () => {
+  const result = cacheManager.query('A30R0001.select');
+  assert.equal(result.source, 'a');
+  assert.equal(result.value.query, 'SELECT * FROM a30_TABLE_1');
+
+  // 배열 요소 경로는 키 인덱스에 없지만 데이터에서 찾음
+  assert.equal(cacheManager.query('a30List.1', 'a').value, 'y');
+
+  assert.equal(restores('a'), 1);
+  assert.equal(restores('b'), 0);
+});
+
+test('임시 파일을 읽지 못하면 빈 데이터 대신 RESTORE_FAILED 후 원본에서 다시 로드', async () => {
+  const cache = cacheManager.getCache('b');
+  assert.equal(cache.isResident(), false);
+
+  rmSync(join(tmpdir(), `mcp-json-cache-${process.pid}`), { recursive: true, force: true });
+
+  assert.throws(() => cacheManager.query('B47R0001.select', 'b'), { code: 'RESTORE_FAILED' });
+  assert.throws(() => cacheManager.listTables('b'), { code: 'RESTORE_FAILED' });
+  assert.equal(cache.isResident(), false);
+
+  // 소스를 지정하지 않은 조회는 다시 올리지 못한 소스만 건너뜀
+  assert.equal(cacheManager.query('B47R0001.select').found, false);
+  assert.equal(cacheManager.query('P17R0001.select').source, 'p');
+  assert.ok(cacheManager.listTables().some(table => /^p17_table_1$/i.test(table)));
+  assert.equal(cache.getLoadError().code, 'RESTORE_FAILED');
+
+  // 원본에서 다시 로드되면 조회 가능
+  for (let i = 0; i < 100 && cache.getLoadError(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  assert.equal(cache.getLoadError(), null);
+  assert.equal(cacheManager.query('B47R0001.select', 'b').value.query, 'SELECT * FROM b47_TABLE_1');
+});
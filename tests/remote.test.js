@@ -0,0 +1,115 @@
+/**
+ * 원격 소스 조회 테스트
+ * 로컬 HTTP 스텁 서버로 ETag/Last-Modified 조건부 요청과 304 처리를 검증
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { fetchRemoteSource, getRemoteFileName } from '../dist/cache/loaders/remote.js';
+
+const ETAG = '"v1"';
+const LAST_MODIFIED = 'Wed, 01 Jan 2025 00:00:00 GMT';
+const BODY = JSON.stringify({ b17: { B17R2010: { select: { query: 'SELECT 1' } } } });
+
+let server;
+let baseUrl;
+// 스텁 서버가 받은 요청 헤더
+const requests = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    requests.push({ url: req.url, headers: req.headers });
+
+    if (req.url === '/error.json') {
+      res.writeHead(500);
+      res.end();
+      return;
+    }
+
+    if (req.url === '/slow.json') {
+      setTimeout(() => res.end(BODY), 500);
+      return;
+    }
+
+    if (req.url === '/last-modified.json') {
+      if (req.headers['if-modified-since'] === LAST_MODIFIED) {
+        res.writeHead(304);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Last-Modified': LAST_MODIFIED });
+      res.end(BODY);
+      return;
+    }
+
+    if (req.headers['if-none-match'] === ETAG) {
+      res.writeHead(304, { ETag: ETAG });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json', ETag: ETAG });
+    res.end(BODY);
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise(resolve => server.close(resolve)));
+
+test('첫 요청은 본문과 ETag 검증자를 반환', async () => {
+  const result = await fetchRemoteSource({ url: `${baseUrl}/queries.json` });
+
+  assert.equal(result.notModified, false);
+  assert.equal(result.status, 200);
+  assert.equal(result.content, BODY);
+  assert.equal(result.validators.etag, ETAG);
+  assert.equal(result.validators.lastModified, undefined);
+});
+
+test('ETag가 같으면 If-None-Match 요청에 304로 응답하고 검증자를 유지', async () => {
+  const result = await fetchRemoteSource({ url: `${baseUrl}/queries.json` }, { etag: ETAG });
+
+  assert.equal(result.notModified, true);
+  assert.equal(result.status, 304);
+  assert.equal(result.content, '');
+  assert.deepEqual(result.validators, { etag: ETAG });
+  assert.equal(requests[requests.length - 1].headers['if-none-match'], ETAG);
+});
+
+test('ETag가 다르면 새 본문을 받음', async () => {
+  const result = await fetchRemoteSource({ url: `${baseUrl}/queries.json` }, { etag: '"old"' });
+
+  assert.equal(result.notModified, false);
+  assert.equal(result.content, BODY);
+  assert.equal(result.validators.etag, ETAG);
+});
+
+test('Last-Modified는 If-Modified-Since로 전송', async () => {
+  const first = await fetchRemoteSource({ url: `${baseUrl}/last-modified.json` });
+  assert.equal(first.validators.lastModified, LAST_MODIFIED);
+
+  const second = await fetchRemoteSource({ url: `${baseUrl}/last-modified.json` }, first.validators);
+  assert.equal(second.notModified, true);
+  assert.equal(requests[requests.length - 1].headers['if-modified-since'], LAST_MODIFIED);
+});
+
+test('설정한 요청 헤더를 함께 전송', async () => {
+  await fetchRemoteSource({ url: `${baseUrl}/queries.json`, headers: { Authorization: 'Bearer token' } });
+
+  assert.equal(requests[requests.length - 1].headers.authorization, 'Bearer token');
+});
+
+test('2xx/304 외의 응답은 예외', async () => {
+  await assert.rejects(fetchRemoteSource({ url: `${baseUrl}/error.json` }), /HTTP 500/);
+});
+
+test('제한 시간을 넘으면 시간 초과 예외', async () => {
+  await assert.rejects(fetchRemoteSource({ url: `${baseUrl}/slow.json`, timeout: 50 }), /요청 시간 초과 \(50ms\)/);
+});
+
+test('URL 경로의 파일명 (없으면 호스트명)', () => {
+  assert.equal(getRemoteFileName('https://example.com/data/queries.yaml?v=1'), 'queries.yaml');
+  assert.equal(getRemoteFileName('https://example.com/'), 'example.com');
+});
@@ -0,0 +1,129 @@
+/**
+ * StreamingJsonParser 테스트
+ * 청크를 어떻게 나누어 입력해도 JSON.parse와 같은 결과(또는 같은 입력을 거부)인지 검증
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { StreamingJsonParser } from '../dist/cache/StreamingJsonParser.js';
+import { JsonCache } from '../dist/cache/JsonCache.js';
+
+// 청크 크기별로 나누어 파싱
+function parseInChunks(text, chunkSize) {
+  const parser = new StreamingJsonParser();
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.write(text.substring(i, i + chunkSize));
+  }
+  return parser.end();
+}
+
+const SAMPLE = JSON.stringify({
+  b17: {
+    'B17R2010.select': { query: 'SELECT * FROM T WHERE A = \'x\'\n  AND B = "y"', desc: '조회 é😀' },
+    'B17R2010.L2N.select': { query: 'SELECT 1', params: [1, -2.5, 3e10, 0, true, false, null] }
+  },
+  empty: { object: {}, array: [] },
+  escapes: '\\ / \b \f \t \r \u0001'
+}, null, 2);
+
+test('모든 청크 크기에서 JSON.parse와 같은 결과', () => {
+  const expected = JSON.parse(SAMPLE);
+  for (let chunkSize = 1; chunkSize <= 16; chunkSize++) {
+    assert.deepEqual(parseInChunks(SAMPLE, chunkSize), expected, `chunkSize=${chunkSize}`);
+  }
+  assert.deepEqual(parseInChunks(SAMPLE, SAMPLE.length), expected);
+});
+
+test('최상위 스칼라와 공백', () => {
+  for (const text of ['0', ' -12.5e3 ', 'true', 'null', '"text"', '[]', '\n{}\n']) {
+    assert.deepEqual(parseInChunks(text, 1), JSON.parse(text), text);
+  }
+});
+
+test('__proto__ 키는 JSON.parse와 같이 일반 속성', () => {
+  const text = '{"__proto__": {"polluted": true}}';
+  const result = parseInChunks(text, 3);
+
+  assert.deepEqual(Object.keys(result), ['__proto__']);
+  assert.equal(Object.getPrototypeOf(result), Object.prototype);
+  assert.equal({}.polluted, undefined);
+});
+
+test('JSON.parse가 거부하는 입력은 예외', () => {
+  const invalid = [
+    '{"a": 1,}',
+    '[1 2]',
+    '{"a" 1}',
+    '01',
+    '1.',
+    'tru',
+    'nul l',
+    '"\\x"',
+    '"tab\there"',
+    '{"key\n": 1}',
+    '"\u0000"',
+    '"\\u12g4"',
+    '{"a": 1}}',
+    '[}',
+    '{"a": 1',
+    '"unterminated'
+  ];
+
+  for (const text of invalid) {
+    assert.throws(() => JSON.parse(text), undefined, `JSON.parse: ${text}`);
+    assert.throws(() => parseInChunks(text, 2), undefined, `StreamingJsonParser: ${text}`);
+  }
+});
+
+test('streaming 옵션과 관계없이 같은 파일은 같은 오류 코드로 거부', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'streaming-json-'));
+  const path = join(dir, 'control.json');
+  writeFileSync(path, '{"query": "SELECT\t1"}');
+
+  try {
+    for (const streaming of [false, true]) {
+      await assert.rejects(new JsonCache('control', path, { streaming }).load(), { code: 'JSON_PARSE_ERROR' }, `streaming=${streaming}`);
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('큰 소스의 파싱과 색인 생성 중에도 이벤트 루프가 계속 실행', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'streaming-json-'));
+  const path = join(dir, 'large.json');
+  const entries = {};
+  for (let i = 0; i < 5000; i++) {
+    entries[`B17R${String(i).padStart(4, '0')}.select`] = {
+      query: `SELECT A, B FROM TB_TABLE_${i % 50} WHERE ID = :ID`,
+      desc: `작업지시 조회 ${i}`,
+      params: [{ name: 'ID' }]
+    };
+  }
+  writeFileSync(path, JSON.stringify({ b17: entries }));
+
+  let ticks = 0;
+  let ticking = true;
+  const tick = () => {
+    ticks++;
+    if (ticking) setImmediate(tick);
+  };
+  setImmediate(tick);
+
+  try {
+    const cache = new JsonCache('large', path, { streaming: true });
+    await cache.load();
+    ticking = false;
+
+    assert.equal(cache.getStats().keys, 5000 * 4 + 1);
+    assert.equal(cache.listTables().length, 50);
+    // 키 항목 1000개마다 제어를 양보하므로 로드 중에 여러 번 실행됨
+    assert.ok(ticks >= 20, `ticks=${ticks}`);
+  } finally {
+    ticking = false;
+    rmSync(dir, { recursive: true, force: true });
+  }
+});